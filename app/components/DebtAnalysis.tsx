@@ -0,0 +1,317 @@
+import { useMemo } from "react";
+import { Bar } from "react-chartjs-2";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import {
+  AmortizationProfile,
+  DebtParameters,
+  DebtSizingMethod,
+} from "../types/debt";
+import { calculateDebt, debtSizingLabels } from "../utils/debt";
+import { formatIRR } from "../utils/irr";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "mt-1 block w-full p-2 text-base rounded-md border border-[#B2DFDB] focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+// Rates are stored as decimals and edited as percentages
+const percentFields: {
+  key: keyof Pick<
+    DebtParameters,
+    | "maxLeverage"
+    | "interestRate"
+    | "upfrontFeeRate"
+    | "constructionLoanRate"
+    | "constructionAdvanceRate"
+  >;
+  label: string;
+}[] = [
+  { key: "maxLeverage", label: "Max Leverage (% of CapEx)" },
+  { key: "interestRate", label: "Term Interest Rate (%)" },
+  { key: "upfrontFeeRate", label: "Upfront Fee (%)" },
+  { key: "constructionLoanRate", label: "Construction Loan Rate (%)" },
+  {
+    key: "constructionAdvanceRate",
+    label: "Construction Advance (% of CapEx)",
+  },
+];
+
+export function DebtAnalysis({
+  riskCategories,
+  systemParams,
+  financialParameters,
+  debtParameters,
+  setDebtParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  debtParameters: DebtParameters;
+  setDebtParameters: (debtParameters: DebtParameters) => void;
+}) {
+  const result = useMemo(
+    () =>
+      calculateDebt(
+        riskCategories,
+        systemParams,
+        financialParameters,
+        debtParameters
+      ),
+    [riskCategories, systemParams, financialParameters, debtParameters]
+  );
+
+  const metrics = [
+    { label: "Term Debt", value: formatCurrency(result.debtSize) },
+    { label: "Leverage", value: formatPercent(result.leverage) },
+    { label: "Equity IRR", value: formatIRR(result.equityIRR) },
+    {
+      label: "Portfolio Equity IRR",
+      value: formatIRR(result.portfolioEquityIRR),
+    },
+    { label: "Min DSCR", value: `${result.minDSCR.toFixed(2)}x` },
+    { label: "Avg DSCR", value: `${result.avgDSCR.toFixed(2)}x` },
+  ];
+
+  const chartData = {
+    labels: result.schedule.map((row) => `Year ${row.operatingYear}`),
+    datasets: [
+      {
+        label: "CFADS",
+        data: result.schedule.map((row) => row.cfads),
+        backgroundColor: "rgba(65, 170, 160, 0.7)",
+        borderColor: "rgb(55, 150, 140)",
+        borderWidth: 1,
+        stack: "cfads",
+      },
+      {
+        label: "Interest",
+        data: result.schedule.map((row) => row.interest),
+        backgroundColor: "rgba(255, 99, 132, 0.7)",
+        borderColor: "rgb(255, 99, 132)",
+        borderWidth: 1,
+        stack: "debtService",
+      },
+      {
+        label: "Principal",
+        data: result.schedule.map((row) => row.principal),
+        backgroundColor: "rgba(29, 56, 52, 0.7)",
+        borderColor: "rgb(29, 56, 52)",
+        borderWidth: 1,
+        stack: "debtService",
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: {
+        display: true,
+        text: "CFADS and Debt Service by Operating Year",
+        color: "#1D3834",
+      },
+    },
+    scales: {
+      y: {
+        stacked: true,
+        title: { display: true, text: "Amount ($)" },
+        ticks: { color: "#1D3834" },
+      },
+      x: {
+        stacked: true,
+        ticks: { color: "#1D3834" },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="debt-tooltip"
+          trigger={<span>Project Finance Debt ⓘ</span>}
+        >
+          A construction loan funds part of the CapEx from NTP and converts to
+          term debt at COD. The term debt is sized on CFADS (revenue less OpEx)
+          at the target DSCR, on leverage, or on the lesser of the two. Equity
+          funds DevEx and the rest of the CapEx and receives the cash left after
+          debt service. The headline IRRs elsewhere on the page remain
+          unlevered.
+        </InfoTooltip>
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 items-end">
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Sizing Method
+          </label>
+          <select
+            className={inputClassName}
+            value={debtParameters.sizingMethod}
+            onChange={(e) =>
+              setDebtParameters({
+                ...debtParameters,
+                sizingMethod: e.target.value as DebtSizingMethod,
+              })
+            }
+          >
+            {(Object.keys(debtSizingLabels) as DebtSizingMethod[]).map(
+              (method) => (
+                <option key={method} value={method}>
+                  {debtSizingLabels[method]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Amortization
+          </label>
+          <select
+            className={inputClassName}
+            value={debtParameters.amortization}
+            onChange={(e) =>
+              setDebtParameters({
+                ...debtParameters,
+                amortization: e.target.value as AmortizationProfile,
+              })
+            }
+          >
+            <option value="sculpted">Sculpted</option>
+            <option value="level">Level</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Target DSCR (x)
+          </label>
+          <input
+            type="number"
+            step="0.05"
+            className={inputClassName}
+            value={debtParameters.targetDSCR}
+            onChange={(e) =>
+              setDebtParameters({
+                ...debtParameters,
+                targetDSCR: Number(e.target.value),
+              })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Tenor (years)
+          </label>
+          <input
+            type="number"
+            min="1"
+            className={inputClassName}
+            value={debtParameters.tenorYears}
+            onChange={(e) =>
+              setDebtParameters({
+                ...debtParameters,
+                tenorYears: Math.max(0, parseInt(e.target.value) || 0),
+              })
+            }
+          />
+        </div>
+        {percentFields.map((field) => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-[#1D3834]">
+              {field.label}
+            </label>
+            <input
+              type="number"
+              className={inputClassName}
+              value={Number((debtParameters[field.key] * 100).toFixed(4))}
+              onChange={(e) =>
+                setDebtParameters({
+                  ...debtParameters,
+                  [field.key]: Number(e.target.value) / 100,
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="bg-[#E0F2F1] p-4 rounded-md">
+            <div className="text-sm text-gray-600">{metric.label}</div>
+            <div className="text-lg font-bold text-[#1D3834]">
+              {metric.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-[400px] mb-6">
+        <Bar data={chartData} options={chartOptions} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Operating Year</th>
+              <th className="px-3 py-3 text-[#1D3834]">CFADS</th>
+              <th className="px-3 py-3 text-[#1D3834]">Opening Balance</th>
+              <th className="px-3 py-3 text-[#1D3834]">Interest</th>
+              <th className="px-3 py-3 text-[#1D3834]">Principal</th>
+              <th className="px-3 py-3 text-[#1D3834]">Debt Service</th>
+              <th className="px-3 py-3 text-[#1D3834]">Closing Balance</th>
+              <th className="px-3 py-3 text-[#1D3834]">DSCR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.schedule.map((row) => (
+              <tr key={row.operatingYear} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3 font-medium text-[#1D3834]">
+                  {row.operatingYear}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.cfads)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.openingBalance)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.interest)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.principal)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.debtService)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.closingBalance)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {row.dscr === null ? "–" : `${row.dscr.toFixed(2)}x`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-sm text-gray-600">
+        The construction loan accrues{" "}
+        {formatCurrency(result.constructionInterest)} of capitalized interest
+        and reaches {formatCurrency(result.constructionLoanBalance)} at COD,
+        when it is repaid from the term debt proceeds net of a{" "}
+        {formatCurrency(result.upfrontFee)} upfront fee. Any shortfall is funded
+        by equity.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { ChangeEvent, useState } from "react";
+import {
+  RiskTableColumn,
+  WorkbookCellNote,
+  WorkbookImport,
+  WorkbookInput,
+  WorkbookMapping,
+} from "../types/excelImport";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import {
+  financialModelMapping,
+  readWorkbookInputs,
+  riskTableColumnLabels,
+  workbookInputs,
+} from "../utils/excelImport";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const labelClassName = "block text-sm font-medium text-[#1D3834]";
+
+function CellNotes({
+  title,
+  notes,
+}: {
+  title: string;
+  notes: WorkbookCellNote[];
+}) {
+  if (notes.length === 0) return null;
+  return (
+    <div className="mt-4">
+      <h3 className="text-base font-semibold text-[#1D3834] mb-2">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-2 text-left text-[#1D3834]">Cell</th>
+              <th className="px-3 py-2 text-left text-[#1D3834]">Input</th>
+              <th className="px-3 py-2 text-left text-[#1D3834]">Value</th>
+              {notes.some((note) => note.message) && (
+                <th className="px-3 py-2 text-left text-[#1D3834]">Problem</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {notes.map((note) => (
+              <tr
+                key={`${note.cell}-${note.label}`}
+                className="border-b border-[#B2DFDB]"
+              >
+                <td className="px-3 py-2 font-medium text-[#1D3834]">
+                  {note.cell}
+                </td>
+                <td className="px-3 py-2 text-gray-600">{note.label}</td>
+                <td className="px-3 py-2 text-gray-600">{note.value}</td>
+                {note.message && (
+                  <td className="px-3 py-2 text-red-700">{note.message}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function ExcelImport({
+  riskCategories,
+  systemParams,
+  financialParameters,
+  onImport,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  onImport: (inputs: {
+    riskCategories: RiskCategory[];
+    systemParams: SystemParameters;
+    financialParameters: FinancialParameters;
+  }) => void;
+}) {
+  const [mapping, setMapping] = useState<WorkbookMapping>(
+    financialModelMapping
+  );
+  const [customMapping, setCustomMapping] = useState(false);
+  const [result, setResult] = useState<WorkbookImport | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [applied, setApplied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be chosen again
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setResult(
+        readWorkbookInputs(await file.arrayBuffer(), mapping, {
+          riskCategories,
+          systemParams,
+          financialParameters,
+        })
+      );
+      setFileName(file.name);
+      setApplied(false);
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const applyImport = () => {
+    if (!result) return;
+    onImport({
+      riskCategories: result.riskCategories ?? riskCategories,
+      systemParams: result.systemParams,
+      financialParameters: result.financialParameters,
+    });
+    setApplied(true);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="excel-import-tooltip"
+          trigger={<span>Import from Excel ⓘ</span>}
+        >
+          Read risk categories, system parameters and costs from a workbook laid
+          out like Financial-model.xlsx, or point each input at its own cell.
+          Review what was found before applying it. Inputs the workbook
+          doesn&apos;t cover, such as milestone timing, keep their current
+          values, and an electricity rate switches revenue to a fixed bill
+          credit.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-4 items-center">
+        <button
+          onClick={() => {
+            setCustomMapping(false);
+            setMapping(financialModelMapping);
+          }}
+          className={`px-4 py-2 rounded-md ${
+            !customMapping
+              ? "bg-[#1D3834] text-white"
+              : "bg-[#B2DFDB] text-[#1D3834]"
+          }`}
+        >
+          Financial-model.xlsx Layout
+        </button>
+        <button
+          onClick={() => setCustomMapping(true)}
+          className={`px-4 py-2 rounded-md ${
+            customMapping
+              ? "bg-[#1D3834] text-white"
+              : "bg-[#B2DFDB] text-[#1D3834]"
+          }`}
+        >
+          Custom Cell Mapping
+        </button>
+        <input
+          type="file"
+          accept=".xlsx,.xlsm,.xls"
+          className="text-sm text-gray-600"
+          onChange={handleFile}
+        />
+      </div>
+
+      {customMapping && (
+        <div className="mb-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClassName}>Sheet</label>
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="First sheet"
+                value={mapping.sheet}
+                onChange={(e) =>
+                  setMapping({ ...mapping, sheet: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Risk Table First Row</label>
+              <input
+                type="number"
+                min="1"
+                className={inputClassName}
+                value={mapping.riskFirstRow}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    riskFirstRow: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Risk Table Last Row</label>
+              <input
+                type="number"
+                min="1"
+                className={inputClassName}
+                value={mapping.riskLastRow}
+                onChange={(e) =>
+                  setMapping({
+                    ...mapping,
+                    riskLastRow: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(Object.keys(riskTableColumnLabels) as RiskTableColumn[]).map(
+              (key) => (
+                <div key={key}>
+                  <label className={labelClassName}>
+                    {riskTableColumnLabels[key]} Column
+                  </label>
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={mapping.riskColumns[key]}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        riskColumns: {
+                          ...mapping.riskColumns,
+                          [key]: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              )
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(Object.keys(workbookInputs) as WorkbookInput[]).map((key) => (
+              <div key={key}>
+                <label className={labelClassName}>
+                  {workbookInputs[key].label}
+                </label>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="Not read"
+                  value={mapping.cells[key]}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      cells: { ...mapping.cells, [key]: e.target.value },
+                    })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      {result && (
+        <div>
+          <div className="flex flex-wrap gap-4 items-center">
+            <p className="text-base text-gray-600">
+              {fileName} ({result.sheet}): {result.imported.length} cells read
+              {result.riskCategories
+                ? `, ${result.riskCategories.length} risk categories`
+                : ", no risk categories"}
+              , {result.invalid.length} invalid, {result.unmapped.length}{" "}
+              unmapped.
+            </p>
+            <button
+              onClick={applyImport}
+              disabled={applied || result.imported.length === 0}
+              className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50"
+            >
+              {applied ? "Applied" : "Apply to Model"}
+            </button>
+          </div>
+          <CellNotes title="Invalid Cells (skipped)" notes={result.invalid} />
+          <CellNotes
+            title="Unmapped Values (not read)"
+            notes={result.unmapped}
+          />
+          <CellNotes title="Cells Read" notes={result.imported} />
+        </div>
+      )}
+    </div>
+  );
+}
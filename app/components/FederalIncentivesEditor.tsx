@@ -0,0 +1,381 @@
+import {
+  CreditElection,
+  FederalIncentives,
+  ITCAdder,
+} from "../types/financial";
+import { FederalCreditSummary } from "../utils/cashFlowCalculations";
+import { creditElectionLabels } from "../utils/federalIncentives";
+import { formatIRR } from "../utils/irr";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+export function FederalIncentivesEditor({
+  federalIncentives,
+  setFederalIncentives,
+  federalCredits,
+}: {
+  federalIncentives: FederalIncentives;
+  setFederalIncentives: (federalIncentives: FederalIncentives) => void;
+  federalCredits: FederalCreditSummary;
+}) {
+  const update = (changes: Partial<FederalIncentives>) =>
+    setFederalIncentives({ ...federalIncentives, ...changes });
+
+  const updateAdder = (index: number, changes: Partial<ITCAdder>) => {
+    const newAdders = [...federalIncentives.adders];
+    newAdders[index] = { ...newAdders[index], ...changes };
+    update({ adders: newAdders });
+  };
+
+  const addAdder = () => {
+    update({
+      adders: [
+        ...federalIncentives.adders,
+        {
+          id: `adder-${Date.now()}`,
+          name: "New Adder",
+          rate: 0.1,
+          qualificationProbability: 0.5,
+          scalesWithPrevailingWage: true,
+          appliesToPTC: false,
+        },
+      ],
+    });
+  };
+
+  const comparison = [
+    {
+      credit: "itc" as const,
+      label: `ITC (${formatPercent(federalCredits.itcRate)} expected rate)`,
+      value: federalCredits.itcValue,
+      irr: federalCredits.itcProjectIRR,
+    },
+    {
+      credit: "ptc" as const,
+      label: `PTC (${federalIncentives.ptcTermYears} years)`,
+      value: federalCredits.ptcValue,
+      irr: federalCredits.ptcProjectIRR,
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-[#1D3834]">
+          <InfoTooltip
+            id="federal-incentives-tooltip"
+            trigger={<span>Federal Tax Credits ⓘ</span>}
+          >
+            Rates assume prevailing wage and apprenticeship requirements are
+            met; without them the base credit and the adders that scale with it
+            are a fifth as large. Each adder is weighted by its probability of
+            qualifying here and drawn per project in the Monte Carlo simulation.
+          </InfoTooltip>
+        </h2>
+        <button
+          onClick={addAdder}
+          className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+        >
+          Add Adder
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Base ITC Rate (%)
+          </label>
+          <input
+            type="number"
+            className={inputClassName}
+            value={toPercent(federalIncentives.baseITCRate)}
+            onChange={(e) =>
+              update({ baseITCRate: Number(e.target.value) / 100 })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Prevailing Wage Probability (%)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            className={inputClassName}
+            value={toPercent(federalIncentives.prevailingWageProbability)}
+            onChange={(e) =>
+              update({
+                prevailingWageProbability: Math.min(
+                  1,
+                  Math.max(0, Number(e.target.value) / 100)
+                ),
+              })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Credit Election
+          </label>
+          <select
+            className={inputClassName}
+            value={federalIncentives.election}
+            onChange={(e) =>
+              update({ election: e.target.value as CreditElection })
+            }
+          >
+            {(Object.keys(creditElectionLabels) as CreditElection[]).map(
+              (election) => (
+                <option key={election} value={election}>
+                  {creditElectionLabels[election]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            PTC Rate ($/MWh)
+          </label>
+          <input
+            type="number"
+            className={inputClassName}
+            value={federalIncentives.ptcRatePerMWh}
+            onChange={(e) => update({ ptcRatePerMWh: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            PTC Inflation Adjustment (%)
+          </label>
+          <input
+            type="number"
+            className={inputClassName}
+            value={toPercent(federalIncentives.ptcEscalation)}
+            onChange={(e) =>
+              update({ ptcEscalation: Number(e.target.value) / 100 })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            PTC Term (years)
+          </label>
+          <input
+            type="number"
+            min="0"
+            className={inputClassName}
+            value={federalIncentives.ptcTermYears}
+            onChange={(e) =>
+              update({
+                ptcTermYears: Math.max(0, parseInt(e.target.value) || 0),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Adder</th>
+              <th className="px-3 py-3 text-[#1D3834]">ITC Points (%)</th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                Probability of Qualifying (%)
+              </th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                Scales with Prevailing Wage
+              </th>
+              <th className="px-3 py-3 text-[#1D3834]">Applies to PTC</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {federalIncentives.adders.map((adder, index) => (
+              <tr key={adder.id} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3">
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={adder.name}
+                    onChange={(e) =>
+                      updateAdder(index, { name: e.target.value })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    value={toPercent(adder.rate)}
+                    onChange={(e) =>
+                      updateAdder(index, {
+                        rate: Number(e.target.value) / 100,
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    className={inputClassName}
+                    value={toPercent(adder.qualificationProbability)}
+                    onChange={(e) =>
+                      updateAdder(index, {
+                        qualificationProbability: Math.min(
+                          1,
+                          Math.max(0, Number(e.target.value) / 100)
+                        ),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3 text-center">
+                  <input
+                    type="checkbox"
+                    checked={adder.scalesWithPrevailingWage}
+                    onChange={(e) =>
+                      updateAdder(index, {
+                        scalesWithPrevailingWage: e.target.checked,
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3 text-center">
+                  <input
+                    type="checkbox"
+                    checked={adder.appliesToPTC}
+                    onChange={(e) =>
+                      updateAdder(index, { appliesToPTC: e.target.checked })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <button
+                    aria-label={`Remove ${adder.name}`}
+                    onClick={() =>
+                      update({
+                        adders: federalIncentives.adders.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                    className="text-red-700 hover:text-red-900"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6 items-end">
+        <label className="flex items-center gap-2 text-sm font-medium text-[#1D3834]">
+          <input
+            type="checkbox"
+            checked={federalIncentives.transfer.enabled}
+            onChange={(e) =>
+              update({
+                transfer: {
+                  ...federalIncentives.transfer,
+                  enabled: e.target.checked,
+                },
+              })
+            }
+          />
+          Sell credits (transferability)
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Sale Price (cents per $1 of credit)
+          </label>
+          <input
+            type="number"
+            className={inputClassName}
+            disabled={!federalIncentives.transfer.enabled}
+            value={toPercent(federalIncentives.transfer.pricePerDollar)}
+            onChange={(e) =>
+              update({
+                transfer: {
+                  ...federalIncentives.transfer,
+                  pricePerDollar: Number(e.target.value) / 100,
+                },
+              })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Payment Delay (months)
+          </label>
+          <input
+            type="number"
+            min="0"
+            className={inputClassName}
+            disabled={!federalIncentives.transfer.enabled}
+            value={federalIncentives.transfer.delayMonths}
+            onChange={(e) =>
+              update({
+                transfer: {
+                  ...federalIncentives.transfer,
+                  delayMonths: Math.max(0, parseInt(e.target.value) || 0),
+                },
+              })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Credit</th>
+              <th className="px-3 py-3 text-[#1D3834]">Credit Value</th>
+              <th className="px-3 py-3 text-[#1D3834]">Project IRR</th>
+              <th className="px-3 py-3 text-[#1D3834]">Elected</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.map((row) => (
+              <tr key={row.credit} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3 font-medium text-[#1D3834]">
+                  {row.label}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.value)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatIRR(row.irr)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {federalCredits.elected === row.credit ? "✓" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-sm text-gray-600">
+        The ITC is earned at COD and the PTC on each MWh generated during its
+        term, using the production profile. Sold credits are received at the
+        sale price after the payment delay.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+import { useMemo, useState } from "react";
+import { Line } from "react-chartjs-2";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import {
+  BreakevenFrontierPoint,
+  BreakevenResult,
+  InputRange,
+  ModelInput,
+  ModelInputUnit,
+  ModelOutput,
+} from "../types/sensitivity";
+import { SystemParameters } from "../types/system";
+import { formatMetric } from "../utils/metrics";
+import {
+  clampInputValue,
+  defaultInputRange,
+  defaultSearchRange,
+  formatInputValue,
+  listModelInputs,
+} from "../utils/modelInputs";
+import {
+  axisValues,
+  calculateBreakevenFrontier,
+  modelOutputs,
+  solveBreakeven,
+} from "../utils/sensitivity";
+import { ModelInputSelect } from "./ModelInputSelect";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+// Each frontier point is a full search, so the frontier is kept short
+const maxFrontierSteps = 12;
+
+// Input solved for first when the inputs have it: the bill credit rate needed
+const defaultInput = "revenue:fixedRatePerMWh";
+
+// What a search was run with, kept so results describe the run rather than
+// the current choices
+interface GoalSeekRun {
+  input: { label: string; unit: ModelInputUnit };
+  range: InputRange;
+  output: ModelOutput;
+  target: number;
+  breakeven: BreakevenResult;
+  frontier: {
+    input: { label: string; unit: ModelInputUnit };
+    points: BreakevenFrontierPoint[];
+  } | null;
+}
+
+function RangeInputs({
+  input,
+  range,
+  onChange,
+}: {
+  input: ModelInput;
+  range: InputRange;
+  onChange: (range: InputRange) => void;
+}) {
+  const percent = input.unit === "percent";
+  return (
+    <>
+      {(["low", "high"] as const).map((end) => (
+        <div key={end}>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            {end === "low" ? "From" : "To"}
+            {percent && " (%)"}
+          </label>
+          <input
+            type="number"
+            step={input.integer ? 1 : "any"}
+            className={`${inputClassName} mt-1`}
+            value={percent ? toPercent(range[end]) : range[end]}
+            onChange={(e) =>
+              onChange({
+                ...range,
+                [end]: clampInputValue(
+                  input,
+                  Number(e.target.value) / (percent ? 100 : 1)
+                ),
+              })
+            }
+          />
+        </div>
+      ))}
+    </>
+  );
+}
+
+// A sentence answering the search
+function describeBreakeven(run: GoalSeekRun): string {
+  const { input, range, breakeven } = run;
+  const { label, unit } = modelOutputs[run.output];
+  const target = formatMetric(run.target, unit);
+  const from = formatInputValue(input, range.low);
+  const to = formatInputValue(input, range.high);
+  switch (breakeven.status) {
+    case "found":
+      return `${label} reaches ${target} with ${input.label} at ${
+        breakeven.meetsAbove ? "least" : "most"
+      } ${formatInputValue(input, breakeven.value)} (${formatMetric(
+        breakeven.achieved,
+        unit
+      )} there).`;
+    case "infeasible":
+      return `${label} doesn't reach ${target} anywhere with ${input.label} from ${from} to ${to}. The closest is ${formatMetric(
+        breakeven.closest,
+        unit
+      )} at ${formatInputValue(input, breakeven.closestValue)}.`;
+    case "alwaysMet":
+      return `${label} is at least ${target} everywhere with ${input.label} from ${from} to ${to}, so there is no breakeven in that range.`;
+  }
+}
+
+export function GoalSeek({
+  riskCategories,
+  systemParams,
+  financialParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}) {
+  const [inputId, setInputId] = useState(defaultInput);
+  // Null ranges follow the current value of the input
+  const [searchRange, setSearchRange] = useState<InputRange | null>(null);
+  const [output, setOutput] = useState<ModelOutput>("portfolioIRR");
+  const [targets, setTargets] = useState(
+    Object.fromEntries(
+      (Object.keys(modelOutputs) as ModelOutput[]).map((key) => [
+        key,
+        modelOutputs[key].defaultTarget,
+      ])
+    ) as Record<ModelOutput, number>
+  );
+  const [tracesFrontier, setTracesFrontier] = useState(false);
+  const [frontierId, setFrontierId] = useState("");
+  const [frontierRange, setFrontierRange] = useState<InputRange | null>(null);
+  const [frontierSteps, setFrontierSteps] = useState(6);
+  const [run, setRun] = useState<GoalSeekRun | null>(null);
+
+  const inputs = useMemo(
+    () => ({ riskCategories, systemParams, financialParameters }),
+    [riskCategories, systemParams, financialParameters]
+  );
+  const modelInputs = useMemo(() => listModelInputs(inputs), [inputs]);
+
+  // Falls back to other inputs once a chosen one no longer exists
+  const input =
+    modelInputs.find((other) => other.id === inputId) ?? modelInputs[0];
+  const frontierInput =
+    modelInputs.find(
+      (other) => other.id === frontierId && other.id !== input.id
+    ) ?? modelInputs.find((other) => other.id !== input.id)!;
+  const range = searchRange ?? defaultSearchRange(input, inputs);
+  const frontierAxis =
+    frontierRange ?? defaultInputRange(frontierInput, inputs);
+  const { unit } = modelOutputs[output];
+  const target = targets[output];
+
+  const solve = () =>
+    setRun({
+      input: { label: input.label, unit: input.unit },
+      range,
+      output,
+      target,
+      breakeven: solveBreakeven(inputs, input, output, target, range),
+      frontier: tracesFrontier
+        ? {
+            input: { label: frontierInput.label, unit: frontierInput.unit },
+            points: calculateBreakevenFrontier(
+              inputs,
+              input,
+              output,
+              target,
+              range,
+              {
+                input: frontierInput,
+                values: axisValues(frontierInput, frontierAxis, frontierSteps),
+              }
+            ),
+          }
+        : null,
+    });
+
+  const frontierData = run?.frontier && {
+    labels: run.frontier.points.map((point) =>
+      formatInputValue(run.frontier!.input, point.value)
+    ),
+    datasets: [
+      {
+        label: `Breakeven ${run.input.label}`,
+        data: run.frontier.points.map((point) =>
+          point.breakeven.status === "found" ? point.breakeven.value : null
+        ),
+        borderColor: "rgb(29, 56, 52)",
+        backgroundColor: "rgba(29, 56, 52, 0.2)",
+        spanGaps: false,
+      },
+    ],
+  };
+
+  const frontierOptions = run?.frontier && {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: run.frontier.input.label } },
+      y: {
+        title: { display: true, text: run.input.label },
+        ticks: {
+          callback: (value: number | string) =>
+            formatInputValue(run.input, Number(value)),
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip id="goal-seek-tooltip" trigger={<span>Goal Seek ⓘ</span>}>
+          Finds the value of one input at which a result just reaches a target,
+          with every other input held where it is: the most DevEx a category can
+          take and still clear a hurdle, or the bill credit rate a project
+          needs. The range is searched for where the target starts or stops
+          being met. A frontier repeats the search at each value of a second
+          input, tracing the pairs of values that just meet the target.
+        </InfoTooltip>
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Solve For
+          </label>
+          <ModelInputSelect
+            modelInputs={modelInputs}
+            value={input.id}
+            className={`${inputClassName} mt-1`}
+            onChange={(id) => {
+              setInputId(id);
+              setSearchRange(null);
+            }}
+          />
+        </div>
+        <RangeInputs input={input} range={range} onChange={setSearchRange} />
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 items-end">
+        {(Object.keys(modelOutputs) as ModelOutput[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setOutput(key)}
+            className={`px-4 py-2 rounded-md ${
+              output === key
+                ? "bg-[#1D3834] text-white"
+                : "bg-[#B2DFDB] text-[#1D3834]"
+            }`}
+          >
+            {modelOutputs[key].label}
+          </button>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Target{unit === "percent" ? " (%)" : " ($)"}
+          </label>
+          <input
+            type="number"
+            className={`${inputClassName} mt-1 w-32`}
+            value={unit === "percent" ? toPercent(target) : target}
+            onChange={(e) =>
+              setTargets({
+                ...targets,
+                [output]:
+                  Number(e.target.value) / (unit === "percent" ? 100 : 1),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-[#1D3834]">
+        <input
+          type="checkbox"
+          checked={tracesFrontier}
+          onChange={(e) => setTracesFrontier(e.target.checked)}
+        />
+        Trace a frontier against a second input
+      </label>
+
+      {tracesFrontier && (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-[#1D3834]">
+              Second Input
+            </label>
+            <ModelInputSelect
+              modelInputs={modelInputs}
+              value={frontierInput.id}
+              excludeIds={[input.id]}
+              className={`${inputClassName} mt-1`}
+              onChange={(id) => {
+                setFrontierId(id);
+                setFrontierRange(null);
+              }}
+            />
+          </div>
+          <RangeInputs
+            input={frontierInput}
+            range={frontierAxis}
+            onChange={setFrontierRange}
+          />
+          <div>
+            <label className="block text-sm font-medium text-[#1D3834]">
+              Steps
+            </label>
+            <input
+              type="number"
+              min="2"
+              max={maxFrontierSteps}
+              className={`${inputClassName} mt-1`}
+              value={frontierSteps}
+              onChange={(e) =>
+                setFrontierSteps(
+                  Math.min(
+                    maxFrontierSteps,
+                    Math.max(2, parseInt(e.target.value) || 2)
+                  )
+                )
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      <button onClick={solve} className={buttonClassName}>
+        Solve
+      </button>
+
+      {run && (
+        <div className="mt-6">
+          <p
+            className={`text-lg font-medium ${
+              run.breakeven.status === "found"
+                ? "text-[#1D3834]"
+                : "text-red-700"
+            }`}
+          >
+            {describeBreakeven(run)}
+          </p>
+
+          {run.frontier && frontierData && frontierOptions && (
+            <>
+              <div className="h-[320px] mt-6">
+                <Line data={frontierData} options={frontierOptions} />
+              </div>
+              <div className="overflow-x-auto mt-4">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-[#E0F2F1]">
+                      <th className="px-3 py-2 text-left text-[#1D3834]">
+                        {run.frontier.input.label}
+                      </th>
+                      <th className="px-3 py-2 text-right text-[#1D3834]">
+                        Breakeven {run.input.label}
+                      </th>
+                      <th className="px-3 py-2 text-right text-[#1D3834]">
+                        {modelOutputs[run.output].label}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {run.frontier.points.map((point) => (
+                      <tr
+                        key={point.value}
+                        className="border-b border-[#B2DFDB]"
+                      >
+                        <td className="px-3 py-2 font-medium text-[#1D3834]">
+                          {formatInputValue(run.frontier!.input, point.value)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {point.breakeven.status === "found"
+                            ? `${
+                                point.breakeven.meetsAbove
+                                  ? "at least"
+                                  : "at most"
+                              } ${formatInputValue(
+                                run.input,
+                                point.breakeven.value
+                              )}`
+                            : point.breakeven.status === "infeasible"
+                              ? "Never reached"
+                              : "Always met"}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {point.breakeven.status === "found"
+                            ? formatMetric(
+                                point.breakeven.achieved,
+                                modelOutputs[run.output].unit
+                              )
+                            : `closest ${formatMetric(
+                                point.breakeven.closest,
+                                modelOutputs[run.output].unit
+                              )}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <p className="mt-4 text-sm text-gray-600">
+            Results are from the last search; solve again after changing inputs.
+            A missing result, such as an IRR that doesn&apos;t exist, counts as
+            not meeting the target.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
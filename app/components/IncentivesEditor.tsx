@@ -0,0 +1,551 @@
+import { useState } from "react";
+import { SystemParameters } from "../types/system";
+import {
+  CapacityBasis,
+  IncentiveBlock,
+  IncentiveDefinition,
+  IncentiveMilestone,
+  IncentivePayment,
+  ProductionPaymentFrequency,
+} from "../types/incentives";
+import {
+  calculateBlockRate,
+  capacityBasisLabels,
+  incentiveMilestoneLabels,
+  incentiveTemplates,
+  incentiveTypeLabels,
+  paymentFrequencyLabels,
+  projectCapacityMW,
+} from "../utils/incentives";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const labelClassName = "block text-sm font-medium text-[#1D3834]";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: string;
+}) {
+  return (
+    <div>
+      <label className={labelClassName}>{label}</label>
+      <input
+        type="number"
+        step={step}
+        className={inputClassName}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+}
+
+function CapacityBasisField({
+  value,
+  onChange,
+}: {
+  value: CapacityBasis;
+  onChange: (value: CapacityBasis) => void;
+}) {
+  return (
+    <div>
+      <label className={labelClassName}>Paid On</label>
+      <select
+        className={inputClassName}
+        value={value}
+        onChange={(e) => onChange(e.target.value as CapacityBasis)}
+      >
+        {(Object.keys(capacityBasisLabels) as CapacityBasis[]).map((basis) => (
+          <option key={basis} value={basis}>
+            {capacityBasisLabels[basis]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function PaymentsEditor({
+  payments,
+  onChange,
+}: {
+  payments: IncentivePayment[];
+  onChange: (payments: IncentivePayment[]) => void;
+}) {
+  const updatePayment = (index: number, changes: Partial<IncentivePayment>) => {
+    const newPayments = [...payments];
+    newPayments[index] = { ...newPayments[index], ...changes };
+    onChange(newPayments);
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <span className={labelClassName}>Payment Timing</span>
+        <button
+          onClick={() =>
+            onChange([
+              ...payments,
+              { milestone: "cod", share: 0, delayMonths: 0 },
+            ])
+          }
+          className="text-sm text-[#00695C] hover:text-[#1D3834]"
+        >
+          + Add Payment
+        </button>
+      </div>
+      <table className="min-w-full text-base">
+        <thead>
+          <tr className="bg-[#E0F2F1]">
+            <th className="px-3 py-2 text-[#1D3834]">Milestone</th>
+            <th className="px-3 py-2 text-[#1D3834]">Share (%)</th>
+            <th className="px-3 py-2 text-[#1D3834]">Delay (months)</th>
+            <th className="px-3 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {payments.map((payment, index) => (
+            <tr key={index} className="border-b border-[#B2DFDB]">
+              <td className="px-3 py-2">
+                <select
+                  className={inputClassName}
+                  value={payment.milestone}
+                  onChange={(e) =>
+                    updatePayment(index, {
+                      milestone: e.target.value as IncentiveMilestone,
+                    })
+                  }
+                >
+                  {(
+                    Object.keys(
+                      incentiveMilestoneLabels
+                    ) as IncentiveMilestone[]
+                  ).map((milestone) => (
+                    <option key={milestone} value={milestone}>
+                      {incentiveMilestoneLabels[milestone]}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  className={inputClassName}
+                  value={toPercent(payment.share)}
+                  onChange={(e) =>
+                    updatePayment(index, {
+                      share: Number(e.target.value) / 100,
+                    })
+                  }
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClassName}
+                  value={payment.delayMonths}
+                  onChange={(e) =>
+                    updatePayment(index, {
+                      delayMonths: Math.max(0, parseInt(e.target.value) || 0),
+                    })
+                  }
+                />
+              </td>
+              <td className="px-3 py-2">
+                <button
+                  aria-label="Remove payment"
+                  onClick={() =>
+                    onChange(payments.filter((_, i) => i !== index))
+                  }
+                  className="text-red-700 hover:text-red-900"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function BlocksEditor({
+  blocks,
+  onChange,
+}: {
+  blocks: IncentiveBlock[];
+  onChange: (blocks: IncentiveBlock[]) => void;
+}) {
+  const updateBlock = (index: number, changes: Partial<IncentiveBlock>) => {
+    const newBlocks = [...blocks];
+    newBlocks[index] = { ...newBlocks[index], ...changes };
+    onChange(newBlocks);
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <span className={labelClassName}>Blocks</span>
+        <button
+          onClick={() =>
+            onChange([...blocks, { capacityMW: 0, ratePerWatt: 0 }])
+          }
+          className="text-sm text-[#00695C] hover:text-[#1D3834]"
+        >
+          + Add Block
+        </button>
+      </div>
+      <table className="min-w-full text-base">
+        <thead>
+          <tr className="bg-[#E0F2F1]">
+            <th className="px-3 py-2 text-[#1D3834]">Block</th>
+            <th className="px-3 py-2 text-[#1D3834]">Capacity (MW)</th>
+            <th className="px-3 py-2 text-[#1D3834]">Rate ($/W)</th>
+            <th className="px-3 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {blocks.map((block, index) => (
+            <tr key={index} className="border-b border-[#B2DFDB]">
+              <td className="px-3 py-2 text-[#1D3834]">{index + 1}</td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  className={inputClassName}
+                  value={block.capacityMW}
+                  onChange={(e) =>
+                    updateBlock(index, { capacityMW: Number(e.target.value) })
+                  }
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  className={inputClassName}
+                  value={block.ratePerWatt}
+                  onChange={(e) =>
+                    updateBlock(index, { ratePerWatt: Number(e.target.value) })
+                  }
+                />
+              </td>
+              <td className="px-3 py-2">
+                <button
+                  aria-label={`Remove block ${index + 1}`}
+                  onClick={() => onChange(blocks.filter((_, i) => i !== index))}
+                  className="text-red-700 hover:text-red-900"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Inputs specific to each incentive type
+function IncentiveFields({
+  incentive,
+  onChange,
+  systemParams,
+}: {
+  incentive: IncentiveDefinition;
+  onChange: (incentive: IncentiveDefinition) => void;
+  systemParams: SystemParameters;
+}) {
+  switch (incentive.type) {
+    case "upfront":
+      return (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <NumberField
+              label="Rate ($/W)"
+              step="0.01"
+              value={incentive.ratePerWatt}
+              onChange={(ratePerWatt) =>
+                onChange({ ...incentive, ratePerWatt })
+              }
+            />
+            <CapacityBasisField
+              value={incentive.capacityBasis}
+              onChange={(capacityBasis) =>
+                onChange({ ...incentive, capacityBasis })
+              }
+            />
+          </div>
+          <PaymentsEditor
+            payments={incentive.payments}
+            onChange={(payments) => onChange({ ...incentive, payments })}
+          />
+        </>
+      );
+    case "decliningBlock":
+      return (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <NumberField
+              label="Program Capacity Filled (MW)"
+              value={incentive.programCapacityFilledMW}
+              onChange={(programCapacityFilledMW) =>
+                onChange({ ...incentive, programCapacityFilledMW })
+              }
+            />
+            <CapacityBasisField
+              value={incentive.capacityBasis}
+              onChange={(capacityBasis) =>
+                onChange({ ...incentive, capacityBasis })
+              }
+            />
+            <div>
+              <label className={labelClassName}>Project Rate ($/W)</label>
+              <div className="text-base text-gray-600 p-2">
+                $
+                {calculateBlockRate(
+                  incentive.blocks,
+                  incentive.programCapacityFilledMW,
+                  projectCapacityMW(systemParams, incentive.capacityBasis)
+                ).toFixed(3)}
+              </div>
+            </div>
+          </div>
+          <BlocksEditor
+            blocks={incentive.blocks}
+            onChange={(blocks) => onChange({ ...incentive, blocks })}
+          />
+          <PaymentsEditor
+            payments={incentive.payments}
+            onChange={(payments) => onChange({ ...incentive, payments })}
+          />
+        </>
+      );
+    case "production":
+      return (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <NumberField
+            label="Rate ($/kWh)"
+            step="0.005"
+            value={incentive.ratePerKWh}
+            onChange={(ratePerKWh) => onChange({ ...incentive, ratePerKWh })}
+          />
+          <NumberField
+            label="Term (years)"
+            value={incentive.termYears}
+            onChange={(termYears) =>
+              onChange({ ...incentive, termYears: Math.max(0, termYears) })
+            }
+          />
+          <NumberField
+            label="Escalation (%)"
+            value={toPercent(incentive.escalationRate)}
+            onChange={(value) =>
+              onChange({ ...incentive, escalationRate: value / 100 })
+            }
+          />
+          <div>
+            <label className={labelClassName}>Paid</label>
+            <select
+              className={inputClassName}
+              value={incentive.paymentFrequency}
+              onChange={(e) =>
+                onChange({
+                  ...incentive,
+                  paymentFrequency: e.target
+                    .value as ProductionPaymentFrequency,
+                })
+              }
+            >
+              {(
+                Object.keys(
+                  paymentFrequencyLabels
+                ) as ProductionPaymentFrequency[]
+              ).map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {paymentFrequencyLabels[frequency]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      );
+    case "subscriberAdder":
+      return (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <NumberField
+              label="Rate ($/W)"
+              step="0.01"
+              value={incentive.ratePerWatt}
+              onChange={(ratePerWatt) =>
+                onChange({ ...incentive, ratePerWatt })
+              }
+            />
+            <CapacityBasisField
+              value={incentive.capacityBasis}
+              onChange={(capacityBasis) =>
+                onChange({ ...incentive, capacityBasis })
+              }
+            />
+            <NumberField
+              label="LMI Subscriber Share (%)"
+              value={toPercent(incentive.subscriberShare)}
+              onChange={(value) =>
+                onChange({ ...incentive, subscriberShare: value / 100 })
+              }
+            />
+          </div>
+          <PaymentsEditor
+            payments={incentive.payments}
+            onChange={(payments) => onChange({ ...incentive, payments })}
+          />
+        </>
+      );
+  }
+}
+
+export function IncentivesEditor({
+  incentives,
+  setIncentives,
+  systemParams,
+}: {
+  incentives: IncentiveDefinition[];
+  setIncentives: (incentives: IncentiveDefinition[]) => void;
+  systemParams: SystemParameters;
+}) {
+  const [templateId, setTemplateId] = useState(incentiveTemplates[0].id);
+
+  const updateIncentive = (index: number, incentive: IncentiveDefinition) => {
+    const newIncentives = [...incentives];
+    newIncentives[index] = incentive;
+    setIncentives(newIncentives);
+  };
+
+  const addIncentive = () => {
+    const template = incentiveTemplates.find((item) => item.id === templateId);
+    if (!template) return;
+    setIncentives([
+      ...incentives,
+      // Copy the template so edits don't change it
+      { ...structuredClone(template), id: `${template.id}-${Date.now()}` },
+    ]);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-[#1D3834]">
+          <InfoTooltip
+            id="incentives-tooltip"
+            trigger={<span>State Incentives ⓘ</span>}
+          >
+            Incentives stack, and each appears as its own cash flow line.
+            Lump-sum incentives are paid in shares after NTP or COD. Production
+            incentives are paid on generation for their term and count as
+            operating cash for debt sizing and tax equity.
+          </InfoTooltip>
+        </h2>
+        <div className="flex gap-2">
+          <select
+            className={inputClassName}
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+          >
+            {incentiveTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.state} – {template.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addIncentive}
+            className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors whitespace-nowrap"
+          >
+            Add Incentive
+          </button>
+        </div>
+      </div>
+
+      {incentives.length === 0 && (
+        <p className="text-sm text-gray-600">No state incentives applied.</p>
+      )}
+
+      <div className="space-y-6">
+        {incentives.map((incentive, index) => (
+          <div
+            key={incentive.id}
+            className="border border-[#B2DFDB] rounded-lg p-4"
+          >
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 items-end">
+              <div>
+                <label className={labelClassName}>Name</label>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={incentive.name}
+                  onChange={(e) =>
+                    updateIncentive(index, {
+                      ...incentive,
+                      name: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>State</label>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={incentive.state}
+                  onChange={(e) =>
+                    updateIncentive(index, {
+                      ...incentive,
+                      state: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Type</label>
+                <div className="text-base text-gray-600 p-2">
+                  {incentiveTypeLabels[incentive.type]}
+                </div>
+              </div>
+              <div className="text-right">
+                <button
+                  aria-label={`Remove ${incentive.name}`}
+                  onClick={() =>
+                    setIncentives(incentives.filter((_, i) => i !== index))
+                  }
+                  className="text-red-700 hover:text-red-900"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            <IncentiveFields
+              incentive={incentive}
+              onChange={(updated) => updateIncentive(index, updated)}
+              systemParams={systemParams}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
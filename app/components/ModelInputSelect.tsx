@@ -0,0 +1,44 @@
+import { ModelInput } from "../types/sensitivity";
+
+// A choice of model input, grouped by where each is edited on the page
+export function ModelInputSelect({
+  modelInputs,
+  value,
+  excludeIds = [],
+  className,
+  onChange,
+}: {
+  modelInputs: ModelInput[];
+  value: string;
+  // Inputs already used elsewhere, such as on the other axis
+  excludeIds?: string[];
+  className: string;
+  onChange: (id: string) => void;
+}) {
+  const choices = modelInputs.filter(
+    (input) => input.id === value || !excludeIds.includes(input.id)
+  );
+  const groups = choices
+    .map((input) => input.group)
+    .filter((group, i, all) => all.indexOf(group) === i);
+
+  return (
+    <select
+      className={className}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {groups.map((group) => (
+        <optgroup key={group} label={group}>
+          {choices
+            .filter((input) => input.group === group)
+            .map((input) => (
+              <option key={input.id} value={input.id}>
+                {input.label}
+              </option>
+            ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,403 @@
+import { ReactNode, useEffect } from "react";
+import { Bar } from "react-chartjs-2";
+import { Chart as ChartJS, ChartData } from "chart.js";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { CashFlowResult } from "../utils/cashFlowCalculations";
+import { creditElectionLabels } from "../utils/federalIncentives";
+import { formatIRR } from "../utils/irr";
+import { financialMetricRows, formatMetric } from "../utils/metrics";
+import { billCreditMethodLabels } from "../utils/revenue";
+import { formatMonth } from "../utils/timeline";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors";
+
+// Each page of the report starts on a new printed page
+const pageClassName = "mb-12 break-after-page last:break-after-auto";
+
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+const formatPercent = (value: number, digits = 1) =>
+  `${(value * 100).toFixed(digits)}%`;
+
+function InputList({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: [string, string][];
+}) {
+  return (
+    <div className="break-inside-avoid">
+      <h3 className="text-base font-semibold mb-2 text-[#1D3834]">{title}</h3>
+      <table className="min-w-full text-sm">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label} className="border-b border-[#B2DFDB]">
+              <td className="px-3 py-1 font-medium text-[#1D3834]">{label}</td>
+              <td className="px-3 py-1 text-right text-gray-600">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Print-optimized exhibits of the current inputs and results, for saving as
+// a PDF from the browser's print dialog. The risk analysis panels are passed
+// in as children.
+export function ModelReport({
+  scenarioName,
+  setScenarioName,
+  generatedAt,
+  riskCategories,
+  systemParams,
+  financialParameters,
+  result,
+  chartData,
+  yearTickLabel,
+  onClose,
+  children,
+}: {
+  scenarioName: string;
+  setScenarioName: (name: string) => void;
+  generatedAt: string;
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  result: CashFlowResult;
+  chartData: { individual: ChartData<"bar">; portfolio: ChartData<"bar"> };
+  yearTickLabel: (index: number) => string | string[];
+  onClose: () => void;
+  children: ReactNode;
+}) {
+  const {
+    projectMetrics,
+    portfolioMetrics,
+    milestones,
+    ledger,
+    years,
+    milestoneSurvival,
+  } = result;
+  const { revenue, federalIncentives } = financialParameters;
+
+  // Charts only resize on window resizes, so fit them to the printed page
+  // before printing and back to the screen afterwards
+  useEffect(() => {
+    const resizeCharts = () =>
+      Object.values(ChartJS.instances).forEach((chart) => chart.resize());
+    window.addEventListener("beforeprint", resizeCharts);
+    window.addEventListener("afterprint", resizeCharts);
+    return () => {
+      window.removeEventListener("beforeprint", resizeCharts);
+      window.removeEventListener("afterprint", resizeCharts);
+    };
+  }, []);
+
+  const chartOptions = (title: string, isPortfolio: boolean) => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    // Sharper bars and text on paper
+    devicePixelRatio: 2,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: { color: "#1D3834", boxWidth: 12 },
+      },
+      title: { display: true, text: title, color: "#1D3834" },
+      tooltip: { enabled: false },
+    },
+    scales: {
+      y: {
+        stacked: true,
+        title: {
+          display: true,
+          text: isPortfolio ? "Whole Pipeline ($)" : "Amount ($)",
+        },
+        ticks: {
+          color: "#1D3834",
+          callback: (value: number | string) => `$${value.toLocaleString()}`,
+        },
+      },
+      x: {
+        stacked: true,
+        ticks: {
+          color: "#1D3834",
+          callback: (value: number | string) => yearTickLabel(Number(value)),
+        },
+      },
+    },
+  });
+
+  const systemRows: [string, string][] = [
+    [
+      "System Size",
+      `${systemParams.systemSize} MWdc / ${systemParams.acSystemSize} MWac`,
+    ],
+    [
+      "Generation",
+      systemParams.productionProfile
+        ? `Production profile: ${systemParams.productionProfile.name}`
+        : `${systemParams.capacityFactor}% capacity factor`,
+    ],
+    ["Degradation", formatPercent(systemParams.degradationRate, 2)],
+    ["Site Area", `${systemParams.siteAcres} acres`],
+    ["Project Length", `${systemParams.projectLength} years`],
+    ["Pipeline Size", `${systemParams.pipelineSize} projects`],
+    ["Development Start", formatMonth(milestones.startDate)],
+    [
+      "NTP / COD",
+      `${formatMonth(milestones.ntpDate)} / ${formatMonth(milestones.codDate)}`,
+    ],
+    // Pairs of removed categories are ignored by the model
+    ...systemParams.riskCorrelations
+      .filter((correlation) =>
+        [correlation.first, correlation.second].every((name) =>
+          riskCategories.some((category) => category.name === name)
+        )
+      )
+      .map((correlation): [string, string] => [
+        `${correlation.first} / ${correlation.second}`,
+        `${correlation.approval} approval, ${correlation.cost} cost correlation`,
+      ]),
+  ];
+
+  const financialRows: [string, string][] = [
+    [
+      "Base Case CapEx",
+      `${formatCurrency(financialParameters.baseCaseCapExPerMW)}/MW`,
+    ],
+    [
+      "Bill Credit",
+      revenue.billCreditMethod === "fixedRate"
+        ? `${formatCurrency(revenue.fixedRatePerMWh)}/MWh fixed rate`
+        : `${billCreditMethodLabels.valueStack}, ${revenue.valueStack.length} components`,
+    ],
+    ["Time-of-Use Periods", `${revenue.timeOfUsePeriods.length}`],
+    ["Federal Credit", creditElectionLabels[federalIncentives.election]],
+    ["Base ITC Rate", formatPercent(federalIncentives.baseITCRate)],
+    ["OpEx Line Items", `${financialParameters.opExLineItems.length}`],
+    ["State Incentives", `${financialParameters.incentives.length}`],
+    ["Discount Rate / WACC", formatPercent(financialParameters.discountRate)],
+    [
+      "MIRR Finance / Reinvestment",
+      `${formatPercent(financialParameters.financeRate)} / ${formatPercent(
+        financialParameters.reinvestmentRate
+      )}`,
+    ],
+  ];
+
+  return (
+    <div className="max-w-[1100px] mx-auto p-8 print:p-0 print:max-w-none text-gray-600">
+      <div className="flex flex-wrap gap-4 items-center mb-8 print:hidden">
+        <label className="text-sm font-medium text-[#1D3834]">
+          Scenario Name
+        </label>
+        <input
+          type="text"
+          className="p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+          value={scenarioName}
+          onChange={(e) => setScenarioName(e.target.value)}
+        />
+        <button onClick={() => window.print()} className={buttonClassName}>
+          Print / Save as PDF
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-md bg-[#B2DFDB] text-[#1D3834]"
+        >
+          Back to Model
+        </button>
+      </div>
+
+      <section className={pageClassName}>
+        <div className="border-b-4 border-[#1D3834] pb-4 mb-6">
+          <p className="text-sm uppercase tracking-wide text-[#00695C]">
+            Pre-Development at Scale
+          </p>
+          <h1 className="text-3xl font-bold text-[#1D3834]">
+            {scenarioName || "Untitled Scenario"}
+          </h1>
+          <p className="text-sm">
+            Generated {new Date(generatedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <h2 className="text-xl font-bold mb-3 text-[#1D3834]">Key Metrics</h2>
+        <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+          {(
+            [
+              ["Project IRR at NTP", formatIRR(projectMetrics.irr)],
+              ["Portfolio IRR", formatIRR(portfolioMetrics.irr)],
+              [
+                "% Pipeline Reaching NTP",
+                formatPercent(result.projectsReachingNTP),
+              ],
+            ] as const
+          ).map(([label, value]) => (
+            <div key={label} className="bg-gray-50 p-2 border border-gray-200">
+              <div className="text-sm font-medium text-[#1D3834]">{label}</div>
+              <div className="text-2xl font-bold text-[#004D40]">{value}</div>
+            </div>
+          ))}
+        </div>
+        <table className="min-w-full text-sm mb-6 break-inside-avoid">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-1 text-left text-[#1D3834]">Metric</th>
+              <th className="px-3 py-1 text-right text-[#1D3834]">
+                Project at NTP
+              </th>
+              <th className="px-3 py-1 text-right text-[#1D3834]">Portfolio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {financialMetricRows.map((row) => (
+              <tr key={row.key} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-1 font-medium text-[#1D3834]">
+                  {row.label}
+                </td>
+                <td className="px-3 py-1 text-right">
+                  {formatMetric(projectMetrics[row.key], row.unit)}
+                </td>
+                <td className="px-3 py-1 text-right">
+                  {formatMetric(portfolioMetrics[row.key], row.unit)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h2 className="text-xl font-bold mb-3 text-[#1D3834]">Inputs</h2>
+        <table className="min-w-full text-sm mb-4 break-inside-avoid">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-1 text-left text-[#1D3834]">Milestone</th>
+              <th className="px-3 py-1 text-[#1D3834]">Financial Risk</th>
+              <th className="px-3 py-1 text-[#1D3834]">Approval Risk</th>
+              <th className="px-3 py-1 text-[#1D3834]">Go/No-Go</th>
+              <th className="px-3 py-1 text-[#1D3834]">% Reaching</th>
+              <th className="px-3 py-1 text-[#1D3834]">DevEx</th>
+              <th className="px-3 py-1 text-[#1D3834]">Added CapEx</th>
+              <th className="px-3 py-1 text-[#1D3834]">Start / Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {riskCategories.map((category, index) => (
+              <tr
+                key={category.name}
+                className="border-b border-[#B2DFDB] text-center"
+              >
+                <td className="px-3 py-1 text-left font-medium text-[#1D3834]">
+                  {category.name}
+                </td>
+                <td className="px-3 py-1">{category.riskLevel}</td>
+                <td className="px-3 py-1">{category.approvalRisk ?? "–"}</td>
+                <td className="px-3 py-1">
+                  {formatPercent(category.goNoGoProbability)}
+                </td>
+                <td className="px-3 py-1">
+                  {formatPercent(milestoneSurvival[index])}
+                </td>
+                <td className="px-3 py-1">{formatCurrency(category.devEx)}</td>
+                <td className="px-3 py-1">
+                  {formatCurrency(category.capExIncrease)}
+                </td>
+                <td className="px-3 py-1">
+                  {category.startOffsetMonths} / {category.durationMonths} mo
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="grid grid-cols-2 gap-6">
+          <InputList title="System" rows={systemRows} />
+          <InputList title="Financial" rows={financialRows} />
+        </div>
+      </section>
+
+      <section className={pageClassName}>
+        <h2 className="text-xl font-bold mb-3 text-[#1D3834]">Cash Flows</h2>
+        <div className="h-[330px] mb-6 break-inside-avoid">
+          <Bar
+            data={chartData.individual}
+            options={chartOptions("Individual Project Cash Flow", false)}
+          />
+        </div>
+        <div className="h-[330px] break-inside-avoid">
+          <Bar
+            data={chartData.portfolio}
+            options={chartOptions("Portfolio Cash Flow", true)}
+          />
+        </div>
+      </section>
+
+      <section className={pageClassName}>
+        <h2 className="text-xl font-bold mb-3 text-[#1D3834]">
+          Cash Flow Table
+        </h2>
+        {/* Years run down the page so a long project still fits its width */}
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-2 py-1 text-left text-[#1D3834]">Year</th>
+              {ledger.lines.map((line) => (
+                <th
+                  key={line.id}
+                  className="px-2 py-1 text-right text-[#1D3834]"
+                >
+                  {line.label}
+                </th>
+              ))}
+              <th className="px-2 py-1 text-right text-[#1D3834]">Cash Flow</th>
+              <th className="px-2 py-1 text-right text-[#1D3834]">
+                % of Pipeline
+              </th>
+              <th className="px-2 py-1 text-right text-[#1D3834]">
+                Expected Cash Flow
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {years.map((year, i) => {
+              const label = yearTickLabel(i);
+              return (
+                <tr
+                  key={year}
+                  className="border-b border-[#B2DFDB] break-inside-avoid"
+                >
+                  <td className="px-2 py-1 font-medium text-[#1D3834] whitespace-nowrap">
+                    {Array.isArray(label) ? label.join(" ") : label}
+                  </td>
+                  {ledger.lines.map((line) => (
+                    <td key={line.id} className="px-2 py-1 text-right">
+                      {Math.round(line.values[i]) !== 0
+                        ? formatCurrency(Math.abs(line.values[i]))
+                        : ""}
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 text-right font-medium">
+                    {formatCurrency(ledger.totals[i])}
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    {Math.round(ledger.pipelineShare[i] * 100)}%
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    {formatCurrency(ledger.expectedTotals[i])}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className={pageClassName}>{children}</section>
+    </div>
+  );
+}
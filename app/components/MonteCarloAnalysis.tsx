@@ -0,0 +1,331 @@
+import { useEffect, useRef, useState } from "react";
+import { Bar } from "react-chartjs-2";
+import { TooltipItem } from "chart.js";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import {
+  CostDistribution,
+  DistributionSummary,
+  MonteCarloOptions,
+  MonteCarloResult,
+} from "../types/monteCarlo";
+import { maxMonteCarloIterations, runMonteCarlo } from "../utils/monteCarlo";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+type HistogramMetric = "portfolioIRR" | "portfolioNPV" | "capitalDeployed";
+
+const metricLabels: Record<HistogramMetric, string> = {
+  portfolioIRR: "Portfolio IRR",
+  portfolioNPV: "Portfolio NPV",
+  capitalDeployed: "Capital Deployed",
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+const formatMetric = (metric: HistogramMetric, value: number) =>
+  metric === "portfolioIRR" ? formatPercent(value) : formatCurrency(value);
+
+export function MonteCarloAnalysis({
+  riskCategories,
+  systemParams,
+  financialParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}) {
+  const [options, setOptions] = useState<MonteCarloOptions>({
+    iterations: 1000,
+    seed: 42,
+    distribution: "triangular",
+    histogramBins: 20,
+  });
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [histogramMetric, setHistogramMetric] =
+    useState<HistogramMetric>("portfolioIRR");
+
+  // Share of the run in progress completed so far, or null when idle
+  const [progress, setProgress] = useState<number | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+
+  // A run still going when the section unmounts is abandoned
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  // Results describe the inputs they were run on, so any change to the
+  // model discards them along with a run in progress
+  useEffect(() => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setProgress(null);
+    setResult(null);
+  }, [riskCategories, systemParams, financialParameters]);
+
+  const runSimulation = async () => {
+    runRef.current?.abort();
+    const run = new AbortController();
+    runRef.current = run;
+    setProgress(0);
+    const simulated = await runMonteCarlo(
+      riskCategories,
+      systemParams,
+      financialParameters,
+      options,
+      (completed) => setProgress(completed / options.iterations),
+      run.signal
+    );
+    if (run.signal.aborted) return;
+    runRef.current = null;
+    setProgress(null);
+    setResult(simulated);
+  };
+
+  const summaryRows: {
+    metric: HistogramMetric | "projectsReachingNTP";
+    label: string;
+    summary: DistributionSummary;
+    format: (value: number) => string;
+  }[] = result
+    ? [
+        {
+          metric: "portfolioIRR",
+          label: "Portfolio IRR",
+          summary: result.portfolioIRR,
+          // Every simulation may be without an IRR
+          format:
+            result.noIRRCount < result.iterations
+              ? formatPercent
+              : () => "No IRR",
+        },
+        {
+          metric: "portfolioNPV",
+          label: "Portfolio NPV",
+          summary: result.portfolioNPV,
+          format: formatCurrency,
+        },
+        {
+          metric: "capitalDeployed",
+          label: "Capital Deployed",
+          summary: result.capitalDeployed,
+          format: formatCurrency,
+        },
+        {
+          metric: "projectsReachingNTP",
+          label: "% Pipeline Reaching NTP",
+          summary: result.projectsReachingNTP,
+          format: (value) => `${(value * 100).toFixed(1)}%`,
+        },
+      ]
+    : [];
+
+  const histogram = result ? result[histogramMetric].histogram : [];
+  const histogramData = {
+    labels: histogram.map((bin) =>
+      formatMetric(histogramMetric, (bin.from + bin.to) / 2)
+    ),
+    datasets: [
+      {
+        label: "Share of simulations",
+        data: histogram.map((bin) =>
+          result ? (bin.count / result.iterations) * 100 : 0
+        ),
+        backgroundColor: "rgba(65, 170, 160, 0.7)",
+        borderColor: "rgb(55, 150, 140)",
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const histogramOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      title: {
+        display: true,
+        text: `${metricLabels[histogramMetric]} Distribution`,
+        color: "#1D3834",
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) => {
+            const bin = histogram[context.dataIndex];
+            return `${formatMetric(histogramMetric, bin.from)} to ${formatMetric(
+              histogramMetric,
+              bin.to
+            )}: ${context.parsed.y.toFixed(1)}% of simulations`;
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        title: {
+          display: true,
+          text: "% of Simulations",
+        },
+        ticks: { color: "#1D3834" },
+      },
+      x: {
+        ticks: { color: "#1D3834" },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="monte-carlo-tooltip"
+          trigger={<span>Monte Carlo Simulation ⓘ</span>}
+        >
+          Simulates the pipeline many times. Each run samples every
+          category&apos;s DevEx and CapEx between its bounds and draws whether
+          each project passes every milestone, giving a range of portfolio
+          outcomes instead of a single expected value.
+        </InfoTooltip>
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 items-end">
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Iterations
+          </label>
+          <input
+            type="number"
+            min="1"
+            max={maxMonteCarloIterations}
+            className="mt-1 block w-full p-2 text-base rounded-md border border-[#B2DFDB] focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+            value={options.iterations || ""}
+            onChange={(e) =>
+              setOptions({
+                ...options,
+                iterations: Math.min(
+                  maxMonteCarloIterations,
+                  Math.max(0, parseInt(e.target.value) || 0)
+                ),
+              })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Random Seed
+          </label>
+          <input
+            type="number"
+            className="mt-1 block w-full p-2 text-base rounded-md border border-[#B2DFDB] focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+            value={options.seed}
+            onChange={(e) =>
+              setOptions({ ...options, seed: parseInt(e.target.value) || 0 })
+            }
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Cost Distribution
+          </label>
+          <select
+            className="mt-1 block w-full p-2 text-base rounded-md border border-[#B2DFDB] focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+            value={options.distribution}
+            onChange={(e) =>
+              setOptions({
+                ...options,
+                distribution: e.target.value as CostDistribution,
+              })
+            }
+          >
+            <option value="triangular">Triangular</option>
+            <option value="uniform">Uniform</option>
+          </select>
+        </div>
+        <button
+          onClick={runSimulation}
+          disabled={options.iterations === 0 || progress !== null}
+          className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50"
+        >
+          {progress === null
+            ? "Run Simulation"
+            : `Running… ${Math.round(progress * 100)}%`}
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full text-base">
+              <thead>
+                <tr className="bg-[#E0F2F1]">
+                  <th className="px-3 py-3 text-[#1D3834]">Metric</th>
+                  <th className="px-3 py-3 text-[#1D3834]">P10</th>
+                  <th className="px-3 py-3 text-[#1D3834]">P50</th>
+                  <th className="px-3 py-3 text-[#1D3834]">P90</th>
+                  <th className="px-3 py-3 text-[#1D3834]">Mean</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaryRows.map((row) => (
+                  <tr key={row.metric} className="border-b border-[#B2DFDB]">
+                    <td className="px-3 py-3 font-medium text-[#1D3834]">
+                      {row.label}
+                    </td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {row.format(row.summary.p10)}
+                    </td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {row.format(row.summary.p50)}
+                    </td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {row.format(row.summary.p90)}
+                    </td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {row.format(row.summary.mean)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mb-4">
+            {(Object.keys(metricLabels) as HistogramMetric[]).map((metric) => (
+              <button
+                key={metric}
+                onClick={() => setHistogramMetric(metric)}
+                className={`px-4 py-2 rounded-md ${
+                  histogramMetric === metric
+                    ? "bg-[#1D3834] text-white"
+                    : "bg-[#B2DFDB] text-[#1D3834]"
+                }`}
+              >
+                {metricLabels[metric]}
+              </button>
+            ))}
+          </div>
+
+          <div className="h-[400px]">
+            <Bar data={histogramData} options={histogramOptions} />
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Based on {result.iterations.toLocaleString()} simulations of a{" "}
+            {systemParams.pipelineSize}-project pipeline. P10 is the downside
+            case: 10% of simulated portfolios did worse. The portfolio lost
+            money (negative NPV) in{" "}
+            {(result.probabilityOfLoss * 100).toFixed(1)}% of simulations.
+            {result.noIRRCount > 0 && (
+              <>
+                {" "}
+                {result.noIRRCount.toLocaleString()} simulations had no IRR
+                because their cash flows never turned positive; they are left
+                out of the IRR percentiles and histogram.
+              </>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { OpExBasis, OpExCategory, OpExLineItem } from "../types/financial";
+import { opExBasisLabels, opExCategoryLabels } from "../utils/opex";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+// Schedules are edited as a comma-separated list of amounts by operating year
+function ScheduleInput({
+  schedule,
+  onChange,
+}: {
+  schedule: number[] | undefined;
+  onChange: (schedule: number[] | undefined) => void;
+}) {
+  const [text, setText] = useState(schedule?.join(", ") ?? "");
+
+  return (
+    <input
+      type="text"
+      className={inputClassName}
+      placeholder="None"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const values = text
+          .split(",")
+          .map((value) => value.trim())
+          .filter((value) => value !== "")
+          .map((value) => Number(value.replace(/[$\s]/g, "")))
+          .filter((value) => Number.isFinite(value));
+        setText(values.join(", "));
+        onChange(values.length > 0 ? values : undefined);
+      }}
+    />
+  );
+}
+
+export function OpExEditor({
+  opExLineItems,
+  setOpExLineItems,
+}: {
+  opExLineItems: OpExLineItem[];
+  setOpExLineItems: (items: OpExLineItem[]) => void;
+}) {
+  const updateItem = (index: number, changes: Partial<OpExLineItem>) => {
+    const newItems = [...opExLineItems];
+    newItems[index] = { ...newItems[index], ...changes };
+    setOpExLineItems(newItems);
+  };
+
+  const addItem = () => {
+    setOpExLineItems([
+      ...opExLineItems,
+      {
+        id: `opex-${Date.now()}`,
+        name: "New Line Item",
+        category: "operationsAndMaintenance",
+        basis: "perMW",
+        amount: 0,
+        escalationRate: 0.02,
+      },
+    ]);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-[#1D3834]">
+          Operating Expenses
+        </h2>
+        <button
+          onClick={addItem}
+          className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+        >
+          Add Line Item
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Line Item</th>
+              <th className="px-3 py-3 text-[#1D3834]">Type</th>
+              <th className="px-3 py-3 text-[#1D3834]">Basis</th>
+              <th className="px-3 py-3 text-[#1D3834]">Amount</th>
+              <th className="px-3 py-3 text-[#1D3834]">Escalation (%)</th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                <InfoTooltip
+                  id="opex-schedule-tooltip"
+                  trigger={<span>Schedule by Year ⓘ</span>}
+                >
+                  Optional amounts for each operating year in the line&apos;s
+                  basis, such as a PILOT agreement. When set, the schedule
+                  replaces the amount and escalation; the last value carries
+                  forward for the remaining years.
+                </InfoTooltip>
+              </th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {opExLineItems.map((item, index) => (
+              <tr key={item.id} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3">
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={item.name}
+                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <select
+                    className={inputClassName}
+                    value={item.category}
+                    onChange={(e) =>
+                      updateItem(index, {
+                        category: e.target.value as OpExCategory,
+                      })
+                    }
+                  >
+                    {(Object.keys(opExCategoryLabels) as OpExCategory[]).map(
+                      (category) => (
+                        <option key={category} value={category}>
+                          {opExCategoryLabels[category]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </td>
+                <td className="px-3 py-3">
+                  <select
+                    className={inputClassName}
+                    value={item.basis}
+                    onChange={(e) =>
+                      updateItem(index, { basis: e.target.value as OpExBasis })
+                    }
+                  >
+                    {(Object.keys(opExBasisLabels) as OpExBasis[]).map(
+                      (basis) => (
+                        <option key={basis} value={basis}>
+                          {opExBasisLabels[basis]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    value={
+                      item.basis === "percentOfRevenue"
+                        ? Number((item.amount * 100).toFixed(4))
+                        : item.amount
+                    }
+                    onChange={(e) =>
+                      updateItem(index, {
+                        amount:
+                          item.basis === "percentOfRevenue"
+                            ? Number(e.target.value) / 100
+                            : Number(e.target.value),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    disabled={item.basis === "percentOfRevenue"}
+                    value={Number((item.escalationRate * 100).toFixed(4))}
+                    onChange={(e) =>
+                      updateItem(index, {
+                        escalationRate: Number(e.target.value) / 100,
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <ScheduleInput
+                    schedule={item.schedule}
+                    onChange={(schedule) => updateItem(index, { schedule })}
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <button
+                    aria-label={`Remove ${item.name}`}
+                    onClick={() =>
+                      setOpExLineItems(
+                        opExLineItems.filter((_, i) => i !== index)
+                      )
+                    }
+                    className="text-red-700 hover:text-red-900"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-sm text-gray-600">
+        Each line item is charged on its own basis and escalates at its own
+        rate from COD. Revenue-based costs move with revenue.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useMemo } from "react";
+import { Bar, Line } from "react-chartjs-2";
+import { TooltipItem } from "chart.js";
+import {
+  ArchetypeInputs,
+  OriginationCohort,
+  OriginationFrequency,
+  ProjectArchetype,
+} from "../types/portfolio";
+import { formatIRR } from "../utils/irr";
+import { formatMetric } from "../utils/metrics";
+import {
+  calculateOrigination,
+  createCohort,
+  originationFrequencyLabels,
+} from "../utils/portfolio";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors";
+
+// Select value standing for the current inputs
+const currentInputsValue = "current";
+
+const formatCurrency = (value: number) => formatMetric(value, "currency");
+
+export function OriginationPlan({
+  cohorts,
+  setCohorts,
+  archetypes,
+  inputs,
+}: {
+  cohorts: OriginationCohort[];
+  setCohorts: (cohorts: OriginationCohort[]) => void;
+  archetypes: ProjectArchetype[];
+  inputs: ArchetypeInputs;
+}) {
+  // Rates and resolution come from the current inputs, as in the portfolio
+  const origination = useMemo(
+    () =>
+      calculateOrigination(
+        cohorts,
+        archetypes,
+        inputs,
+        inputs.financialParameters,
+        inputs.systemParams.timelineResolution
+      ),
+    [cohorts, archetypes, inputs]
+  );
+
+  const updateCohort = (index: number, changes: Partial<OriginationCohort>) => {
+    const newCohorts = [...cohorts];
+    newCohorts[index] = { ...newCohorts[index], ...changes };
+    setCohorts(newCohorts);
+  };
+
+  const labels = origination?.years.map((year) => `${year.year}`) ?? [];
+
+  const capitalCallData = {
+    labels,
+    datasets: [
+      {
+        label: "Capital Call",
+        data: origination?.years.map((year) => year.capitalCall) ?? [],
+        backgroundColor: "rgba(255, 99, 132, 0.7)",
+      },
+      {
+        label: "Expected DevEx",
+        data: origination?.years.map((year) => year.devEx) ?? [],
+        backgroundColor: "rgba(29, 56, 52, 0.7)",
+      },
+    ],
+  };
+
+  const jCurveData = {
+    labels,
+    datasets: [
+      {
+        label: "Cumulative Cash Flow",
+        data: origination?.years.map((year) => year.cumulativeCashFlow) ?? [],
+        borderColor: "rgb(29, 56, 52)",
+        backgroundColor: "rgba(65, 170, 160, 0.2)",
+        fill: "origin",
+        pointRadius: 2,
+        tension: 0.2,
+      },
+    ],
+  };
+
+  const chartOptions = (title: string) => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: { display: true, text: title, color: "#1D3834" },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar" | "line">) =>
+            `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        title: { display: true, text: "Amount ($)" },
+        ticks: { color: "#1D3834" },
+      },
+      x: { ticks: { color: "#1D3834" } },
+    },
+  });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="origination-tooltip"
+          trigger={<span>Origination Plan ⓘ</span>}
+        >
+          Originate projects in cohorts, such as 15 sites a quarter for two
+          years, from the current inputs or a portfolio archetype. Each
+          cohort&apos;s projects start development on their own date, and their
+          expected cash flows are added into annual capital calls, the funding
+          J-curve and MW reaching NTP and COD. The running IRR counts only the
+          flows up to the end of each year.
+        </InfoTooltip>
+      </h2>
+
+      {cohorts.length === 0 ? (
+        <p className="mb-4 text-base text-gray-600">No cohorts yet.</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full text-base">
+            <thead>
+              <tr className="bg-[#E0F2F1]">
+                <th className="px-3 py-3 text-left text-[#1D3834]">Projects</th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">Every</th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">Periods</th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">
+                  First Start
+                </th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">
+                  Archetype
+                </th>
+                <th className="px-3 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort, index) => {
+                const removed =
+                  cohort.archetypeId !== null &&
+                  !archetypes.some(
+                    (archetype) => archetype.id === cohort.archetypeId
+                  );
+                return (
+                  <tr key={cohort.id} className="border-b border-[#B2DFDB]">
+                    <td className="px-3 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        aria-label="Projects per period"
+                        className={`${inputClassName} max-w-[6rem]`}
+                        value={cohort.projectsPerPeriod}
+                        onChange={(e) =>
+                          updateCohort(index, {
+                            projectsPerPeriod: Math.max(
+                              0,
+                              parseInt(e.target.value) || 0
+                            ),
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-3 py-3">
+                      <select
+                        aria-label="Origination frequency"
+                        className={inputClassName}
+                        value={cohort.frequency}
+                        onChange={(e) =>
+                          updateCohort(index, {
+                            frequency: e.target.value as OriginationFrequency,
+                          })
+                        }
+                      >
+                        {(
+                          Object.keys(
+                            originationFrequencyLabels
+                          ) as OriginationFrequency[]
+                        ).map((frequency) => (
+                          <option key={frequency} value={frequency}>
+                            {originationFrequencyLabels[frequency]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        aria-label="Number of periods"
+                        className={`${inputClassName} max-w-[6rem]`}
+                        value={cohort.periods}
+                        onChange={(e) =>
+                          updateCohort(index, {
+                            periods: Math.max(1, parseInt(e.target.value) || 1),
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-3 py-3">
+                      <input
+                        type="month"
+                        aria-label="First start of development"
+                        className={inputClassName}
+                        value={cohort.firstStartDate}
+                        onChange={(e) =>
+                          e.target.value &&
+                          updateCohort(index, {
+                            firstStartDate: e.target.value,
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-3 py-3">
+                      <select
+                        aria-label="Archetype"
+                        className={inputClassName}
+                        value={
+                          removed
+                            ? ""
+                            : (cohort.archetypeId ?? currentInputsValue)
+                        }
+                        onChange={(e) =>
+                          updateCohort(index, {
+                            archetypeId:
+                              e.target.value === currentInputsValue
+                                ? null
+                                : e.target.value,
+                          })
+                        }
+                      >
+                        {removed && (
+                          <option value="" disabled>
+                            Removed archetype
+                          </option>
+                        )}
+                        <option value={currentInputsValue}>
+                          Current Inputs
+                        </option>
+                        {archetypes.map((archetype) => (
+                          <option key={archetype.id} value={archetype.id}>
+                            {archetype.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-3">
+                      <button
+                        aria-label="Remove cohort"
+                        onClick={() =>
+                          setCohorts(cohorts.filter((_, i) => i !== index))
+                        }
+                        className="text-red-700 hover:text-red-900"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        onClick={() =>
+          setCohorts([
+            ...cohorts,
+            createCohort(null, inputs.systemParams.developmentStartDate),
+          ])
+        }
+        className={`${buttonClassName} mb-6`}
+      >
+        Add Cohort
+      </button>
+
+      {cohorts.some(
+        (cohort) =>
+          cohort.archetypeId !== null &&
+          !archetypes.some((archetype) => archetype.id === cohort.archetypeId)
+      ) && (
+        <p className="mb-4 text-sm text-red-700">
+          Cohorts of a removed archetype are left out until another is chosen.
+        </p>
+      )}
+
+      {origination && (
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center">
+            {(
+              [
+                ["Portfolio IRR", formatIRR(origination.metrics.irr)],
+                [
+                  "Peak Funding Need",
+                  formatCurrency(origination.metrics.peakFunding),
+                ],
+                ["Projects Originated", `${origination.projectsOriginated}`],
+                ["MW Reaching NTP", `${origination.mwReachingNTP.toFixed(1)}`],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="bg-gray-50/80 p-2">
+                <div className="text-sm font-medium text-[#1D3834]">
+                  {label}
+                </div>
+                <div className="text-xl font-bold text-[#004D40]">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <div className="h-[350px]">
+              <Bar
+                data={capitalCallData}
+                options={chartOptions("Annual Capital Calls")}
+              />
+            </div>
+            <div className="h-[350px]">
+              <Line
+                data={jCurveData}
+                options={chartOptions("Cumulative Funding J-Curve")}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-[#E0F2F1]">
+                  {[
+                    "Year",
+                    "Originated",
+                    "Expected DevEx",
+                    "Expected CapEx",
+                    "Net Cash Flow",
+                    "Capital Call",
+                    "Cumulative",
+                    "MW to NTP",
+                    "MW to COD",
+                    "Running IRR",
+                  ].map((heading, i) => (
+                    <th
+                      key={heading}
+                      className={`px-3 py-2 text-[#1D3834] ${
+                        i === 0 ? "text-left" : "text-right"
+                      }`}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {origination.years.map((year) => (
+                  <tr key={year.year} className="border-b border-[#B2DFDB]">
+                    <td className="px-3 py-2 font-medium text-[#1D3834]">
+                      {year.year}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {year.projectsOriginated || ""}
+                    </td>
+                    {[
+                      year.devEx,
+                      year.capEx,
+                      year.netCashFlow,
+                      year.capitalCall,
+                      year.cumulativeCashFlow,
+                    ].map((value, i) => (
+                      <td
+                        key={i}
+                        className={`px-3 py-2 text-right whitespace-nowrap ${
+                          value < 0 ? "text-red-700" : "text-gray-600"
+                        }`}
+                      >
+                        {Math.round(value) !== 0 ? formatCurrency(value) : ""}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {year.mwReachingNTP >= 0.05
+                        ? year.mwReachingNTP.toFixed(1)
+                        : ""}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {year.mwReachingCOD >= 0.05
+                        ? year.mwReachingCOD.toFixed(1)
+                        : ""}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600 whitespace-nowrap">
+                      {formatIRR(year.runningIRR)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
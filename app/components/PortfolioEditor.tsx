@@ -0,0 +1,348 @@
+import { useMemo, useState } from "react";
+import { Bar } from "react-chartjs-2";
+import { TooltipItem } from "chart.js";
+import * as XLSX from "xlsx";
+import { ArchetypeInputs, ProjectArchetype } from "../types/portfolio";
+import { buildPortfolioWorkbook } from "../utils/excelExport";
+import { formatIRR } from "../utils/irr";
+import { formatMetric } from "../utils/metrics";
+import { calculatePortfolio, createArchetype } from "../utils/portfolio";
+import { formatMonth } from "../utils/timeline";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50";
+
+const linkButtonClassName = "text-[#00695C] hover:text-[#1D3834] underline";
+
+// One color per archetype in the stacked chart
+const archetypeColors = [
+  "rgb(29, 56, 52)",
+  "rgb(65, 170, 160)",
+  "rgb(255, 159, 64)",
+  "rgb(153, 102, 255)",
+  "rgb(54, 162, 235)",
+  "rgb(255, 99, 132)",
+];
+
+export function PortfolioEditor({
+  archetypes,
+  setArchetypes,
+  inputs,
+  onEdit,
+}: {
+  archetypes: ProjectArchetype[];
+  setArchetypes: (archetypes: ProjectArchetype[]) => void;
+  inputs: ArchetypeInputs;
+  onEdit: (inputs: ArchetypeInputs) => void;
+}) {
+  const [newName, setNewName] = useState("");
+  const [newCount, setNewCount] = useState(5);
+
+  // Discount rates and resolution come from the current inputs, so every
+  // archetype is measured the same way
+  const portfolio = useMemo(
+    () =>
+      calculatePortfolio(
+        archetypes,
+        inputs.financialParameters,
+        inputs.systemParams.timelineResolution
+      ),
+    [archetypes, inputs.financialParameters, inputs.systemParams]
+  );
+
+  const updateArchetype = (
+    index: number,
+    changes: Partial<ProjectArchetype>
+  ) => {
+    const newArchetypes = [...archetypes];
+    newArchetypes[index] = { ...newArchetypes[index], ...changes };
+    setArchetypes(newArchetypes);
+  };
+
+  const addCurrent = () => {
+    const name = newName.trim() || `Archetype ${archetypes.length + 1}`;
+    setArchetypes([...archetypes, createArchetype(name, newCount, inputs)]);
+    setNewName("");
+  };
+
+  const downloadExcel = () => {
+    if (!portfolio) return;
+    XLSX.writeFile(buildPortfolioWorkbook(portfolio), "portfolio.xlsx");
+  };
+
+  const chartData = portfolio && {
+    labels: portfolio.years.map(String),
+    datasets: portfolio.contributions.map((contribution, index) => ({
+      label: contribution.name,
+      data: contribution.annualFlows,
+      backgroundColor: archetypeColors[index % archetypeColors.length],
+      borderWidth: 0,
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: {
+        display: true,
+        text: "Expected Portfolio Cash Flow by Archetype",
+        color: "#1D3834",
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) =>
+            `${context.dataset.label}: ${formatMetric(
+              context.parsed.y,
+              "currency"
+            )}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        stacked: true,
+        title: { display: true, text: "Amount ($)" },
+        ticks: { color: "#1D3834" },
+      },
+      x: { stacked: true, ticks: { color: "#1D3834" } },
+    },
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip id="portfolio-tooltip" trigger={<span>Portfolio ⓘ</span>}>
+          Build a pipeline from project archetypes, each a snapshot of the
+          inputs with its own risks, size, incentives and rates, and the number
+          of such projects. Expected cash flows of every archetype are added on
+          one timeline from the earliest start of development. Load an archetype
+          to edit it in the inputs above, then update it.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-6 items-center">
+        <input
+          type="text"
+          className={`${inputClassName} max-w-xs`}
+          placeholder={`Archetype ${archetypes.length + 1}`}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addCurrent()}
+        />
+        <input
+          type="number"
+          min="0"
+          aria-label="Number of projects"
+          className={`${inputClassName} max-w-[6rem]`}
+          value={newCount}
+          onChange={(e) =>
+            setNewCount(Math.max(0, parseInt(e.target.value) || 0))
+          }
+        />
+        <button onClick={addCurrent} className={buttonClassName}>
+          Add Current Inputs
+        </button>
+        <button
+          onClick={downloadExcel}
+          disabled={!portfolio}
+          className={buttonClassName}
+        >
+          Download Excel
+        </button>
+      </div>
+
+      {archetypes.length === 0 ? (
+        <p className="text-base text-gray-600">
+          No archetypes yet. Until one is added, the portfolio view scales the
+          current project by a pipeline of {inputs.systemParams.pipelineSize}.
+        </p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full text-base">
+            <thead>
+              <tr className="bg-[#E0F2F1]">
+                <th className="px-3 py-3 text-left text-[#1D3834]">Name</th>
+                <th className="px-3 py-3 text-[#1D3834]">Projects</th>
+                <th className="px-3 py-3 text-[#1D3834]">Size (MWdc)</th>
+                <th className="px-3 py-3 text-[#1D3834]">Development Start</th>
+                <th className="px-3 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {archetypes.map((archetype, index) => (
+                <tr key={archetype.id} className="border-b border-[#B2DFDB]">
+                  <td className="px-3 py-3">
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={archetype.name}
+                      onChange={(e) =>
+                        updateArchetype(index, { name: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      min="0"
+                      aria-label={`${archetype.name} projects`}
+                      className={`${inputClassName} max-w-[6rem]`}
+                      value={archetype.count}
+                      onChange={(e) =>
+                        updateArchetype(index, {
+                          count: Math.max(0, parseInt(e.target.value) || 0),
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3 text-center text-gray-600">
+                    {archetype.systemParams.systemSize}
+                  </td>
+                  <td className="px-3 py-3 text-center text-gray-600">
+                    {formatMonth(archetype.systemParams.developmentStartDate)}
+                  </td>
+                  <td className="px-3 py-3">
+                    <div className="flex gap-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => onEdit(archetype)}
+                        className={linkButtonClassName}
+                      >
+                        Load
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateArchetype(index, {
+                            riskCategories: structuredClone(
+                              inputs.riskCategories
+                            ),
+                            systemParams: structuredClone(inputs.systemParams),
+                            financialParameters: structuredClone(
+                              inputs.financialParameters
+                            ),
+                          })
+                        }
+                        className={linkButtonClassName}
+                      >
+                        Update from Inputs
+                      </button>
+                      <button
+                        aria-label={`Remove ${archetype.name}`}
+                        onClick={() =>
+                          setArchetypes(
+                            archetypes.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="text-red-700 hover:text-red-900"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {portfolio && chartData && (
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center">
+            {(
+              [
+                ["Portfolio IRR", formatIRR(portfolio.metrics.irr)],
+                [
+                  "Portfolio NPV",
+                  formatMetric(portfolio.metrics.npv, "currency"),
+                ],
+                [
+                  "Projects / MWdc",
+                  `${portfolio.projectCount} / ${portfolio.capacityMW.toFixed(1)}`,
+                ],
+                [
+                  "MW Reaching NTP",
+                  `${portfolio.mwReachingNTP.toFixed(1)} (${portfolio.projectsReachingNTP.toFixed(1)} projects)`,
+                ],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="bg-gray-50/80 p-2">
+                <div className="text-sm font-medium text-[#1D3834]">
+                  {label}
+                </div>
+                <div className="text-xl font-bold text-[#004D40]">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-[#E0F2F1]">
+                  <th className="px-3 py-2 text-left text-[#1D3834]">
+                    Archetype
+                  </th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">
+                    MW Reaching NTP
+                  </th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">
+                    Expected DevEx
+                  </th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">IRR</th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">NPV</th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">
+                    Share of NPV
+                  </th>
+                  <th className="px-3 py-2 text-right text-[#1D3834]">
+                    Peak Funding Need
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.contributions.map((contribution) => (
+                  <tr
+                    key={contribution.id}
+                    className="border-b border-[#B2DFDB]"
+                  >
+                    <td className="px-3 py-2 font-medium text-[#1D3834]">
+                      {contribution.name} × {contribution.count}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {contribution.mwReachingNTP.toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatMetric(contribution.expectedDevEx, "currency")}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatIRR(contribution.metrics.irr)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatMetric(contribution.metrics.npv, "currency")}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatMetric(contribution.npvShare, "percent")}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {formatMetric(
+                        contribution.metrics.peakFunding,
+                        "currency"
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-[400px]">
+            <Bar data={chartData} options={chartOptions} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
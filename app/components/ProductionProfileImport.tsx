@@ -0,0 +1,121 @@
+import { ChangeEvent, useState } from "react";
+import { SystemParameters } from "../types/system";
+import {
+  calculateProductionSummary,
+  parseProductionProfile,
+} from "../utils/production";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]";
+
+const labelClassName = "block text-sm font-medium text-[#1D3834]";
+
+export function ProductionProfileImport({
+  systemParams,
+  setSystemParams,
+}: {
+  systemParams: SystemParameters;
+  setSystemParams: (systemParams: SystemParameters) => void;
+}) {
+  const [sourceSystemSize, setSourceSystemSize] = useState(
+    systemParams.systemSize
+  );
+  const [error, setError] = useState<string | null>(null);
+  const profile = systemParams.productionProfile;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be chosen again
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const productionProfile = parseProductionProfile(
+        await file.text(),
+        file.name,
+        sourceSystemSize
+      );
+      setError(null);
+      setSystemParams({ ...systemParams, productionProfile });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const summary = calculateProductionSummary(systemParams);
+  const clippingShare =
+    summary.annualGeneration + summary.clippingLoss > 0
+      ? summary.clippingLoss / (summary.annualGeneration + summary.clippingLoss)
+      : 0;
+
+  return (
+    <div className="flex flex-col">
+      <label className={labelClassName}>
+        <InfoTooltip
+          id="production-profile-tooltip"
+          trigger={<span>Production Profile (8760) ⓘ</span>}
+        >
+          Upload an hourly PVWatts, SAM or PVsyst export to replace the flat
+          capacity factor. Output is scaled from the modeled DC size to the
+          project&apos;s DC size and clipped at its AC size, so the DC/AC ratio
+          and the seasonal shape of generation flow through to revenue.
+        </InfoTooltip>
+      </label>
+      {profile ? (
+        <div className="mt-1 text-base text-gray-600 space-y-1">
+          <div className="flex justify-between gap-2">
+            <span className="truncate" title={profile.name}>
+              {profile.name}
+            </span>
+            <button
+              aria-label="Remove production profile"
+              onClick={() =>
+                setSystemParams({ ...systemParams, productionProfile: null })
+              }
+              className="text-red-700 hover:text-red-900"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="text-sm">
+            Modeled for {profile.sourceSystemSizeMW} MWdc
+          </div>
+          <div className="text-sm">
+            {Math.round(summary.annualGeneration).toLocaleString()} MWh/yr ·{" "}
+            {(summary.dcCapacityFactor * 100).toFixed(1)}% DC /{" "}
+            {(summary.acCapacityFactor * 100).toFixed(1)}% AC capacity factor
+          </div>
+          <div className="text-sm">
+            Clipping loss: {Math.round(summary.clippingLoss).toLocaleString()}{" "}
+            MWh ({(clippingShare * 100).toFixed(1)}%)
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-2">
+          <div>
+            <label className="block text-sm text-gray-600 mt-1">
+              Modeled DC Size (MW)
+            </label>
+            <input
+              type="number"
+              className={inputClassName}
+              value={sourceSystemSize || ""}
+              onChange={(e) =>
+                setSourceSystemSize(
+                  e.target.value === "" ? 0 : parseFloat(e.target.value)
+                )
+              }
+            />
+          </div>
+          <input
+            type="file"
+            accept=".csv,.txt"
+            className="text-sm text-gray-600"
+            onChange={handleFile}
+          />
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
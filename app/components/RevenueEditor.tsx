@@ -0,0 +1,496 @@
+import {
+  BillCreditMethod,
+  RevenueParameters,
+  SubscriberClass,
+  TimeOfUsePeriod,
+  ValueStackComponent,
+} from "../types/revenue";
+import {
+  billCreditMethodLabels,
+  calculateBillCreditRate,
+  calculateRealizedRate,
+  calculateSubscriberPaymentShare,
+} from "../utils/revenue";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const labelClassName = "block text-sm font-medium text-[#1D3834]";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+export function RevenueEditor({
+  revenue,
+  setRevenue,
+  hasProductionProfile,
+}: {
+  revenue: RevenueParameters;
+  setRevenue: (revenue: RevenueParameters) => void;
+  hasProductionProfile: boolean;
+}) {
+  const update = (changes: Partial<RevenueParameters>) =>
+    setRevenue({ ...revenue, ...changes });
+
+  const updateComponent = (
+    index: number,
+    changes: Partial<ValueStackComponent>
+  ) => {
+    const newComponents = [...revenue.valueStack];
+    newComponents[index] = { ...newComponents[index], ...changes };
+    update({ valueStack: newComponents });
+  };
+
+  const updatePeriod = (index: number, changes: Partial<TimeOfUsePeriod>) => {
+    const newPeriods = [...revenue.timeOfUsePeriods];
+    newPeriods[index] = { ...newPeriods[index], ...changes };
+    update({ timeOfUsePeriods: newPeriods });
+  };
+
+  // Whole numbers within the range a period field allows
+  const clamp = (value: string, min: number, max: number) =>
+    Math.min(max, Math.max(min, parseInt(value) || 0));
+
+  const updateSubscriber = (
+    index: number,
+    changes: Partial<SubscriberClass>
+  ) => {
+    const newSubscribers = [...revenue.subscribers];
+    newSubscribers[index] = { ...newSubscribers[index], ...changes };
+    update({ subscribers: newSubscribers });
+  };
+
+  const subscribedShare = revenue.subscribers.reduce(
+    (sum, subscriber) => sum + subscriber.share,
+    0
+  );
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-[#1D3834] mb-4">
+        <InfoTooltip
+          id="revenue-tooltip"
+          trigger={<span>Revenue: Bill Credits and Subscribers ⓘ</span>}
+        >
+          The project earns bill credits on each MWh, either at a fixed rate or
+          as the sum of value stack components. Subscribers pay for their share
+          of the credits at a discount, and only part of what they owe is
+          collected as cash. Time-of-use periods scale the credit for the hours
+          they cover, priced on the hourly output of an imported production
+          profile.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        {(Object.keys(billCreditMethodLabels) as BillCreditMethod[]).map(
+          (method) => (
+            <button
+              key={method}
+              onClick={() => update({ billCreditMethod: method })}
+              className={`px-4 py-2 rounded-md ${
+                revenue.billCreditMethod === method
+                  ? "bg-[#1D3834] text-white"
+                  : "bg-[#B2DFDB] text-[#1D3834]"
+              }`}
+            >
+              {billCreditMethodLabels[method]}
+            </button>
+          )
+        )}
+      </div>
+
+      {revenue.billCreditMethod === "fixedRate" ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className={labelClassName}>Bill Credit ($/MWh)</label>
+            <input
+              type="number"
+              className={inputClassName}
+              value={revenue.fixedRatePerMWh}
+              onChange={(e) =>
+                update({ fixedRatePerMWh: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Escalation (%)</label>
+            <input
+              type="number"
+              className={inputClassName}
+              value={toPercent(revenue.fixedRateEscalation)}
+              onChange={(e) =>
+                update({ fixedRateEscalation: Number(e.target.value) / 100 })
+              }
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full text-base">
+            <thead>
+              <tr className="bg-[#E0F2F1]">
+                <th className="px-3 py-3 text-[#1D3834]">Component</th>
+                <th className="px-3 py-3 text-[#1D3834]">Rate ($/MWh)</th>
+                <th className="px-3 py-3 text-[#1D3834]">Escalation (%)</th>
+                <th className="px-3 py-3 text-[#1D3834]">Term (years)</th>
+                <th className="px-3 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {revenue.valueStack.map((component, index) => (
+                <tr key={component.id} className="border-b border-[#B2DFDB]">
+                  <td className="px-3 py-3">
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={component.name}
+                      onChange={(e) =>
+                        updateComponent(index, { name: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      className={inputClassName}
+                      value={component.ratePerMWh}
+                      onChange={(e) =>
+                        updateComponent(index, {
+                          ratePerMWh: Number(e.target.value),
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      className={inputClassName}
+                      value={toPercent(component.escalationRate)}
+                      onChange={(e) =>
+                        updateComponent(index, {
+                          escalationRate: Number(e.target.value) / 100,
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      min="0"
+                      className={inputClassName}
+                      placeholder="Project life"
+                      value={component.termYears ?? ""}
+                      onChange={(e) =>
+                        updateComponent(index, {
+                          termYears:
+                            e.target.value === ""
+                              ? undefined
+                              : Math.max(0, parseInt(e.target.value) || 0),
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <button
+                      aria-label={`Remove ${component.name}`}
+                      onClick={() =>
+                        update({
+                          valueStack: revenue.valueStack.filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                      className="text-red-700 hover:text-red-900"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() =>
+              update({
+                valueStack: [
+                  ...revenue.valueStack,
+                  {
+                    id: `component-${Date.now()}`,
+                    name: "New Component",
+                    ratePerMWh: 0,
+                    escalationRate: 0,
+                  },
+                ],
+              })
+            }
+            className="mt-4 px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+          >
+            Add Component
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Time-of-Use Period</th>
+              <th className="px-3 py-3 text-[#1D3834]">First Month</th>
+              <th className="px-3 py-3 text-[#1D3834]">Last Month</th>
+              <th className="px-3 py-3 text-[#1D3834]">Start Hour</th>
+              <th className="px-3 py-3 text-[#1D3834]">End Hour</th>
+              <th className="px-3 py-3 text-[#1D3834]">Rate Multiplier</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {revenue.timeOfUsePeriods.map((period, index) => (
+              <tr key={period.id} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3">
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={period.name}
+                    onChange={(e) =>
+                      updatePeriod(index, { name: e.target.value })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="1"
+                    max="12"
+                    className={inputClassName}
+                    value={period.startMonth}
+                    onChange={(e) =>
+                      updatePeriod(index, {
+                        startMonth: clamp(e.target.value, 1, 12),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="1"
+                    max="12"
+                    className={inputClassName}
+                    value={period.endMonth}
+                    onChange={(e) =>
+                      updatePeriod(index, {
+                        endMonth: clamp(e.target.value, 1, 12),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="0"
+                    max="23"
+                    className={inputClassName}
+                    value={period.startHour}
+                    onChange={(e) =>
+                      updatePeriod(index, {
+                        startHour: clamp(e.target.value, 0, 23),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="1"
+                    max="24"
+                    className={inputClassName}
+                    value={period.endHour}
+                    onChange={(e) =>
+                      updatePeriod(index, {
+                        endHour: clamp(e.target.value, 1, 24),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.05"
+                    className={inputClassName}
+                    value={period.rateMultiplier}
+                    onChange={(e) =>
+                      updatePeriod(index, {
+                        rateMultiplier: Math.max(0, Number(e.target.value)),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <button
+                    aria-label={`Remove ${period.name}`}
+                    onClick={() =>
+                      update({
+                        timeOfUsePeriods: revenue.timeOfUsePeriods.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                    className="text-red-700 hover:text-red-900"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {revenue.timeOfUsePeriods.length > 0 && !hasProductionProfile && (
+          <p className="mt-2 text-sm text-red-700">
+            Time-of-use periods are priced on hourly output. Upload a production
+            profile for them to affect revenue; flat capacity-factor generation
+            is paid the plain rate.
+          </p>
+        )}
+        <button
+          onClick={() =>
+            update({
+              timeOfUsePeriods: [
+                ...revenue.timeOfUsePeriods,
+                {
+                  id: `period-${Date.now()}`,
+                  name: "On-Peak",
+                  startMonth: 1,
+                  endMonth: 12,
+                  startHour: 14,
+                  endHour: 19,
+                  rateMultiplier: 1,
+                },
+              ],
+            })
+          }
+          className="mt-4 px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+        >
+          Add Period
+        </button>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Subscribers</th>
+              <th className="px-3 py-3 text-[#1D3834]">Share of Credits (%)</th>
+              <th className="px-3 py-3 text-[#1D3834]">Discount (%)</th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                Contract Term (years)
+              </th>
+              <th className="px-3 py-3 text-[#1D3834]">Renewal Discount (%)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {revenue.subscribers.map((subscriber, index) => (
+              <tr key={subscriber.id} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-3 font-medium text-[#1D3834]">
+                  {subscriber.name}
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    value={toPercent(subscriber.share)}
+                    onChange={(e) =>
+                      updateSubscriber(index, {
+                        share: Number(e.target.value) / 100,
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    value={toPercent(subscriber.discount)}
+                    onChange={(e) =>
+                      updateSubscriber(index, {
+                        discount: Number(e.target.value) / 100,
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="0"
+                    className={inputClassName}
+                    value={subscriber.contractTermYears}
+                    onChange={(e) =>
+                      updateSubscriber(index, {
+                        contractTermYears: Math.max(
+                          0,
+                          parseInt(e.target.value) || 0
+                        ),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    className={inputClassName}
+                    value={toPercent(subscriber.renewalDiscount)}
+                    onChange={(e) =>
+                      updateSubscriber(index, {
+                        renewalDiscount: Number(e.target.value) / 100,
+                      })
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {Math.abs(subscribedShare - 1) > 0.0001 && (
+          <p className="mt-2 text-sm text-red-700">
+            Subscriber shares add up to {toPercent(subscribedShare)}%. Credits
+            not allocated to a subscriber class earn no revenue.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className={labelClassName}>Credit-to-Cash Rate (%)</label>
+          <input
+            type="number"
+            className={inputClassName}
+            value={toPercent(revenue.creditToCashRate)}
+            onChange={(e) =>
+              update({ creditToCashRate: Number(e.target.value) / 100 })
+            }
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Year 1 Bill Credit</label>
+          <div className="text-base text-gray-600 p-2">
+            ${calculateBillCreditRate(revenue, 0).toFixed(2)}/MWh
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Year 1 Subscriber Payments</label>
+          <div className="text-base text-gray-600 p-2">
+            {(calculateSubscriberPaymentShare(revenue, 0) * 100).toFixed(1)}% of
+            credits
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Year 1 Realized Revenue</label>
+          <div className="text-base text-gray-600 p-2">
+            ${calculateRealizedRate(revenue, 0).toFixed(2)}/MWh
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
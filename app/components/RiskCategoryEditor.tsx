@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { RiskCategory } from "../types/risk";
+import {
+  categoryColor,
+  createRiskCategory,
+  isCategoryNameTaken,
+  withDerivedRiskValues,
+} from "../utils/riskCategories";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+type BoundField =
+  "devExLow" | "devExHigh" | "capExIncreaseLow" | "capExIncreaseHigh";
+
+const boundFields: [BoundField, string][] = [
+  ["devExLow", "DevEx Low ($)"],
+  ["devExHigh", "DevEx High ($)"],
+  ["capExIncreaseLow", "CapEx Increase Low ($)"],
+  ["capExIncreaseHigh", "CapEx Increase High ($)"],
+];
+
+// The other end of each range; a low bound may not exceed its high bound
+const pairedBound: Record<BoundField, { field: BoundField; isLow: boolean }> = {
+  devExLow: { field: "devExHigh", isLow: true },
+  devExHigh: { field: "devExLow", isLow: false },
+  capExIncreaseLow: { field: "capExIncreaseHigh", isLow: true },
+  capExIncreaseHigh: { field: "capExIncreaseLow", isLow: false },
+};
+
+// A value that would reverse its range is shown with the problem but not
+// applied, and is dropped when the field is left
+function BoundInput({
+  label,
+  value,
+  otherValue,
+  isLow,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  otherValue: number;
+  isLow: boolean;
+  onChange: (value: number) => void;
+}) {
+  const [rejected, setRejected] = useState<string | null>(null);
+  const problemWith = (bound: number) =>
+    isLow && bound > otherValue
+      ? "Above the high bound"
+      : !isLow && bound < otherValue
+        ? "Below the low bound"
+        : null;
+  const problem =
+    rejected === null ? null : problemWith(Math.max(0, Number(rejected) || 0));
+
+  return (
+    <div>
+      <input
+        type="number"
+        min="0"
+        step="1000"
+        aria-label={label}
+        aria-invalid={problem !== null}
+        className={`${inputClassName} min-w-[7rem] ${
+          problem ? "border-red-500" : ""
+        }`}
+        value={rejected ?? value}
+        onChange={(e) => {
+          const bound = Math.max(0, Number(e.target.value) || 0);
+          if (problemWith(bound)) {
+            setRejected(e.target.value);
+          } else {
+            setRejected(null);
+            onChange(bound);
+          }
+        }}
+        onBlur={() => setRejected(null)}
+      />
+      {problem && <p className="mt-1 text-xs text-red-700">{problem}</p>}
+    </div>
+  );
+}
+
+// Renames are applied when the field is left, so a name is never briefly
+// blank or shared with another category while typing
+function NameInput({
+  name,
+  isTaken,
+  onRename,
+}: {
+  name: string;
+  isTaken: (name: string) => boolean;
+  onRename: (name: string) => void;
+}) {
+  const [draft, setDraft] = useState(name);
+  const trimmed = draft.trim();
+  const problem =
+    trimmed === ""
+      ? "Enter a name"
+      : trimmed !== name && isTaken(trimmed)
+        ? "Name already used"
+        : null;
+
+  const commit = () => {
+    if (problem) {
+      setDraft(name);
+    } else if (trimmed !== name) {
+      onRename(trimmed);
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        aria-label="Category name"
+        aria-invalid={problem !== null}
+        className={`${inputClassName} min-w-[10rem] ${
+          problem ? "border-red-500" : ""
+        }`}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+      />
+      {problem && <p className="mt-1 text-xs text-red-700">{problem}</p>}
+    </div>
+  );
+}
+
+export function RiskCategoryEditor({
+  riskCategories,
+  setRiskCategories,
+  onRename,
+  onRemove,
+}: {
+  riskCategories: RiskCategory[];
+  setRiskCategories: (categories: RiskCategory[]) => void;
+  // For inputs that refer to categories by name
+  onRename: (from: string, to: string) => void;
+  onRemove: (name: string) => void;
+}) {
+  const updateCategory = (index: number, changes: Partial<RiskCategory>) => {
+    const newCategories = [...riskCategories];
+    newCategories[index] = withDerivedRiskValues({
+      ...newCategories[index],
+      ...changes,
+    });
+    setRiskCategories(newCategories);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="risk-category-editor-tooltip"
+          trigger={<span>Risk Taxonomy ⓘ</span>}
+        >
+          Define the milestones projects must clear before NTP, such as utility
+          upgrades, tax equity commitment or community opposition. Each category
+          spends between its low and high DevEx depending on its financial risk,
+          may raise CapEx by between its low and high increase, and fails in its
+          worst case with the given probability at the highest approval risk.
+          Reorder categories and set their timing in the Risk Categories table
+          above.
+        </InfoTooltip>
+      </h2>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3"></th>
+              <th className="px-3 py-3 text-left text-[#1D3834]">Name</th>
+              {boundFields.map(([field, label]) => (
+                <th key={field} className="px-3 py-3 text-[#1D3834]">
+                  {label}
+                </th>
+              ))}
+              <th className="px-3 py-3 text-[#1D3834]">Worst Case (%)</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {riskCategories.map((category, index) => (
+              <tr
+                key={`${index}-${category.name}`}
+                className="border-b border-[#B2DFDB]"
+              >
+                <td className="px-3 py-3">
+                  <div
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: categoryColor(index) }}
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <NameInput
+                    name={category.name}
+                    isTaken={(name) =>
+                      isCategoryNameTaken(name, riskCategories, index)
+                    }
+                    onRename={(name) => {
+                      updateCategory(index, { name });
+                      onRename(category.name, name);
+                    }}
+                  />
+                </td>
+                {boundFields.map(([field, label]) => (
+                  <td key={field} className="px-3 py-3 align-top">
+                    <BoundInput
+                      label={`${category.name} ${label}`}
+                      value={category[field]}
+                      otherValue={category[pairedBound[field].field]}
+                      isLow={pairedBound[field].isLow}
+                      onChange={(value) =>
+                        updateCategory(index, { [field]: value })
+                      }
+                    />
+                  </td>
+                ))}
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    aria-label={`${category.name} worst case`}
+                    className={`${inputClassName} min-w-[5rem]`}
+                    value={toPercent(category.worstCaseScenario)}
+                    onChange={(e) =>
+                      updateCategory(index, {
+                        worstCaseScenario: Math.min(
+                          1,
+                          Math.max(0, Number(e.target.value) / 100)
+                        ),
+                      })
+                    }
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <button
+                    aria-label={`Remove ${category.name}`}
+                    disabled={riskCategories.length === 1}
+                    onClick={() => {
+                      setRiskCategories(
+                        riskCategories.filter((_, i) => i !== index)
+                      );
+                      onRemove(category.name);
+                    }}
+                    className="text-red-700 hover:text-red-900 disabled:text-gray-300"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={() =>
+          setRiskCategories([
+            ...riskCategories,
+            createRiskCategory(riskCategories),
+          ])
+        }
+        className={buttonClassName}
+      >
+        Add Category
+      </button>
+    </div>
+  );
+}
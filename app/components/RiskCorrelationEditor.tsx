@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react";
+import { FinancialParameters } from "../types/financial";
+import { FinancialMetricUnit } from "../types/metrics";
+import { RiskCategory, RiskCorrelation, RiskOutcome } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import {
+  CashFlowResult,
+  calculateCashFlows,
+} from "../utils/cashFlowCalculations";
+import {
+  correlationBetween,
+  correlationFactor,
+  setCorrelation,
+} from "../utils/correlation";
+import { formatMetric } from "../utils/metrics";
+import { calculateGateMonth } from "../utils/timeline";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const linkButtonClassName = "text-[#00695C] hover:text-[#1D3834] underline";
+
+const riskOutcomeLabels: Record<RiskOutcome, string> = {
+  approval: "Approval",
+  cost: "Cost",
+};
+
+// Results compared with and without the correlations, per pipeline project
+const comparisonRows: {
+  label: string;
+  unit: FinancialMetricUnit;
+  value: (result: CashFlowResult) => number | null;
+}[] = [
+  {
+    label: "Projects Reaching NTP",
+    unit: "percent",
+    value: (result) => result.projectsReachingNTP,
+  },
+  {
+    label: "Expected DevEx",
+    unit: "currency",
+    value: (result) => result.expectedDevEx,
+  },
+  {
+    label: "Expected Sunk Cost",
+    unit: "currency",
+    value: (result) => result.expectedSunkCost,
+  },
+  {
+    label: "Portfolio IRR",
+    unit: "percent",
+    value: (result) => result.portfolioMetrics.irr.irr,
+  },
+  {
+    label: "Portfolio NPV",
+    unit: "currency",
+    value: (result) => result.portfolioMetrics.npv,
+  },
+  {
+    label: "Peak Funding Need",
+    unit: "currency",
+    value: (result) => result.portfolioMetrics.peakFunding,
+  },
+];
+
+function formatDifference(
+  value: number | null,
+  unit: FinancialMetricUnit
+): string {
+  if (value === null || !Number.isFinite(value)) return "n/a";
+  const sign = value > 0 ? "+" : value < 0 ? "−" : "";
+  return unit === "percent"
+    ? `${sign}${Math.abs(value * 100).toFixed(2)} pts`
+    : `${sign}${formatMetric(Math.abs(value), unit)}`;
+}
+
+export function RiskCorrelationEditor({
+  riskCategories,
+  systemParams,
+  financialParameters,
+  setRiskCorrelations,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  setRiskCorrelations: (correlations: RiskCorrelation[]) => void;
+}) {
+  const [outcome, setOutcome] = useState<RiskOutcome>("approval");
+  const correlations = systemParams.riskCorrelations;
+  const { shrinkage } = correlationFactor(
+    riskCategories,
+    correlations,
+    outcome
+  );
+
+  const comparison = useMemo(
+    () => ({
+      independent: calculateCashFlows(
+        riskCategories,
+        { ...systemParams, riskCorrelations: [] },
+        financialParameters
+      ),
+      correlated: calculateCashFlows(
+        riskCategories,
+        systemParams,
+        financialParameters
+      ),
+    }),
+    [riskCategories, systemParams, financialParameters]
+  );
+
+  const rows = [
+    ...comparisonRows,
+    // Milestones that start after a gate is decided, whose share reaching
+    // them depends on those gates
+    ...riskCategories.flatMap((category, i) =>
+      riskCategories.some(
+        (other) => calculateGateMonth(other) <= category.startOffsetMonths
+      )
+        ? [
+            {
+              label: `Reaching ${category.name}`,
+              unit: "percent" as const,
+              value: (result: CashFlowResult) => result.milestoneSurvival[i],
+            },
+          ]
+        : []
+    ),
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="risk-correlation-tooltip"
+          trigger={<span>Correlated Risks ⓘ</span>}
+        >
+          The whitepaper treats every category as independent. Here, pairs of
+          categories can move together: a positive approval correlation means a
+          site that passes one gate is more likely to pass the other, and a
+          positive cost correlation means high costs in one tend to come with
+          high costs in the other. Outcomes are linked through a Gaussian
+          copula, so each category keeps its own go/no-go probability and cost
+          range. Approval correlations change the share of projects reaching
+          each milestone and so the expected cash flows. Costs in the expected
+          model are set by each category&apos;s financial risk, so cost
+          correlations show in the spread of the Monte Carlo simulation.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4 items-center">
+        {(Object.keys(riskOutcomeLabels) as RiskOutcome[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setOutcome(key)}
+            className={`px-4 py-2 rounded-md ${
+              outcome === key
+                ? "bg-[#1D3834] text-white"
+                : "bg-[#B2DFDB] text-[#1D3834]"
+            }`}
+          >
+            {riskOutcomeLabels[key]}
+          </button>
+        ))}
+        {correlations.length > 0 && (
+          <button
+            onClick={() => setRiskCorrelations([])}
+            className={`${linkButtonClassName} ml-4`}
+          >
+            Reset to Independent
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-2 py-2"></th>
+              {riskCategories.map((category) => (
+                <th
+                  key={category.name}
+                  className="px-2 py-2 text-center text-[#1D3834]"
+                >
+                  {category.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {riskCategories.map((row, i) => (
+              <tr key={row.name} className="border-b border-[#B2DFDB]">
+                <td className="px-2 py-2 font-medium text-[#1D3834] whitespace-nowrap">
+                  {row.name}
+                </td>
+                {riskCategories.map((column, j) => {
+                  const value = correlationBetween(
+                    correlations,
+                    row.name,
+                    column.name,
+                    outcome
+                  );
+                  return (
+                    <td key={column.name} className="px-2 py-2 text-center">
+                      {j > i ? (
+                        <input
+                          type="number"
+                          min="-1"
+                          max="1"
+                          step="0.1"
+                          aria-label={`${riskOutcomeLabels[outcome]} correlation of ${row.name} and ${column.name}`}
+                          className={`${inputClassName} min-w-[5rem] text-center`}
+                          value={value}
+                          onChange={(e) =>
+                            setRiskCorrelations(
+                              setCorrelation(
+                                correlations,
+                                row.name,
+                                column.name,
+                                outcome,
+                                Number(e.target.value) || 0
+                              )
+                            )
+                          }
+                        />
+                      ) : (
+                        <span className="text-gray-400">
+                          {i === j ? "1" : value}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {shrinkage > 0 && (
+        <p className="mb-4 text-sm text-red-700">
+          These {riskOutcomeLabels[outcome].toLowerCase()} correlations
+          can&apos;t all hold at once, so each is reduced by{" "}
+          {Math.round(shrinkage * 100)}% toward independence in the results.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-2 text-left text-[#1D3834]">
+                Per Pipeline Project
+              </th>
+              <th className="px-3 py-2 text-right text-[#1D3834]">
+                Independent
+              </th>
+              <th className="px-3 py-2 text-right text-[#1D3834]">
+                Correlated
+              </th>
+              <th className="px-3 py-2 text-right text-[#1D3834]">
+                Difference
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const independent = row.value(comparison.independent);
+              const correlated = row.value(comparison.correlated);
+              return (
+                <tr key={row.label} className="border-b border-[#B2DFDB]">
+                  <td className="px-3 py-2 font-medium text-[#1D3834]">
+                    {row.label}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">
+                    {formatMetric(independent, row.unit)}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">
+                    {formatMetric(correlated, row.unit)}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">
+                    {formatDifference(
+                      independent !== null && correlated !== null
+                        ? correlated - independent
+                        : null,
+                      row.unit
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
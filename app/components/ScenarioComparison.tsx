@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import { Line } from "react-chartjs-2";
+import { TooltipItem } from "chart.js";
+import { FinancialMetricUnit } from "../types/metrics";
+import { Scenario } from "../types/scenario";
+import { calculateCashFlows } from "../utils/cashFlowCalculations";
+import { formatIRR } from "../utils/irr";
+import { financialMetricRows, formatMetric } from "../utils/metrics";
+
+type ComparisonView = "individual" | "portfolio";
+
+const viewLabels: Record<ComparisonView, string> = {
+  individual: "Project at NTP",
+  portfolio: "Portfolio",
+};
+
+// One color per compared scenario, the baseline first
+const scenarioColors = [
+  "rgb(29, 56, 52)",
+  "rgb(65, 170, 160)",
+  "rgb(255, 159, 64)",
+  "rgb(153, 102, 255)",
+];
+
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+// Difference from the baseline in the metric's own unit
+function formatDelta(delta: number, unit: FinancialMetricUnit): string {
+  const sign = delta > 0 ? "+" : delta < 0 ? "−" : "±";
+  const size = Math.abs(delta);
+  switch (unit) {
+    case "percent":
+      return `${sign}${(size * 100).toFixed(2)} pts`;
+    case "currency":
+      return `${sign}$${Math.round(size).toLocaleString()}`;
+    case "perMWh":
+      return `${sign}$${size.toFixed(2)}/MWh`;
+    case "year":
+      return `${sign}${size} yr`;
+    case "multiple":
+      return `${sign}${size.toFixed(2)}x`;
+  }
+}
+
+// Runs the cash flow model on each scenario and compares them with the first
+export function ScenarioComparison({ scenarios }: { scenarios: Scenario[] }) {
+  const [view, setView] = useState<ComparisonView>("portfolio");
+
+  const results = useMemo(
+    () =>
+      scenarios.map(({ state }) =>
+        calculateCashFlows(
+          state.riskCategories,
+          state.systemParams,
+          state.financialParameters
+        )
+      ),
+    [scenarios]
+  );
+
+  const metricsOf = (index: number) =>
+    view === "individual"
+      ? results[index].projectMetrics
+      : results[index].portfolioMetrics;
+
+  // Calendar-year cash flows, scaled to the whole pipeline in the portfolio
+  // view as in the main chart
+  const annualFlows = results.map((result, index) => {
+    const flows = new Map<number, number>();
+    result.years.forEach((year, i) =>
+      flows.set(
+        year,
+        view === "individual"
+          ? result.ledger.totals[i]
+          : result.ledger.expectedTotals[i] *
+              scenarios[index].state.systemParams.pipelineSize
+      )
+    );
+    return flows;
+  });
+  const years = Array.from(
+    new Set(results.flatMap((result) => result.years))
+  ).sort((a, b) => a - b);
+  const flowIn = (index: number, year: number) =>
+    annualFlows[index].get(year) ?? 0;
+
+  const chartData = {
+    labels: years.map(String),
+    datasets: scenarios.map((scenario, index) => {
+      let cumulative = 0;
+      return {
+        label: scenario.name,
+        data: years.map((year) => (cumulative += flowIn(index, year))),
+        borderColor: scenarioColors[index % scenarioColors.length],
+        backgroundColor: scenarioColors[index % scenarioColors.length],
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.2,
+      };
+    }),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: "index" as const, intersect: false },
+    plugins: {
+      title: {
+        display: true,
+        text: `Cumulative Cash Flow: ${viewLabels[view]}`,
+        color: "#1D3834",
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"line">) =>
+            `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        title: { display: true, text: "Amount ($)" },
+        ticks: { color: "#1D3834" },
+      },
+      x: { ticks: { color: "#1D3834" } },
+    },
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap gap-4 mb-4">
+        {(Object.keys(viewLabels) as ComparisonView[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-4 py-2 rounded-md ${
+              view === option
+                ? "bg-[#1D3834] text-white"
+                : "bg-[#B2DFDB] text-[#1D3834]"
+            }`}
+          >
+            {viewLabels[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-2 text-left text-[#1D3834]">Metric</th>
+              {scenarios.map((scenario, index) => (
+                <th
+                  key={scenario.id}
+                  className="px-3 py-2 text-right text-[#1D3834]"
+                >
+                  {scenario.name}
+                  {index === 0 && (
+                    <span className="block text-xs font-normal">Baseline</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-[#B2DFDB]">
+              <td className="px-3 py-2 font-medium text-[#1D3834]">IRR</td>
+              {scenarios.map((scenario, index) => {
+                const irr = metricsOf(index).irr;
+                const baseline = metricsOf(0).irr.irr;
+                return (
+                  <td
+                    key={scenario.id}
+                    className="px-3 py-2 text-right text-gray-600"
+                  >
+                    {formatIRR(irr)}
+                    {index > 0 && irr.irr !== null && baseline !== null && (
+                      <span className="block text-xs">
+                        {formatDelta(irr.irr - baseline, "percent")}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+            {financialMetricRows.map((row) => (
+              <tr key={row.key} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-2 font-medium text-[#1D3834]">
+                  {row.label}
+                </td>
+                {scenarios.map((scenario, index) => {
+                  const value = metricsOf(index)[row.key];
+                  const baseline = metricsOf(0)[row.key];
+                  return (
+                    <td
+                      key={scenario.id}
+                      className="px-3 py-2 text-right text-gray-600"
+                    >
+                      {formatMetric(value, row.unit)}
+                      {index > 0 && value !== null && baseline !== null && (
+                        <span className="block text-xs">
+                          {formatDelta(value - baseline, row.unit)}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="h-[400px] mb-6">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+
+      <h3 className="text-lg font-semibold mb-2 text-[#1D3834]">
+        Cash Flow Change from {scenarios[0].name}
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-2 text-left text-[#1D3834]">Scenario</th>
+              {years.map((year) => (
+                <th key={year} className="px-3 py-2 text-right text-[#1D3834]">
+                  {year}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {scenarios.slice(1).map((scenario, i) => (
+              <tr key={scenario.id} className="border-b border-[#B2DFDB]">
+                <td className="px-3 py-2 font-medium text-[#1D3834] whitespace-nowrap">
+                  {scenario.name}
+                </td>
+                {years.map((year) => {
+                  const delta = flowIn(i + 1, year) - flowIn(0, year);
+                  return (
+                    <td
+                      key={year}
+                      className={`px-3 py-2 text-right whitespace-nowrap ${
+                        delta < 0 ? "text-red-700" : "text-gray-600"
+                      }`}
+                    >
+                      {Math.abs(delta) < 0.5 ? "–" : formatCurrency(delta)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { ModelState, Scenario } from "../types/scenario";
+import {
+  createScenario,
+  duplicateScenario,
+  loadStoredScenarios,
+  maxComparedScenarios,
+  mergeModelState,
+  parseScenarioFile,
+  serializeScenarios,
+  storeScenarios,
+} from "../utils/scenarios";
+import { ScenarioComparison } from "./ScenarioComparison";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50";
+
+const linkButtonClassName = "text-[#00695C] hover:text-[#1D3834] underline";
+
+export function ScenarioManager({
+  state,
+  onLoad,
+}: {
+  state: ModelState;
+  onLoad: (state: ModelState, name: string) => void;
+}) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [newName, setNewName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage only exists in the browser, so read it after mounting
+  useEffect(() => {
+    setScenarios(loadStoredScenarios());
+  }, []);
+
+  const save = (newScenarios: Scenario[]) => {
+    try {
+      storeScenarios(newScenarios);
+      setError(null);
+    } catch {
+      setError(
+        "Browser storage is full, so this change will be lost on refresh. Export the scenarios to keep them."
+      );
+    }
+    setScenarios(newScenarios);
+    setCompareIds((ids) =>
+      ids.filter((id) => newScenarios.some((scenario) => scenario.id === id))
+    );
+  };
+
+  const updateScenario = (index: number, changes: Partial<Scenario>) => {
+    const newScenarios = [...scenarios];
+    newScenarios[index] = { ...newScenarios[index], ...changes };
+    save(newScenarios);
+  };
+
+  const saveCurrent = () => {
+    const name = newName.trim() || `Scenario ${scenarios.length + 1}`;
+    save([...scenarios, createScenario(name, state)]);
+    setNewName("");
+  };
+
+  const exportScenarios = () => {
+    const blob = new Blob([serializeScenarios(scenarios)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "solar_scenarios.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importScenarios = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be chosen again
+    e.target.value = "";
+    if (!file) return;
+    try {
+      // Imported scenarios get new ids so they never replace saved ones
+      const imported = parseScenarioFile(await file.text()).map((scenario) => ({
+        ...createScenario(scenario.name, scenario.state),
+        savedAt: scenario.savedAt,
+      }));
+      save([...scenarios, ...imported]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleCompare = (id: string) =>
+    setCompareIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((compareId) => compareId !== id)
+        : [...ids, id]
+    );
+
+  // Compared in the order they were ticked, so the first is the baseline
+  const compared = useMemo(
+    () =>
+      compareIds
+        .map((id) => scenarios.find((scenario) => scenario.id === id))
+        .filter((scenario): scenario is Scenario => scenario !== undefined)
+        .map((scenario) => ({
+          ...scenario,
+          state: mergeModelState(state, scenario.state),
+        })),
+    [compareIds, scenarios, state]
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip id="scenarios-tooltip" trigger={<span>Scenarios ⓘ</span>}>
+          Save the current inputs as a named scenario in this browser, load it
+          back later, or export scenarios to a file to share them. Tick two to{" "}
+          {maxComparedScenarios} scenarios to compare their returns and cash
+          flows against the first one ticked.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-6 items-center">
+        <input
+          type="text"
+          className={`${inputClassName} max-w-xs`}
+          placeholder={`Scenario ${scenarios.length + 1}`}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && saveCurrent()}
+        />
+        <button onClick={saveCurrent} className={buttonClassName}>
+          Save Current Inputs
+        </button>
+        <button
+          onClick={exportScenarios}
+          disabled={scenarios.length === 0}
+          className={buttonClassName}
+        >
+          Export JSON
+        </button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={importScenarios}
+          />
+        </label>
+      </div>
+      {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+
+      {scenarios.length === 0 ? (
+        <p className="text-base text-gray-600">No saved scenarios yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-base">
+            <thead>
+              <tr className="bg-[#E0F2F1]">
+                <th className="px-3 py-3 text-[#1D3834]">Compare</th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">Name</th>
+                <th className="px-3 py-3 text-left text-[#1D3834]">Saved</th>
+                <th className="px-3 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((scenario, index) => (
+                <tr key={scenario.id} className="border-b border-[#B2DFDB]">
+                  <td className="px-3 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      aria-label={`Compare ${scenario.name}`}
+                      checked={compareIds.includes(scenario.id)}
+                      disabled={
+                        !compareIds.includes(scenario.id) &&
+                        compareIds.length >= maxComparedScenarios
+                      }
+                      onChange={() => toggleCompare(scenario.id)}
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={scenario.name}
+                      onChange={(e) =>
+                        updateScenario(index, { name: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    {new Date(scenario.savedAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-3">
+                    <div className="flex gap-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() =>
+                          onLoad(
+                            mergeModelState(state, scenario.state),
+                            scenario.name
+                          )
+                        }
+                        className={linkButtonClassName}
+                      >
+                        Load
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateScenario(index, {
+                            state: structuredClone(state),
+                            savedAt: new Date().toISOString(),
+                          })
+                        }
+                        className={linkButtonClassName}
+                      >
+                        Overwrite
+                      </button>
+                      <button
+                        onClick={() =>
+                          save([
+                            ...scenarios,
+                            duplicateScenario(scenario, scenarios),
+                          ])
+                        }
+                        className={linkButtonClassName}
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        aria-label={`Remove ${scenario.name}`}
+                        onClick={() =>
+                          save(scenarios.filter((_, i) => i !== index))
+                        }
+                        className="text-red-700 hover:text-red-900"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {compared.length === 1 && (
+        <p className="mt-4 text-sm text-gray-600">
+          Tick at least one more scenario to compare.
+        </p>
+      )}
+      {compared.length >= 2 && <ScenarioComparison scenarios={compared} />}
+    </div>
+  );
+}
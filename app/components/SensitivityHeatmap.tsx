@@ -0,0 +1,381 @@
+import { useMemo, useState } from "react";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import {
+  HeatmapResult,
+  InputRange,
+  ModelInput,
+  ModelOutput,
+} from "../types/sensitivity";
+import { SystemParameters } from "../types/system";
+import { formatMetric } from "../utils/metrics";
+import {
+  clampInputValue,
+  defaultInputRange,
+  formatInputValue,
+  listModelInputs,
+} from "../utils/modelInputs";
+import {
+  axisValues,
+  calculateHeatmap,
+  modelOutputs,
+} from "../utils/sensitivity";
+import { ModelInputSelect } from "./ModelInputSelect";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+// Points along each axis; the grid is evaluated once per cell
+const maxSteps = 15;
+
+// Axes shown first when the inputs have them
+const defaultXInput = "capex:baseCaseCapExPerMW";
+const defaultYInput = "revenue:fixedRatePerMWh";
+
+interface AxisSetting {
+  inputId: string;
+  // Null follows the current value of the input
+  range: InputRange | null;
+  steps: number;
+}
+
+// Red below the middle of the scale through pale yellow to green above it
+function heatColor(share: number): string {
+  const low = [220, 70, 70];
+  const middle = [255, 241, 194];
+  const high = [0, 109, 75];
+  const [from, to, t] =
+    share < 0.5 ? [low, middle, share * 2] : [middle, high, share * 2 - 1];
+  const channel = (i: number) => Math.round(from[i] + (to[i] - from[i]) * t);
+  return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+}
+
+function AxisControls({
+  title,
+  modelInputs,
+  input,
+  excludeId,
+  range,
+  steps,
+  onChange,
+}: {
+  title: string;
+  modelInputs: ModelInput[];
+  input: ModelInput;
+  excludeId: string;
+  range: InputRange;
+  steps: number;
+  onChange: (setting: AxisSetting) => void;
+}) {
+  const percent = input.unit === "percent";
+
+  return (
+    <div className="p-4 border border-[#B2DFDB] rounded-md">
+      <h3 className="text-lg font-semibold text-[#1D3834] mb-2">{title}</h3>
+      <label className="block text-sm font-medium text-[#1D3834]">Input</label>
+      <ModelInputSelect
+        modelInputs={modelInputs}
+        value={input.id}
+        excludeIds={[excludeId]}
+        className={`${inputClassName} mt-1 mb-3`}
+        onChange={(inputId) => onChange({ inputId, range: null, steps })}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        {(["low", "high"] as const).map((end) => (
+          <div key={end}>
+            <label className="block text-sm font-medium text-[#1D3834]">
+              {end === "low" ? "From" : "To"}
+              {percent && " (%)"}
+            </label>
+            <input
+              type="number"
+              step={input.integer ? 1 : "any"}
+              className={`${inputClassName} mt-1`}
+              value={percent ? toPercent(range[end]) : range[end]}
+              onChange={(e) =>
+                onChange({
+                  inputId: input.id,
+                  range: {
+                    ...range,
+                    [end]: clampInputValue(
+                      input,
+                      Number(e.target.value) / (percent ? 100 : 1)
+                    ),
+                  },
+                  steps,
+                })
+              }
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Steps
+          </label>
+          <input
+            type="number"
+            min="2"
+            max={maxSteps}
+            className={`${inputClassName} mt-1`}
+            value={steps}
+            onChange={(e) =>
+              onChange({
+                inputId: input.id,
+                range,
+                steps: Math.min(
+                  maxSteps,
+                  Math.max(2, parseInt(e.target.value) || 2)
+                ),
+              })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SensitivityHeatmap({
+  riskCategories,
+  systemParams,
+  financialParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}) {
+  const [xSetting, setXSetting] = useState<AxisSetting>({
+    inputId: defaultXInput,
+    range: null,
+    steps: 5,
+  });
+  const [ySetting, setYSetting] = useState<AxisSetting>({
+    inputId: defaultYInput,
+    range: null,
+    steps: 5,
+  });
+  const [output, setOutput] = useState<ModelOutput>("portfolioIRR");
+  const [hurdles, setHurdles] = useState(
+    Object.fromEntries(
+      (Object.keys(modelOutputs) as ModelOutput[]).map((key) => [
+        key,
+        modelOutputs[key].defaultTarget,
+      ])
+    ) as Record<ModelOutput, number>
+  );
+  const [result, setResult] = useState<HeatmapResult | null>(null);
+
+  const inputs = useMemo(
+    () => ({ riskCategories, systemParams, financialParameters }),
+    [riskCategories, systemParams, financialParameters]
+  );
+  const modelInputs = useMemo(() => listModelInputs(inputs), [inputs]);
+
+  // Falls back to other inputs once a chosen one no longer exists, such as
+  // a removed category or a switch to the value stack
+  const xInput =
+    modelInputs.find((input) => input.id === xSetting.inputId) ??
+    modelInputs[0];
+  const yInput =
+    modelInputs.find(
+      (input) => input.id === ySetting.inputId && input.id !== xInput.id
+    ) ?? modelInputs.find((input) => input.id !== xInput.id)!;
+  const xRange = xSetting.range ?? defaultInputRange(xInput, inputs);
+  const yRange = ySetting.range ?? defaultInputRange(yInput, inputs);
+
+  const runHeatmap = () =>
+    setResult(
+      calculateHeatmap(
+        inputs,
+        { input: xInput, values: axisValues(xInput, xRange, xSetting.steps) },
+        { input: yInput, values: axisValues(yInput, yRange, ySetting.steps) }
+      )
+    );
+
+  const { unit } = modelOutputs[output];
+  const hurdle = hurdles[output];
+  const values = result ? result.cells.flat().map((cell) => cell[output]) : [];
+  const finite = values.filter(
+    (value): value is number => value !== null && Number.isFinite(value)
+  );
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const share = (value: number) =>
+    max > min ? (value - min) / (max - min) : 0.5;
+  const clears = (value: number | null | undefined) =>
+    value !== null && value !== undefined && value >= hurdle;
+  // The highest Y value is drawn at the top
+  const rows = result
+    ? result.y.values
+        .map((value, i) => ({ value, cells: result.cells[i] }))
+        .reverse()
+    : [];
+  const contour = "3px solid #1D3834";
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="sensitivity-heatmap-tooltip"
+          trigger={<span>Two-Way Sensitivity ⓘ</span>}
+        >
+          Sets two inputs to every pair of values along their axes, with every
+          other input held where it is, and colors each cell by the chosen
+          result from lowest (red) to highest (green). The dark line separates
+          the cells that clear the hurdle from those that don&apos;t.
+        </InfoTooltip>
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <AxisControls
+          title="X Axis"
+          modelInputs={modelInputs}
+          input={xInput}
+          excludeId={yInput.id}
+          range={xRange}
+          steps={xSetting.steps}
+          onChange={setXSetting}
+        />
+        <AxisControls
+          title="Y Axis"
+          modelInputs={modelInputs}
+          input={yInput}
+          excludeId={xInput.id}
+          range={yRange}
+          steps={ySetting.steps}
+          onChange={setYSetting}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 items-end">
+        {(Object.keys(modelOutputs) as ModelOutput[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setOutput(key)}
+            className={`px-4 py-2 rounded-md ${
+              output === key
+                ? "bg-[#1D3834] text-white"
+                : "bg-[#B2DFDB] text-[#1D3834]"
+            }`}
+          >
+            {modelOutputs[key].label}
+          </button>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Hurdle{unit === "percent" ? " (%)" : " ($)"}
+          </label>
+          <input
+            type="number"
+            className={`${inputClassName} mt-1 w-32`}
+            value={unit === "percent" ? toPercent(hurdle) : hurdle}
+            onChange={(e) =>
+              setHurdles({
+                ...hurdles,
+                [output]:
+                  Number(e.target.value) / (unit === "percent" ? 100 : 1),
+              })
+            }
+          />
+        </div>
+        <button onClick={runHeatmap} className={buttonClassName}>
+          Run Heatmap
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="mx-auto text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th
+                    className="px-2 py-2 text-right text-[#1D3834]"
+                    rowSpan={2}
+                  >
+                    {result.y.label}
+                  </th>
+                  <th
+                    className="px-2 py-1 text-center text-[#1D3834]"
+                    colSpan={result.x.values.length}
+                  >
+                    {result.x.label}
+                  </th>
+                </tr>
+                <tr>
+                  {result.x.values.map((value) => (
+                    <th
+                      key={value}
+                      className="px-2 py-1 text-center text-gray-600 font-medium"
+                    >
+                      {formatInputValue(result.x, value)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, r) => (
+                  <tr key={row.value}>
+                    <th className="px-2 py-2 text-right text-gray-600 font-medium">
+                      {formatInputValue(result.y, row.value)}
+                    </th>
+                    {row.cells.map((cell, c) => {
+                      const value = cell[output];
+                      const above = clears(value);
+                      const t =
+                        value === null || !Number.isFinite(value)
+                          ? null
+                          : share(value);
+                      return (
+                        <td
+                          key={c}
+                          className="px-3 py-3 text-center min-w-[5.5rem]"
+                          style={{
+                            backgroundColor:
+                              t === null ? "rgb(229, 231, 235)" : heatColor(t),
+                            color:
+                              t !== null && (t < 0.15 || t > 0.75)
+                                ? "white"
+                                : "#1D3834",
+                            // Contour between cells on either side of the
+                            // hurdle
+                            borderRight:
+                              c + 1 < row.cells.length &&
+                              above !== clears(row.cells[c + 1][output])
+                                ? contour
+                                : undefined,
+                            borderBottom:
+                              r + 1 < rows.length &&
+                              above !== clears(rows[r + 1].cells[c][output])
+                                ? contour
+                                : undefined,
+                          }}
+                        >
+                          {formatMetric(value, unit)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-4 text-sm text-gray-600">
+            {values.filter(clears).length} of {values.length} combinations reach
+            a {modelOutputs[output].label} of at least{" "}
+            {formatMetric(hurdle, unit)}. Gray cells have no{" "}
+            {modelOutputs[output].label}. Results are from the last run; run the
+            heatmap again after changing inputs.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useMemo } from "react";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import { TaxEquityParameters } from "../types/taxEquity";
+import { calculateTaxEquity } from "../utils/taxEquity";
+import { formatIRR } from "../utils/irr";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "mt-1 block w-full p-2 text-base rounded-md border border-[#B2DFDB] focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatCurrency = (value: number) =>
+  `$${Math.round(value).toLocaleString()}`;
+
+// Rates and allocations are stored as decimals and edited as percentages
+const percentFields: {
+  key: Exclude<keyof TaxEquityParameters, "targetFlipYear">;
+  label: string;
+}[] = [
+  { key: "taxRate", label: "Tax Rate (%)" },
+  { key: "bonusDepreciationRate", label: "Bonus Depreciation (%)" },
+  { key: "targetInvestorIRR", label: "Target Investor IRR (%)" },
+  { key: "preFlipTaxAllocation", label: "Pre-Flip Tax Allocation (%)" },
+  { key: "preFlipCashAllocation", label: "Pre-Flip Cash Allocation (%)" },
+  { key: "postFlipAllocation", label: "Post-Flip Allocation (%)" },
+];
+
+export function TaxEquityAnalysis({
+  riskCategories,
+  systemParams,
+  financialParameters,
+  taxEquityParameters,
+  setTaxEquityParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  taxEquityParameters: TaxEquityParameters;
+  setTaxEquityParameters: (taxEquityParameters: TaxEquityParameters) => void;
+}) {
+  const result = useMemo(
+    () =>
+      calculateTaxEquity(
+        riskCategories,
+        systemParams,
+        financialParameters,
+        taxEquityParameters
+      ),
+    [riskCategories, systemParams, financialParameters, taxEquityParameters]
+  );
+
+  const metrics = [
+    {
+      label: "Investor Contribution",
+      value: formatCurrency(result.investorContribution),
+    },
+    {
+      label: "Depreciable Basis",
+      value: formatCurrency(result.depreciableBasis),
+    },
+    { label: "Sponsor IRR", value: formatIRR(result.sponsorIRR) },
+    {
+      label: "Portfolio Sponsor IRR",
+      value: formatIRR(result.portfolioSponsorIRR),
+    },
+    { label: "Investor IRR", value: formatIRR(result.investorIRR) },
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="tax-equity-tooltip"
+          trigger={<span>Tax Equity Partnership Flip ⓘ</span>}
+        >
+          The ITC or PTC and 5-year MACRS depreciation, on a basis reduced by
+          half of any ITC, are allocated to a tax equity investor until the flip
+          year and mostly to the sponsor after it. The investor&apos;s
+          contribution at COD is sized so that it reaches its target IRR in the
+          flip year. The sponsor funds DevEx and CapEx and keeps the lump-sum
+          state incentives, its share of project cash and its share of the tax
+          benefits.
+        </InfoTooltip>
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 items-end">
+        <div>
+          <label className="block text-sm font-medium text-[#1D3834]">
+            Target Flip Year
+          </label>
+          <input
+            type="number"
+            min="1"
+            className={inputClassName}
+            value={taxEquityParameters.targetFlipYear}
+            onChange={(e) =>
+              setTaxEquityParameters({
+                ...taxEquityParameters,
+                targetFlipYear: Math.max(1, parseInt(e.target.value) || 1),
+              })
+            }
+          />
+        </div>
+        {percentFields.map((field) => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-[#1D3834]">
+              {field.label}
+            </label>
+            <input
+              type="number"
+              className={inputClassName}
+              value={Number((taxEquityParameters[field.key] * 100).toFixed(4))}
+              onChange={(e) =>
+                setTaxEquityParameters({
+                  ...taxEquityParameters,
+                  [field.key]: Number(e.target.value) / 100,
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="bg-[#E0F2F1] p-4 rounded-md">
+            <div className="text-sm text-gray-600">{metric.label}</div>
+            <div className="text-lg font-bold text-[#1D3834]">
+              {metric.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-base">
+          <thead>
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-3 text-[#1D3834]">Operating Year</th>
+              <th className="px-3 py-3 text-[#1D3834]">Depreciation</th>
+              <th className="px-3 py-3 text-[#1D3834]">Taxable Income</th>
+              <th className="px-3 py-3 text-[#1D3834]">Tax Benefit</th>
+              <th className="px-3 py-3 text-[#1D3834]">Tax Credits</th>
+              <th className="px-3 py-3 text-[#1D3834]">Investor Share</th>
+              <th className="px-3 py-3 text-[#1D3834]">Investor Cash Flow</th>
+              <th className="px-3 py-3 text-[#1D3834]">Sponsor Cash Flow</th>
+              <th className="px-3 py-3 text-[#1D3834]">Investor IRR to Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.schedule.map((row) => (
+              <tr
+                key={row.operatingYear}
+                className={`border-b border-[#B2DFDB] ${
+                  row.operatingYear === result.flipYear ? "bg-[#F5F5F5]" : ""
+                }`}
+              >
+                <td className="px-3 py-3 font-medium text-[#1D3834]">
+                  {row.operatingYear}
+                  {row.operatingYear === result.flipYear && " (Flip)"}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.depreciation)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.taxableIncome)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.taxBenefit)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.taxCredits)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {Math.round(row.investorTaxAllocation * 100)}% tax /{" "}
+                  {Math.round(row.investorCashAllocation * 100)}% cash
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.investorFlow)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {formatCurrency(row.sponsorFlow)}
+                </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {row.investorCumulativeIRR === null
+                    ? "–"
+                    : formatPercent(row.investorCumulativeIRR)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-sm text-gray-600">
+        The investor contributes {formatCurrency(result.investorContribution)}{" "}
+        at COD and the allocations flip after operating year {result.flipYear}.
+        Sponsor returns replace the unlevered view of the tax credits as cash.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useMemo, useState } from "react";
+import { Bar } from "react-chartjs-2";
+import { TooltipItem } from "chart.js";
+import * as XLSX from "xlsx";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import { InputRange, ModelOutput, TornadoResult } from "../types/sensitivity";
+import { SystemParameters } from "../types/system";
+import { buildTornadoWorkbook } from "../utils/excelExport";
+import { formatMetric } from "../utils/metrics";
+import {
+  clampInputValue,
+  defaultInputRange,
+  formatInputValue,
+  listModelInputs,
+} from "../utils/modelInputs";
+import {
+  calculateTornado,
+  modelOutputs,
+  rankTornadoBars,
+  tornadoSwing,
+} from "../utils/sensitivity";
+import { Tooltip as InfoTooltip } from "./Tooltip";
+
+const inputClassName =
+  "w-full p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]";
+
+const buttonClassName =
+  "px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors disabled:opacity-50";
+
+const linkButtonClassName = "text-[#00695C] hover:text-[#1D3834] underline";
+
+// Rates are stored as decimals and edited as percentages
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+// How many of the largest swings the chart shows; 0 for all of them
+const barLimits = [10, 20, 0];
+
+export function TornadoAnalysis({
+  riskCategories,
+  systemParams,
+  financialParameters,
+}: {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}) {
+  const [output, setOutput] = useState<ModelOutput>("portfolioIRR");
+  const [barLimit, setBarLimit] = useState(10);
+  // Ranges the user has changed; the rest follow the current values
+  const [customRanges, setCustomRanges] = useState<Record<string, InputRange>>(
+    {}
+  );
+  const [result, setResult] = useState<TornadoResult | null>(null);
+
+  const inputs = useMemo(
+    () => ({ riskCategories, systemParams, financialParameters }),
+    [riskCategories, systemParams, financialParameters]
+  );
+  const modelInputs = useMemo(() => listModelInputs(inputs), [inputs]);
+  const ranges = Object.fromEntries(
+    modelInputs.map((input) => [
+      input.id,
+      customRanges[input.id] ?? defaultInputRange(input, inputs),
+    ])
+  );
+
+  const updateRange = (id: string, changes: Partial<InputRange>) =>
+    setCustomRanges({ ...customRanges, [id]: { ...ranges[id], ...changes } });
+
+  const runTornado = () =>
+    setResult(calculateTornado(inputs, modelInputs, ranges));
+
+  const downloadExcel = () => {
+    if (!result) return;
+    XLSX.writeFile(buildTornadoWorkbook(result, output), "tornado.xlsx");
+  };
+
+  const { unit } = modelOutputs[output];
+  const ranked = result ? rankTornadoBars(result.bars, output) : [];
+  // Inputs that don't move the output would only pad the chart
+  const moving = ranked.filter((bar) => tornadoSwing(bar, output) !== 0);
+  const charted = barLimit > 0 ? moving.slice(0, barLimit) : moving;
+  const base = result?.base[output] ?? null;
+  // After a run the table follows the ranking too
+  const rank = new Map(ranked.map((bar, i) => [bar.id, i]));
+  const rows = [...modelInputs].sort(
+    (a, b) =>
+      (rank.get(a.id) ?? ranked.length) - (rank.get(b.id) ?? ranked.length)
+  );
+
+  // Floating bars from the base case out to the output at each end
+  const chartData = {
+    labels: charted.map((bar) => bar.label),
+    datasets: [
+      {
+        label: "Low Value",
+        data: charted.map((bar) =>
+          base === null || bar.atLow[output] === null
+            ? null
+            : ([base, bar.atLow[output]] as [number, number])
+        ),
+        backgroundColor: "rgba(255, 99, 132, 0.7)",
+      },
+      {
+        label: "High Value",
+        data: charted.map((bar) =>
+          base === null || bar.atHigh[output] === null
+            ? null
+            : ([base, bar.atHigh[output]] as [number, number])
+        ),
+        backgroundColor: "rgba(29, 56, 52, 0.7)",
+      },
+    ],
+  };
+
+  const chartOptions = {
+    indexAxis: "y" as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    datasets: { bar: { grouped: false } },
+    scales: {
+      x: {
+        title: { display: true, text: modelOutputs[output].label },
+        ticks: {
+          callback: (value: number | string) =>
+            formatMetric(Number(value), unit),
+        },
+      },
+    },
+    plugins: {
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) => {
+            const bar = charted[context.dataIndex];
+            const atLow = context.datasetIndex === 0;
+            return `${formatInputValue(bar, atLow ? bar.low : bar.high)}: ${formatMetric(
+              atLow ? bar.atLow[output] : bar.atHigh[output],
+              unit
+            )}`;
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
+        <InfoTooltip
+          id="tornado-tooltip"
+          trigger={<span>Tornado Sensitivity ⓘ</span>}
+        >
+          Moves each input to its low and then its high value with every other
+          input held where it is, and ranks the inputs by how far the chosen
+          result swings between the two. Ranges start a fifth either side of the
+          current value and can be edited. The longest bars are the assumptions
+          that matter most.
+        </InfoTooltip>
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-4 items-center">
+        {(Object.keys(modelOutputs) as ModelOutput[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setOutput(key)}
+            className={`px-4 py-2 rounded-md ${
+              output === key
+                ? "bg-[#1D3834] text-white"
+                : "bg-[#B2DFDB] text-[#1D3834]"
+            }`}
+          >
+            {modelOutputs[key].label}
+          </button>
+        ))}
+        <button onClick={runTornado} className={buttonClassName}>
+          Run Tornado
+        </button>
+        {result && (
+          <button onClick={downloadExcel} className={buttonClassName}>
+            Download Excel
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <>
+          <div className="flex flex-wrap gap-4 mb-4 items-center text-sm text-gray-600">
+            <span>
+              Base case {modelOutputs[output].label}: {formatMetric(base, unit)}
+            </span>
+            <label className="flex items-center gap-2">
+              Show
+              <select
+                className="p-1 border border-[#B2DFDB] rounded-md"
+                value={barLimit}
+                onChange={(e) => setBarLimit(Number(e.target.value))}
+              >
+                {barLimits.map((limit) => (
+                  <option key={limit} value={limit}>
+                    {limit > 0 ? `Top ${limit}` : "All"}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {ranked.length > moving.length && (
+              <span>
+                {ranked.length - moving.length} inputs don&apos;t move the{" "}
+                {modelOutputs[output].label} and are left out of the chart.
+              </span>
+            )}
+          </div>
+
+          <div
+            style={{ height: `${Math.max(200, charted.length * 28 + 80)}px` }}
+          >
+            <Bar data={chartData} options={chartOptions} />
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between mt-6 mb-2">
+        <h3 className="text-lg font-semibold text-[#1D3834]">Input Ranges</h3>
+        {Object.keys(customRanges).length > 0 && (
+          <button
+            onClick={() => setCustomRanges({})}
+            className={linkButtonClassName}
+          >
+            Reset Ranges
+          </button>
+        )}
+      </div>
+      <div className="overflow-auto max-h-[480px]">
+        <table className="min-w-full text-sm">
+          <thead className="sticky top-0">
+            <tr className="bg-[#E0F2F1]">
+              <th className="px-3 py-2 text-left text-[#1D3834]">Input</th>
+              <th className="px-3 py-2 text-[#1D3834]">Low</th>
+              <th className="px-3 py-2 text-[#1D3834]">Current</th>
+              <th className="px-3 py-2 text-[#1D3834]">High</th>
+              {result &&
+                (Object.keys(modelOutputs) as ModelOutput[]).map((key) => (
+                  <th key={key} className="px-3 py-2 text-right text-[#1D3834]">
+                    {modelOutputs[key].label} Swing
+                  </th>
+                ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((input) => {
+              const percent = input.unit === "percent";
+              const bar = result?.bars.find((other) => other.id === input.id);
+              const rangeCell = (end: keyof InputRange) => (
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={percent ? input.min * 100 : input.min}
+                    step={input.integer ? 1 : "any"}
+                    aria-label={`${input.label} ${end}`}
+                    className={`${inputClassName} min-w-[6rem]`}
+                    value={
+                      percent
+                        ? toPercent(ranges[input.id][end])
+                        : ranges[input.id][end]
+                    }
+                    onChange={(e) =>
+                      updateRange(input.id, {
+                        [end]: clampInputValue(
+                          input,
+                          Number(e.target.value) / (percent ? 100 : 1)
+                        ),
+                      })
+                    }
+                  />
+                </td>
+              );
+              return (
+                <tr key={input.id} className="border-b border-[#B2DFDB]">
+                  <td className="px-3 py-2 font-medium text-[#1D3834]">
+                    {input.label}
+                  </td>
+                  {rangeCell("low")}
+                  <td className="px-3 py-2 text-center text-gray-600">
+                    {formatInputValue(input, input.value(inputs))}
+                  </td>
+                  {rangeCell("high")}
+                  {result &&
+                    (Object.keys(modelOutputs) as ModelOutput[]).map((key) => (
+                      <td
+                        key={key}
+                        className="px-3 py-2 text-right text-gray-600"
+                      >
+                        {bar
+                          ? formatMetric(
+                              tornadoSwing(bar, key),
+                              modelOutputs[key].unit
+                            )
+                          : "—"}
+                      </td>
+                    ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {result && (
+        <p className="mt-4 text-sm text-gray-600">
+          Swings are from the last run; run the tornado again after changing
+          inputs or ranges. Portfolio results are for an average pipeline
+          project, including those that fail before NTP.
+        </p>
+      )}
+    </div>
+  );
+}
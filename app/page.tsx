@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Bar, Line } from "react-chartjs-2";
 import {
   Chart as ChartJS,
@@ -17,17 +17,60 @@ import {
   TooltipItem,
 } from "chart.js";
 import annotationPlugin from "chartjs-plugin-annotation";
-import { RiskCategory } from "./types/risk";
+import { RiskCategory, RiskCorrelation } from "./types/risk";
 import { SystemParameters } from "./types/system";
 import { FinancialParameters } from "./types/financial";
+import { DebtParameters } from "./types/debt";
+import { TaxEquityParameters } from "./types/taxEquity";
+import { ModelState } from "./types/scenario";
 import {
+  ArchetypeInputs,
+  OriginationCohort,
+  ProjectArchetype,
+} from "./types/portfolio";
+import { ResultsView, SharedModelState } from "./types/permalink";
+import {
+  CashFlowResult,
   calculateCashFlows,
   calculateGoNoGoProbability,
+  calculateMilestoneSurvival,
   calculateCategoryIRR,
   calculateSensitivityIRR,
 } from "./utils/cashFlowCalculations";
+import { annualIndexOfMonth, formatMonth } from "./utils/timeline";
+import { calculateRealizedRate } from "./utils/revenue";
+import { CashFlowLedger, LedgerCategory } from "./types/ledger";
+import { sumLedgerCategory } from "./utils/ledger";
+import { IRRResult } from "./types/irr";
+import { calculateXIRR, formatIRR } from "./utils/irr";
+import { financialMetricRows, formatMetric } from "./utils/metrics";
+import { createPermalink, decodePermalink } from "./utils/permalink";
+import { buildModelWorkbook } from "./utils/excelExport";
+import { categoryColor, categoryFill } from "./utils/riskCategories";
+import {
+  removeFromCorrelations,
+  renameInCorrelations,
+} from "./utils/correlation";
 import * as XLSX from "xlsx";
 import { Tooltip as InfoTooltip } from "./components/Tooltip";
+import { MonteCarloAnalysis } from "./components/MonteCarloAnalysis";
+import { OpExEditor } from "./components/OpExEditor";
+import { FederalIncentivesEditor } from "./components/FederalIncentivesEditor";
+import { IncentivesEditor } from "./components/IncentivesEditor";
+import { RevenueEditor } from "./components/RevenueEditor";
+import { ProductionProfileImport } from "./components/ProductionProfileImport";
+import { DebtAnalysis } from "./components/DebtAnalysis";
+import { TaxEquityAnalysis } from "./components/TaxEquityAnalysis";
+import { ScenarioManager } from "./components/ScenarioManager";
+import { ExcelImport } from "./components/ExcelImport";
+import { ModelReport } from "./components/ModelReport";
+import { PortfolioEditor } from "./components/PortfolioEditor";
+import { OriginationPlan } from "./components/OriginationPlan";
+import { RiskCategoryEditor } from "./components/RiskCategoryEditor";
+import { RiskCorrelationEditor } from "./components/RiskCorrelationEditor";
+import { TornadoAnalysis } from "./components/TornadoAnalysis";
+import { SensitivityHeatmap } from "./components/SensitivityHeatmap";
+import { GoalSeek } from "./components/GoalSeek";
 
 // Register ChartJS components
 ChartJS.register(
@@ -64,9 +107,11 @@ const useMediaQuery = (query: string) => {
 function RiskCategories({
   riskCategories,
   setRiskCategories,
+  riskCorrelations,
 }: {
   riskCategories: RiskCategory[];
   setRiskCategories: (categories: RiskCategory[]) => void;
+  riskCorrelations: RiskCorrelation[];
   isMobile: boolean;
   activeTooltip: string | null;
   handleTooltipInteraction: (tooltipId: string) => void;
@@ -81,6 +126,37 @@ function RiskCategories({
     }
   };
 
+  // Only the order the categories are listed in; attrition follows when
+  // each gate is decided
+  const moveCategory = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= riskCategories.length) return;
+    const newCategories = [...riskCategories];
+    [newCategories[index], newCategories[target]] = [
+      newCategories[target],
+      newCategories[index],
+    ];
+    setRiskCategories(newCategories);
+  };
+
+  const milestoneSurvival = calculateMilestoneSurvival(
+    riskCategories,
+    riskCorrelations
+  );
+
+  const updateTiming = (
+    index: number,
+    field: "startOffsetMonths" | "durationMonths",
+    value: string
+  ) => {
+    const newCategories = [...riskCategories];
+    newCategories[index] = {
+      ...newCategories[index],
+      [field]: value === "" ? 0 : Math.max(0, parseInt(value) || 0),
+    };
+    setRiskCategories(newCategories);
+  };
+
   return (
     <div>
       <h2 className="text-xl font-semibold mb-4 text-[#1D3834]">
@@ -112,13 +188,56 @@ function RiskCategories({
                   projects that fail during development.
                 </InfoTooltip>
               </th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                <InfoTooltip
+                  id="milestone-reach-tooltip"
+                  trigger={<span>% Reaching ⓘ</span>}
+                >
+                  Share of the pipeline still active when this milestone
+                  starts, after every gate decided by then. Each gate is
+                  decided at the end of its milestone, so the share follows
+                  the start and duration columns rather than the order
+                  listed; the arrows only reorder the table.
+                </InfoTooltip>
+              </th>
+              <th className="px-3 py-3 text-[#1D3834]">
+                <InfoTooltip
+                  id="milestone-timing-tooltip"
+                  trigger={<span>Start / Duration (mo) ⓘ</span>}
+                >
+                  When each milestone&apos;s work starts, in months from the
+                  start of development, and how long it takes. DevEx is spent
+                  evenly over the duration and the go/no-go decision is made
+                  at the end. NTP is reached when the last milestone clears.
+                </InfoTooltip>
+              </th>
             </tr>
           </thead>
           <tbody>
             {riskCategories.map((category, index) => (
               <tr key={index} className="border-b border-[#B2DFDB]">
                 <td className="px-3 py-3 font-medium text-[#1D3834]">
-                  {category.name}
+                  <div className="flex items-center space-x-2">
+                    <div className="flex flex-col text-xs leading-none">
+                      <button
+                        aria-label={`Move ${category.name} up`}
+                        disabled={index === 0}
+                        onClick={() => moveCategory(index, -1)}
+                        className="text-[#00695C] disabled:text-gray-300"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        aria-label={`Move ${category.name} down`}
+                        disabled={index === riskCategories.length - 1}
+                        onClick={() => moveCategory(index, 1)}
+                        className="text-[#00695C] disabled:text-gray-300"
+                      >
+                        ▼
+                      </button>
+                    </div>
+                    <span>{category.name}</span>
+                  </div>
                 </td>
                 <td className="px-3 py-3">
                   <select
@@ -208,6 +327,33 @@ function RiskCategories({
                     max="15"
                   />
                 </td>
+                <td className="px-3 py-3 text-gray-600">
+                  {(milestoneSurvival[index] * 100).toFixed(1)}%
+                </td>
+                <td className="px-3 py-3">
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="0"
+                      aria-label={`${category.name} start month`}
+                      className="w-16 p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+                      value={category.startOffsetMonths}
+                      onChange={(e) =>
+                        updateTiming(index, "startOffsetMonths", e.target.value)
+                      }
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      aria-label={`${category.name} duration in months`}
+                      className="w-16 p-2 border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+                      value={category.durationMonths}
+                      onChange={(e) =>
+                        updateTiming(index, "durationMonths", e.target.value)
+                      }
+                    />
+                  </div>
+                </td>
               </tr>
             ))}
           </tbody>
@@ -217,121 +363,88 @@ function RiskCategories({
   );
 }
 
-// Update the IRR calculation functions
-function npv(cashFlows: number[], rate: number): number {
-  return cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, i), 0);
-}
-
-function npvDerivative(cashFlows: number[], rate: number): number {
-  return cashFlows.reduce(
-    (sum, cf, i) =>
-      i === 0 ? sum : sum - (i * cf) / Math.pow(1 + rate, i + 1),
-    0
-  );
-}
-
-function newtonRaphson(
-  f: (x: number) => number,
-  fPrime: (x: number) => number,
-  x0: number,
-  tolerance: number,
-  maxIterations: number
-): number {
-  let x = x0;
-
-  for (let i = 0; i < maxIterations; i++) {
-    const fx = f(x);
-    if (Math.abs(fx) < tolerance) {
-      return x;
-    }
-
-    const fPrimeX = fPrime(x);
-
-    // If derivative is zero or very small, try a different approach
-    if (Math.abs(fPrimeX) < 1e-10) {
-      // Try a small random perturbation
-      x = x + (Math.random() - 0.5) * 0.1;
-      continue;
-    }
-
-    const newX = x - fx / fPrimeX;
-
-    // If we're not making progress, try a different approach
-    if (Math.abs(newX - x) < tolerance || Math.abs(f(newX)) >= Math.abs(fx)) {
-      // Try bisection method as fallback
-      let a = -0.5;
-      let b = 0.5;
-      const fa = f(a);
-
-      for (let j = 0; j < 50; j++) {
-        const c = (a + b) / 2;
-        const fc = f(c);
-
-        if (Math.abs(fc) < tolerance) {
-          return c;
-        }
-
-        if (fa * fc < 0) {
-          b = c;
-        } else {
-          a = c;
-        }
-      }
-
-      return (a + b) / 2;
-    }
+// Colors of the ledger lines shown in the cash flow chart
+const lineColors: Record<
+  string,
+  { backgroundColor: string; borderColor: string }
+> = {
+  devEx: {
+    backgroundColor: "rgba(220, 80, 100, 0.7)", // Darker red with green undertone
+    borderColor: "rgb(200, 60, 80)",
+  },
+  capEx: {
+    backgroundColor: "rgba(45, 145, 190, 0.7)", // Deeper blue with green undertone
+    borderColor: "rgb(35, 125, 170)",
+  },
+  revenue: {
+    backgroundColor: "rgba(130, 90, 190, 0.7)", // Deeper purple with green undertone
+    borderColor: "rgb(110, 70, 170)",
+  },
+  itc: {
+    backgroundColor: "rgba(225, 140, 50, 0.7)", // Deeper orange with green undertone
+    borderColor: "rgb(205, 120, 30)",
+  },
+  ptc: {
+    backgroundColor: "rgba(235, 185, 70, 0.7)", // Amber, beside the ITC orange
+    borderColor: "rgb(215, 165, 50)",
+  },
+};
 
-    x = newX;
-  }
+// Categories with a line per item are drawn in shades of one color
+const categoryShades: Partial<Record<LedgerCategory, string[]>> = {
+  // Shades of the original OpEx teal
+  operatingCost: [
+    "65, 170, 160",
+    "40, 130, 125",
+    "110, 195, 185",
+    "25, 100, 95",
+    "150, 210, 200",
+    "85, 150, 140",
+  ],
+  // Shades of the original NY Sun green
+  stateIncentive: [
+    "80, 160, 120",
+    "50, 125, 90",
+    "120, 190, 150",
+    "35, 100, 70",
+    "160, 215, 180",
+  ],
+};
 
-  // If we've reached max iterations, return the best guess
-  return x;
+function ledgerDatasets(ledger: CashFlowLedger, expected: boolean, scale = 1) {
+  return ledger.lines.map((line) => {
+    const shades = categoryShades[line.category];
+    const shadeIndex = ledger.lines
+      .filter((other) => other.category === line.category)
+      .indexOf(line);
+    const rgb = shades?.[shadeIndex % shades.length];
+    const colors = rgb
+      ? { backgroundColor: `rgba(${rgb}, 0.7)`, borderColor: `rgb(${rgb})` }
+      : lineColors[line.id];
+    return {
+      label: line.label,
+      data: (expected ? line.expectedValues : line.values).map(
+        (value) => value * scale
+      ),
+      ...colors,
+      borderWidth: 1,
+    };
+  });
 }
 
-// Update the calculateIRR function
-const calculateIRR = (cashFlows: number[]): number => {
-  // Check if all cash flows are zero
-  if (cashFlows.every((cf) => cf === 0)) {
-    return 0;
-  }
-
-  // Check if all cash flows are positive or all are negative
-  const allPositive = cashFlows.every((cf) => cf >= 0);
-  const allNegative = cashFlows.every((cf) => cf <= 0);
-  if (allPositive || allNegative) {
-    return 0;
-  }
-
-  try {
-    return newtonRaphson(
-      (r) => npv(cashFlows, r),
-      (r) => npvDerivative(cashFlows, r),
-      0.1, // Initial guess
-      0.00001, // Tolerance
-      1000 // Max iterations
-    );
-  } catch (error) {
-    console.log("Newton-Raphson method failed:", error);
-    // If Newton-Raphson fails, try a simpler approach
-    const minRate = -0.5;
-    const maxRate = 0.5;
-    let bestRate = 0;
-    let bestNpv = Infinity;
-
-    // Try 100 different rates
-    for (let i = 0; i < 100; i++) {
-      const rate = minRate + ((maxRate - minRate) * i) / 99;
-      const npvValue = Math.abs(npv(cashFlows, rate));
-
-      if (npvValue < bestNpv) {
-        bestNpv = npvValue;
-        bestRate = rate;
-      }
-    }
-
-    return bestRate;
-  }
-};
+// Explains an IRR that is missing or not unique
+function IRRNotes({ irr }: { irr: IRRResult }) {
+  if (irr.status === "unique") return null;
+  return (
+    <div className="text-xs text-gray-600">
+      {irr.status === "none"
+        ? irr.signChanges === 0
+          ? "Cash flows never change sign"
+          : "NPV never reaches zero"
+        : `${irr.signChanges} sign changes, ${irr.roots.length} IRRs`}
+    </div>
+  );
+}
 
 function SplitRiskGraph({
   riskCategories,
@@ -349,7 +462,7 @@ function SplitRiskGraph({
       categoryName: string,
       riskLevel: "Low" | "High",
       approvalRisk: number
-    ): number => {
+    ): number | null => {
       return calculateCategoryIRR(
         categoryName,
         riskLevel,
@@ -364,22 +477,30 @@ function SplitRiskGraph({
 
   const approvalRisks = Array.from({ length: 16 }, (_, i) => i);
 
-  const allIRRs = riskCategories.flatMap((category) =>
-    approvalRisks.flatMap((risk) => [
-      calculateCategoryIRRCallback(category.name, "Low", risk) * 100,
-      calculateCategoryIRRCallback(category.name, "High", risk) * 100,
-    ])
-  );
+  // Portfolio IRR (%) for each category at every approval risk, computed once
+  // per input change since each point runs the full dated cash flow model.
+  // Points without an IRR are left as gaps.
+  const categoryIRRs = useMemo(() => {
+    const toPercent = (irr: number | null) => (irr === null ? null : irr * 100);
+    return riskCategories.map((category) => ({
+      Low: Array.from({ length: 16 }, (_, risk) =>
+        toPercent(calculateCategoryIRRCallback(category.name, "Low", risk))
+      ),
+      High: Array.from({ length: 16 }, (_, risk) =>
+        toPercent(calculateCategoryIRRCallback(category.name, "High", risk))
+      ),
+    }));
+  }, [riskCategories, calculateCategoryIRRCallback]);
+
+  const allIRRs = categoryIRRs
+    .flatMap((irrs) => [...irrs.Low, ...irrs.High])
+    .filter((irr): irr is number => irr !== null);
   const minIRR = Math.floor(Math.min(...allIRRs));
   const maxIRR = Math.ceil(Math.max(...allIRRs));
 
-  const categoryColors: Record<string, string> = {
-    "Site Control": "rgb(255, 99, 132)",
-    Permitting: "rgb(54, 162, 235)",
-    Interconnection: "rgb(75, 192, 192)",
-    Design: "rgb(153, 102, 255)",
-    Environmental: "rgb(255, 159, 64)",
-  };
+  // Up to five charts a row, with the IRR axis on the first of each row
+  const columns = Math.min(5, riskCategories.length);
+  const showsAxis = (index: number) => isMobile || index % columns === 0;
 
   const getChartOptions = (index: number) => ({
     responsive: true,
@@ -408,12 +529,12 @@ function SplitRiskGraph({
         beginAtZero: false,
         position: "left" as const,
         title: {
-          display: isMobile || index === 0,
+          display: showsAxis(index),
           text: "Portfolio IRR (%)",
           font: { size: 10 },
         },
         ticks: {
-          display: isMobile || index === 0,
+          display: showsAxis(index),
           font: { size: 10 },
           stepSize: 1,
         },
@@ -425,7 +546,7 @@ function SplitRiskGraph({
           drawTicks: false,
         },
         border: {
-          display: index === 0,
+          display: showsAxis(index),
           dash: [0],
         },
       },
@@ -450,7 +571,7 @@ function SplitRiskGraph({
     },
     layout: {
       padding: {
-        left: index === 0 ? 10 : 0,
+        left: showsAxis(index) ? 10 : 0,
         right: 10,
       },
     },
@@ -472,37 +593,30 @@ function SplitRiskGraph({
         </div>
       </div>
       <div
-        className={`grid ${
-          isMobile ? "grid-cols-1 gap-8" : "grid-cols-5 gap-0"
-        }`}
+        className={`grid ${isMobile ? "grid-cols-1 gap-8" : "gap-y-8"}`}
+        style={
+          isMobile
+            ? undefined
+            : { gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }
+        }
       >
         {riskCategories.map((category, index) => {
-          const color = categoryColors[category.name] || "rgb(201, 203, 207)";
+          const color = categoryColor(index);
 
           const categoryData = {
             labels: approvalRisks,
             datasets: [
               {
                 label: `${category.name} (Low Risk)`,
-                data: approvalRisks.map(
-                  (risk) =>
-                    calculateCategoryIRRCallback(category.name, "Low", risk) *
-                    100
-                ),
+                data: categoryIRRs[index].Low,
                 borderColor: color,
-                backgroundColor: color
-                  .replace("rgb", "rgba")
-                  .replace(")", ", 0.2)"),
+                backgroundColor: categoryFill(index, 0.2),
                 fill: "+1",
                 tension: 0.4,
               },
               {
                 label: `${category.name} (High Risk)`,
-                data: approvalRisks.map(
-                  (risk) =>
-                    calculateCategoryIRRCallback(category.name, "High", risk) *
-                    100
-                ),
+                data: categoryIRRs[index].High,
                 borderColor: color,
                 borderDash: [5, 5],
                 backgroundColor: "transparent",
@@ -517,7 +631,7 @@ function SplitRiskGraph({
               key={category.name}
               className={`h-[300px] relative ${isMobile ? "w-full" : ""}`}
             >
-              {index > 0 && !isMobile && (
+              {!showsAxis(index) && (
                 <div
                   className="absolute inset-y-0 left-0 w-px bg-gray-200"
                   style={{ left: "-1px", zIndex: 10 }}
@@ -537,20 +651,28 @@ function SplitRiskGraph({
   );
 }
 
-// Sensitivity Analysis Component
+// Sensitivity Analysis Component. Passing a category fixes the grid to it,
+// as in the printed report.
 function SensitivityAnalysis({
   riskCategories,
   systemParams,
   financialParameters,
+  category,
 }: {
   riskCategories: RiskCategory[];
   systemParams: SystemParameters;
   financialParameters: FinancialParameters;
+  category?: string;
 }) {
-  const [selectedCategory, setSelectedCategory] =
-    useState<string>("Site Control");
+  const [chosenCategory, setChosenCategory] = useState<string>("Site Control");
+  // Falls back to the first category once the chosen one is renamed or removed
+  const selectedCategory =
+    category ??
+    (riskCategories.some((riskCategory) => riskCategory.name === chosenCategory)
+      ? chosenCategory
+      : (riskCategories[0]?.name ?? ""));
   const [sensitivityData, setSensitivityData] = useState<{
-    [key: string]: { [key: string]: number };
+    [key: string]: { [key: string]: number | null };
   }>({});
 
   // Remove the local calculateSensitivityIRR function and update the useEffect
@@ -558,7 +680,7 @@ function SensitivityAnalysis({
     const approvalRisks = [0, 5, 10, 15];
     const riskLevels = ["Low", "High"] as const;
     const newData: {
-      [key: string]: { [key: string]: number };
+      [key: string]: { [key: string]: number | null };
     } = {};
 
     riskLevels.forEach((riskLevel) => {
@@ -581,24 +703,26 @@ function SensitivityAnalysis({
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
       <h2 className="text-2xl font-bold mb-4 text-[#1D3834]">
-        Sensitivity Analysis
+        Sensitivity Analysis{category && `: ${category}`}
       </h2>
-      <div className="mb-4">
-        <label className="block text-lg font-medium text-[#1D3834] mb-2">
-          Select Risk Category
-        </label>
-        <select
-          className="w-full p-3 text-lg border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]"
-          value={selectedCategory}
-          onChange={(e) => setSelectedCategory(e.target.value)}
-        >
-          {riskCategories.map((category) => (
-            <option key={category.name} value={category.name}>
-              {category.name}
-            </option>
-          ))}
-        </select>
-      </div>
+      {!category && (
+        <div className="mb-4">
+          <label className="block text-lg font-medium text-[#1D3834] mb-2">
+            Select Risk Category
+          </label>
+          <select
+            className="w-full p-3 text-lg border border-[#B2DFDB] rounded-md focus:outline-none focus:ring-2 focus:ring-[#00695C]"
+            value={selectedCategory}
+            onChange={(e) => setChosenCategory(e.target.value)}
+          >
+            {riskCategories.map((riskCategory) => (
+              <option key={riskCategory.name} value={riskCategory.name}>
+                {riskCategory.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
 
       <div className="overflow-x-auto">
         <table className="w-1/2 mx-auto text-lg">
@@ -619,8 +743,8 @@ function SensitivityAnalysis({
                 </td>
                 {[0, 5, 10, 15].map((approvalRisk) => {
                   const irrValue = data[approvalRisk];
-                  const isLowIrr = irrValue < 0.1; // 10% threshold
-                  const isHighIrr = irrValue >= 0.1; // 10% threshold
+                  const isLowIrr = irrValue === null || irrValue < 0.1; // 10% threshold
+                  const isHighIrr = irrValue !== null && irrValue >= 0.1; // 10% threshold
 
                   return (
                     <td
@@ -633,7 +757,9 @@ function SensitivityAnalysis({
                           : "text-gray-600"
                       }`}
                     >
-                      {(irrValue * 100).toFixed(2)}%
+                      {irrValue === null
+                        ? "No IRR"
+                        : `${(irrValue * 100).toFixed(2)}%`}
                     </td>
                   );
                 })}
@@ -676,6 +802,8 @@ export default function Home() {
       capExIncreaseLow: 0,
       capExIncreaseHigh: 0,
       worstCaseScenario: 0.3,
+      startOffsetMonths: 0,
+      durationMonths: 3,
     },
     {
       name: "Permitting",
@@ -689,6 +817,8 @@ export default function Home() {
       capExIncreaseLow: 0,
       capExIncreaseHigh: 0,
       worstCaseScenario: 0.3,
+      startOffsetMonths: 3,
+      durationMonths: 9,
     },
     {
       name: "Interconnection",
@@ -702,19 +832,8 @@ export default function Home() {
       capExIncreaseLow: 250000,
       capExIncreaseHigh: 2000000,
       worstCaseScenario: 0.75,
-    },
-    {
-      name: "Design",
-      riskLevel: "Low",
-      devEx: 44500,
-      capExIncrease: 150000,
-      approvalRisk: 2,
-      goNoGoProbability: calculateGoNoGoProbability(2, 0.9),
-      devExLow: 44500,
-      devExHigh: 52500,
-      capExIncreaseLow: 150000,
-      capExIncreaseHigh: 2000000,
-      worstCaseScenario: 0.9,
+      startOffsetMonths: 3,
+      durationMonths: 24,
     },
     {
       name: "Environmental",
@@ -728,504 +847,448 @@ export default function Home() {
       capExIncreaseLow: 0,
       capExIncreaseHigh: 250000,
       worstCaseScenario: 0.5,
+      startOffsetMonths: 6,
+      durationMonths: 9,
+    },
+    {
+      name: "Design",
+      riskLevel: "Low",
+      devEx: 44500,
+      capExIncrease: 150000,
+      approvalRisk: 2,
+      goNoGoProbability: calculateGoNoGoProbability(2, 0.9),
+      devExLow: 44500,
+      devExHigh: 52500,
+      capExIncreaseLow: 150000,
+      capExIncreaseHigh: 2000000,
+      worstCaseScenario: 0.9,
+      startOffsetMonths: 21,
+      durationMonths: 6,
     },
   ]);
 
   // System Parameters
   const [systemParams, setSystemParams] = useState<SystemParameters>({
     capacityFactor: 14,
+    productionProfile: null,
     systemSize: 3,
     acSystemSize: 2.4,
+    siteAcres: 25,
     projectLength: 25,
     degradationRate: 0.005,
     pipelineSize: 10, // Fixed value, not user input
+    developmentStartDate: "2026-01",
+    constructionMonths: 9,
+    timelineResolution: "monthly",
+    riskCorrelations: [],
   });
 
   // Financial Parameters
   const [financialParameters, setFinancialParameters] =
     useState<FinancialParameters>({
       baseCaseCapExPerMW: 1700000, // $1.7/Watt * 1000000
-      baseOpExPerMW: 22500,
-      itcRate: 0.3,
-      nySunIncentivePerWatt: 0.17,
-      electricityRate: 140,
-      priceEscalation: 0.02,
+      opExLineItems: [
+        {
+          id: "lease",
+          name: "Land Lease",
+          category: "landLease",
+          basis: "perAcre",
+          amount: 1500,
+          escalationRate: 0.02,
+        },
+        {
+          id: "subscriber-management",
+          name: "Subscriber Management",
+          category: "subscriberManagement",
+          basis: "percentOfRevenue",
+          amount: 0.06,
+          escalationRate: 0,
+        },
+        {
+          id: "o-and-m",
+          name: "O&M",
+          category: "operationsAndMaintenance",
+          basis: "perMW",
+          amount: 5000,
+          escalationRate: 0.02,
+        },
+        {
+          id: "insurance",
+          name: "Insurance",
+          category: "insurance",
+          basis: "perMW",
+          amount: 2500,
+          escalationRate: 0.02,
+        },
+        {
+          id: "property-tax",
+          name: "Property Tax / PILOT",
+          category: "propertyTax",
+          basis: "perMW",
+          amount: 3000,
+          escalationRate: 0.02,
+        },
+        {
+          id: "asset-management",
+          name: "Asset Management",
+          category: "assetManagement",
+          basis: "fixed",
+          amount: 5000,
+          escalationRate: 0.02,
+        },
+      ],
+      federalIncentives: {
+        baseITCRate: 0.3,
+        prevailingWageProbability: 1,
+        adders: [
+          {
+            id: "energy-community",
+            name: "Energy Community",
+            rate: 0.1,
+            qualificationProbability: 0.5,
+            scalesWithPrevailingWage: true,
+            appliesToPTC: true,
+          },
+          {
+            id: "domestic-content",
+            name: "Domestic Content",
+            rate: 0.1,
+            qualificationProbability: 0.25,
+            scalesWithPrevailingWage: true,
+            appliesToPTC: true,
+          },
+          {
+            id: "low-income",
+            name: "Low-Income Communities (48(e))",
+            rate: 0.2,
+            qualificationProbability: 0.3,
+            scalesWithPrevailingWage: false,
+            appliesToPTC: false,
+          },
+        ],
+        election: "best",
+        ptcRatePerMWh: 30,
+        ptcEscalation: 0.02,
+        ptcTermYears: 10,
+        transfer: {
+          enabled: false,
+          pricePerDollar: 0.92,
+          delayMonths: 6,
+        },
+      },
+      incentives: [
+        {
+          id: "ny-sun",
+          name: "NY-Sun",
+          state: "NY",
+          type: "upfront",
+          ratePerWatt: 0.17,
+          capacityBasis: "dc",
+          payments: [{ milestone: "ntp", share: 1, delayMonths: 0 }],
+        },
+      ],
+      discountRate: 0.08,
+      financeRate: 0.065,
+      reinvestmentRate: 0.08,
+      revenue: {
+        billCreditMethod: "fixedRate",
+        fixedRatePerMWh: 160,
+        fixedRateEscalation: 0.02,
+        valueStack: [
+          {
+            id: "energy",
+            name: "Energy (LBMP)",
+            ratePerMWh: 40,
+            escalationRate: 0.02,
+          },
+          {
+            id: "capacity",
+            name: "Capacity (ICAP)",
+            ratePerMWh: 8,
+            escalationRate: 0.02,
+          },
+          {
+            id: "environmental",
+            name: "Environmental (E)",
+            ratePerMWh: 30,
+            escalationRate: 0,
+            termYears: 25,
+          },
+          {
+            id: "drv",
+            name: "Demand Reduction (DRV)",
+            ratePerMWh: 20,
+            escalationRate: 0,
+            termYears: 10,
+          },
+          {
+            id: "community-credit",
+            name: "Community Credit",
+            ratePerMWh: 30,
+            escalationRate: 0,
+            termYears: 25,
+          },
+        ],
+        timeOfUsePeriods: [],
+        subscribers: [
+          {
+            id: "anchor",
+            name: "Anchor",
+            share: 0.4,
+            discount: 0.15,
+            contractTermYears: 20,
+            renewalDiscount: 0.15,
+          },
+          {
+            id: "residential",
+            name: "Residential",
+            share: 0.6,
+            discount: 0.1,
+            contractTermYears: 1,
+            renewalDiscount: 0.1,
+          },
+        ],
+        creditToCashRate: 0.97,
+      },
+    });
+
+  // Project finance debt, applied on top of the unlevered cash flows
+  const [debtParameters, setDebtParameters] = useState<DebtParameters>({
+    sizingMethod: "lesserOf",
+    targetDSCR: 1.3,
+    maxLeverage: 0.7,
+    interestRate: 0.065,
+    tenorYears: 18,
+    amortization: "sculpted",
+    upfrontFeeRate: 0.015,
+    constructionLoanRate: 0.07,
+    constructionAdvanceRate: 0.8,
+  });
+
+  // Tax equity partnership flip, applied on top of the unlevered cash flows
+  const [taxEquityParameters, setTaxEquityParameters] =
+    useState<TaxEquityParameters>({
+      taxRate: 0.26,
+      bonusDepreciationRate: 0,
+      targetFlipYear: 7,
+      targetInvestorIRR: 0.075,
+      preFlipTaxAllocation: 0.99,
+      preFlipCashAllocation: 0.25,
+      postFlipAllocation: 0.05,
     });
 
-  const [cashFlows, setCashFlows] = useState<number[]>([]);
-  const [expectedCashFlows, setExpectedCashFlows] = useState<number[]>([]);
+  // Project archetypes making up a heterogeneous pipeline, and cohorts
+  // originating projects over time
+  const [archetypes, setArchetypes] = useState<ProjectArchetype[]>([]);
+  const [cohorts, setCohorts] = useState<OriginationCohort[]>([]);
+
+  // Every input, for saving and loading scenarios
+  const modelState = useMemo<ModelState>(
+    () => ({
+      riskCategories,
+      systemParams,
+      financialParameters,
+      debtParameters,
+      taxEquityParameters,
+      archetypes,
+      cohorts,
+    }),
+    [
+      riskCategories,
+      systemParams,
+      financialParameters,
+      debtParameters,
+      taxEquityParameters,
+      archetypes,
+      cohorts,
+    ]
+  );
+
+  const archetypeInputs = useMemo<ArchetypeInputs>(
+    () => ({ riskCategories, systemParams, financialParameters }),
+    [riskCategories, systemParams, financialParameters]
+  );
 
-  // Add this state for chart view toggle
-  const [view, setView] = useState<"individual" | "portfolio">("individual");
+  // Named after the last scenario loaded, for the printed report
+  const [scenarioName, setScenarioName] = useState("Base Case");
+
+  const loadModelState = (state: ModelState, name: string) => {
+    setRiskCategories(state.riskCategories);
+    setSystemParams(state.systemParams);
+    setFinancialParameters(state.financialParameters);
+    setDebtParameters(state.debtParameters);
+    setTaxEquityParameters(state.taxEquityParameters);
+    setArchetypes(state.archetypes);
+    setCohorts(state.cohorts);
+    setScenarioName(name);
+  };
 
-  // Calculate IRR for successful projects and portfolio
-  const [successfulProjectIRR, setSuccessfulProjectIRR] = useState<number>(0);
-  const [portfolioIRR, setPortfolioIRR] = useState<number>(0);
+  // Add this state for chart view toggle
+  const [view, setView] = useState<ResultsView>("individual");
 
-  // Add this with the other state declarations at the top of the component
-  const [projectsReachingNTP, setProjectsReachingNTP] = useState<number>(0);
+  // Shared links restore every input and the view
+  const sharedState = useMemo<SharedModelState>(
+    () => ({ ...modelState, view }),
+    [modelState, view]
+  );
+  const defaultState = useRef(sharedState);
+  const [permalinkError, setPermalinkError] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
 
-  // Update IRR calculations when cash flows change
   useEffect(() => {
-    if (cashFlows.length > 0) {
-      setSuccessfulProjectIRR(calculateIRR(cashFlows));
-    }
-    if (expectedCashFlows.length > 0) {
-      setPortfolioIRR(calculateIRR(expectedCashFlows));
+    decodePermalink(window.location.hash, defaultState.current)
+      .then((state) => {
+        if (!state) return;
+        setRiskCategories(state.riskCategories);
+        setSystemParams(state.systemParams);
+        setFinancialParameters(state.financialParameters);
+        setDebtParameters(state.debtParameters);
+        setTaxEquityParameters(state.taxEquityParameters);
+        setArchetypes(state.archetypes);
+        setCohorts(state.cohorts);
+        setView(state.view);
+        // The inputs can now be edited, so stop showing a link to the old ones
+        window.history.replaceState(
+          null,
+          "",
+          window.location.pathname + window.location.search
+        );
+      })
+      .catch((err) =>
+        setPermalinkError(err instanceof Error ? err.message : String(err))
+      );
+  }, []);
+
+  const copyPermalink = async () => {
+    const url = await createPermalink(sharedState);
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus("Link copied");
+    } catch {
+      // Without clipboard access, leave the link in the address bar to copy
+      window.history.replaceState(null, "", url);
+      setShareStatus("Copy the link from the address bar");
     }
-  }, [cashFlows, expectedCashFlows, riskCategories, systemParams.pipelineSize]);
+  };
+
+  // Results of the cash flow model for the current inputs
+  const [cashFlowResult, setCashFlowResult] = useState<CashFlowResult>(() =>
+    calculateCashFlows(riskCategories, systemParams, financialParameters)
+  );
 
   // Update the cash flow calculation to use the imported function
   const calculateCashFlowsCallback = useCallback(() => {
-    const {
-      flows,
-      expectedFlows,
-      successfulProjectIRR,
-      portfolioIRR,
-      projectsReachingNTP,
-    } = calculateCashFlows(riskCategories, systemParams, financialParameters);
-    setCashFlows(flows);
-    setExpectedCashFlows(expectedFlows);
-    setSuccessfulProjectIRR(successfulProjectIRR);
-    setPortfolioIRR(portfolioIRR);
-    setProjectsReachingNTP(projectsReachingNTP);
+    setCashFlowResult(
+      calculateCashFlows(riskCategories, systemParams, financialParameters)
+    );
   }, [riskCategories, systemParams, financialParameters]);
 
   useEffect(() => {
     calculateCashFlowsCallback();
   }, [calculateCashFlowsCallback]);
 
-  // Update the chart data to use the project length
+  const {
+    projectMetrics,
+    portfolioMetrics,
+    projectsReachingNTP,
+    expectedDevEx,
+    expectedSunkCost,
+    milestones,
+    federalCredits,
+    years,
+    ledger,
+  } = cashFlowResult;
+
+  // Calendar years in which the project reaches NTP and COD
+  const ntpYearIndex = annualIndexOfMonth(
+    milestones.startDate,
+    milestones.ntpMonth
+  );
+  const codYearIndex = annualIndexOfMonth(
+    milestones.startDate,
+    milestones.codMonth
+  );
+  const yearTickLabel = (index: number): string | string[] => {
+    const label = `${years[index]}`;
+    const markers = [
+      index === ntpYearIndex ? "NTP" : null,
+      index === codYearIndex ? "COD" : null,
+    ].filter(Boolean);
+    return markers.length > 0 ? [label, `(${markers.join(", ")})`] : label;
+  };
+
+  // Charts, the cash flow table and the Excel export all render the
+  // engine's calendar-year ledger
   const chartData = {
     individual: {
-      labels: Array(systemParams.projectLength + 2)
-        .fill(0)
-        .map((_, i) => `Year ${i}`),
-      datasets: [
-        {
-          label: "DevEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) =>
-              i === 0
-                ? -riskCategories.reduce((sum, cat) => sum + cat.devEx, 0)
-                : 0
-            ),
-          backgroundColor: "rgba(220, 80, 100, 0.7)", // Darker red with green undertone
-          borderColor: "rgb(200, 60, 80)",
-          borderWidth: 1,
-        },
-        {
-          label: "CapEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) =>
-              i === 1
-                ? -(
-                    financialParameters.baseCaseCapExPerMW *
-                      systemParams.systemSize +
-                    riskCategories.reduce(
-                      (sum, cat) => sum + cat.capExIncrease,
-                      0
-                    )
-                  )
-                : 0
-            ),
-          backgroundColor: "rgba(45, 145, 190, 0.7)", // Deeper blue with green undertone
-          borderColor: "rgb(35, 125, 170)",
-          borderWidth: 1,
-        },
-        {
-          label: "OpEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) =>
-              i > 1
-                ? -(
-                    financialParameters.baseOpExPerMW *
-                    systemParams.systemSize *
-                    Math.pow(1 + financialParameters.priceEscalation, i - 2)
-                  )
-                : 0
-            ),
-          backgroundColor: "rgba(65, 170, 160, 0.7)", // Teal with more green
-          borderColor: "rgb(55, 150, 140)",
-          borderWidth: 1,
-        },
-        {
-          label: "Revenue",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              if (i <= 1) return 0;
-              const degradationFactor =
-                i === 2 ? 1 : 1 - systemParams.degradationRate * (i - 2);
-              const generation =
-                systemParams.systemSize *
-                (systemParams.capacityFactor / 100) *
-                24 *
-                365 *
-                degradationFactor;
-              const escalatedRate =
-                financialParameters.electricityRate *
-                Math.pow(1 + financialParameters.priceEscalation, i - 2);
-              return generation * escalatedRate;
-            }),
-          backgroundColor: "rgba(130, 90, 190, 0.7)", // Deeper purple with green undertone
-          borderColor: "rgb(110, 70, 170)",
-          borderWidth: 1,
-        },
-        {
-          label: "ITC",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) =>
-              i === 2
-                ? (financialParameters.baseCaseCapExPerMW *
-                    systemParams.systemSize +
-                    riskCategories.reduce(
-                      (sum, cat) => sum + cat.capExIncrease,
-                      0
-                    )) *
-                  financialParameters.itcRate
-                : 0
-            ),
-          backgroundColor: "rgba(225, 140, 50, 0.7)", // Deeper orange with green undertone
-          borderColor: "rgb(205, 120, 30)",
-          borderWidth: 1,
-        },
-        {
-          label: "NY Sun",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) =>
-              i === 1
-                ? systemParams.systemSize *
-                  1000000 *
-                  financialParameters.nySunIncentivePerWatt
-                : 0
-            ),
-          backgroundColor: "rgba(80, 160, 120, 0.7)", // Professional green
-          borderColor: "rgb(60, 140, 100)",
-          borderWidth: 1,
-        },
-      ],
+      labels: ledger.periods,
+      datasets: ledgerDatasets(ledger, false),
     },
     portfolio: {
-      labels: Array(systemParams.projectLength + 2)
-        .fill(0)
-        .map((_, i) => `Year ${i}`),
-      datasets: [
-        {
-          label: "DevEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-              return i === 0
-                ? -riskCategories.reduce((sum, cat) => sum + cat.devEx, 0) *
-                    cumulativeProbability *
-                    systemParams.pipelineSize
-                : 0;
-            }),
-          backgroundColor: "rgba(220, 80, 100, 0.7)",
-          borderColor: "rgb(200, 60, 80)",
-          borderWidth: 1,
-        },
-        {
-          label: "CapEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-              return i === 1
-                ? -(
-                    financialParameters.baseCaseCapExPerMW *
-                      systemParams.systemSize +
-                    riskCategories.reduce(
-                      (sum, cat) => sum + cat.capExIncrease,
-                      0
-                    )
-                  ) *
-                    cumulativeProbability *
-                    systemParams.pipelineSize
-                : 0;
-            }),
-          backgroundColor: "rgba(45, 145, 190, 0.7)",
-          borderColor: "rgb(35, 125, 170)",
-          borderWidth: 1,
-        },
-        {
-          label: "OpEx",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-              return i > 1
-                ? -(
-                    financialParameters.baseOpExPerMW *
-                    systemParams.systemSize *
-                    Math.pow(1 + financialParameters.priceEscalation, i - 2)
-                  ) *
-                    cumulativeProbability *
-                    systemParams.pipelineSize
-                : 0;
-            }),
-          backgroundColor: "rgba(65, 170, 160, 0.7)",
-          borderColor: "rgb(55, 150, 140)",
-          borderWidth: 1,
-        },
-        {
-          label: "Revenue",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              if (i <= 1) return 0;
-
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-
-              const degradationFactor =
-                i === 2 ? 1 : 1 - systemParams.degradationRate * (i - 2);
-              const generation =
-                systemParams.systemSize *
-                (systemParams.capacityFactor / 100) *
-                24 *
-                365 *
-                degradationFactor;
-              const escalatedRate =
-                financialParameters.electricityRate *
-                Math.pow(1 + financialParameters.priceEscalation, i - 2);
-
-              return (
-                generation *
-                escalatedRate *
-                cumulativeProbability *
-                systemParams.pipelineSize
-              );
-            }),
-          backgroundColor: "rgba(130, 90, 190, 0.7)",
-          borderColor: "rgb(110, 70, 170)",
-          borderWidth: 1,
-        },
-        {
-          label: "ITC",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-              return i === 2
-                ? (financialParameters.baseCaseCapExPerMW *
-                    systemParams.systemSize +
-                    riskCategories.reduce(
-                      (sum, cat) => sum + cat.capExIncrease,
-                      0
-                    )) *
-                    financialParameters.itcRate *
-                    cumulativeProbability *
-                    systemParams.pipelineSize
-                : 0;
-            }),
-          backgroundColor: "rgba(225, 140, 50, 0.7)",
-          borderColor: "rgb(205, 120, 30)",
-          borderWidth: 1,
-        },
-        {
-          label: "NY Sun",
-          data: Array(systemParams.projectLength + 2)
-            .fill(0)
-            .map((_, i) => {
-              let cumulativeProbability = 1;
-              if (i > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
-              return i === 1
-                ? systemParams.systemSize *
-                    1000000 *
-                    financialParameters.nySunIncentivePerWatt *
-                    cumulativeProbability *
-                    systemParams.pipelineSize
-                : 0;
-            }),
-          backgroundColor: "rgba(80, 160, 120, 0.7)",
-          borderColor: "rgb(60, 140, 100)",
-          borderWidth: 1,
-        },
-      ],
+      labels: ledger.periods,
+      datasets: ledgerDatasets(ledger, true, systemParams.pipelineSize),
     },
   };
 
   // Replace the downloadCashFlowCSV function with this new Excel download function
   const downloadExcel = () => {
-    // Create the worksheet data
-    const wsData = [
-      [
-        "Category",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) => `Year ${i}`),
-      ],
-      [
-        "DevEx",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) =>
-            i === 0
-              ? -riskCategories.reduce((sum, cat) => sum + cat.devEx, 0)
-              : 0
-          ),
-      ],
-      [
-        "CapEx",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) =>
-            i === 1
-              ? -(
-                  financialParameters.baseCaseCapExPerMW *
-                    systemParams.systemSize +
-                  riskCategories.reduce(
-                    (sum, cat) => sum + cat.capExIncrease,
-                    0
-                  )
-                )
-              : 0
-          ),
-      ],
-      [
-        "Incentives",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) =>
-            i === 1
-              ? systemParams.systemSize *
-                1000000 *
-                financialParameters.nySunIncentivePerWatt
-              : i === 2
-              ? (financialParameters.baseCaseCapExPerMW *
-                  systemParams.systemSize +
-                  riskCategories.reduce(
-                    (sum, cat) => sum + cat.capExIncrease,
-                    0
-                  )) *
-                financialParameters.itcRate
-              : 0
-          ),
-      ],
-      [
-        "Revenue",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) =>
-            i > 1
-              ? systemParams.systemSize *
-                (systemParams.capacityFactor / 100) *
-                24 *
-                365 *
-                (1 - 0.005 * (i - 2)) *
-                financialParameters.electricityRate *
-                Math.pow(1 + financialParameters.priceEscalation, i - 2)
-              : 0
-          ),
-      ],
-      [
-        "OpEx",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) =>
-            i > 1
-              ? -(
-                  financialParameters.baseOpExPerMW *
-                  systemParams.systemSize *
-                  Math.pow(1 + financialParameters.priceEscalation, i - 2)
-                )
-              : 0
-          ),
-      ],
-      ["Cash Flow", ...cashFlows],
+    // Inputs, formula-driven Cash Flow, Schedule, Portfolio and Sensitivity
+    const wb = buildModelWorkbook(
+      riskCategories,
+      systemParams,
+      financialParameters
+    );
+
+    // Add the dated cash flows the IRRs are solved on
+    const datedData = [
+      ["Period", "Date", "Cash Flow", "Expected Cash Flow"],
+      ...cashFlowResult.periods.map((period) => [
+        period.label,
+        period.date,
+        cashFlowResult.periodLedger.totals[period.index],
+        cashFlowResult.periodLedger.expectedTotals[period.index],
+      ]),
+    ];
+    // XIRRs on the period dates, to check against Excel's XIRR
+    const xirr = (flows: number[]) =>
+      formatIRR(
+        calculateXIRR(
+          cashFlowResult.periods.map((period) => ({
+            date: period.date,
+            amount: flows[period.index],
+          }))
+        )
+      );
+    datedData.push(
+      [],
       [
-        "% of projects",
-        ...Array(systemParams.projectLength + 2)
-          .fill(0)
-          .map((_, i) => {
-            let cumulativeProbability = 1;
-            if (i > 0) {
-              cumulativeProbability = riskCategories.reduce(
-                (prob, cat) => prob * cat.goNoGoProbability,
-                1
-              );
-            }
-            return cumulativeProbability;
-          }),
-      ],
-      ["Expected Cash Flow", ...expectedCashFlows],
+        "XIRR",
+        "",
+        xirr(cashFlowResult.periodLedger.totals),
+        xirr(cashFlowResult.periodLedger.expectedTotals),
+      ]
+    );
+    const datedWs = XLSX.utils.aoa_to_sheet(datedData);
+    datedWs["!cols"] = [{ wch: 15 }, { wch: 12 }, { wch: 18 }, { wch: 20 }];
+    XLSX.utils.book_append_sheet(wb, datedWs, "Dated Cash Flows");
+
+    // Add the metrics shown beside the IRRs
+    const metricsData = [
+      ["Metric", "Project at NTP", "Portfolio"],
+      ["IRR", formatIRR(projectMetrics.irr), formatIRR(portfolioMetrics.irr)],
+      ...financialMetricRows.map((row) => [
+        row.label,
+        projectMetrics[row.key] ?? "n/a",
+        portfolioMetrics[row.key] ?? "n/a",
+      ]),
+      [],
+      ["Discount Rate", financialParameters.discountRate],
+      ["MIRR Finance Rate", financialParameters.financeRate],
+      ["MIRR Reinvestment Rate", financialParameters.reinvestmentRate],
     ];
-
-    // Create a new workbook and worksheet
-    const wb = XLSX.utils.book_new();
-    const ws = XLSX.utils.aoa_to_sheet(wsData);
-
-    // Set column widths
-    const colWidths = [{ wch: 20 }]; // First column width
-    for (let i = 0; i <= systemParams.projectLength + 1; i++) {
-      colWidths.push({ wch: 15 }); // Other columns width
-    }
-    ws["!cols"] = colWidths;
-
-    // Style the cells
-    for (let i = 0; i < wsData.length; i++) {
-      for (let j = 0; j < wsData[i].length; j++) {
-        const cellRef = XLSX.utils.encode_cell({ r: i, c: j });
-        if (!ws[cellRef]) ws[cellRef] = { v: null };
-
-        // Add cell styles
-        ws[cellRef].s = {
-          font: { bold: i === 0 || j === 0 },
-          alignment: { horizontal: j === 0 ? "left" : "right" },
-          numFmt:
-            j === 0
-              ? "@" // Text format for first column
-              : i === 7
-              ? "0%" // Percentage format for % of projects row
-              : "#,##0", // Number format with thousands separator
-        };
-      }
-    }
-
-    // Add the worksheet to the workbook
-    XLSX.utils.book_append_sheet(wb, ws, "Cash Flow Analysis");
+    const metricsWs = XLSX.utils.aoa_to_sheet(metricsData);
+    metricsWs["!cols"] = [{ wch: 25 }, { wch: 18 }, { wch: 18 }];
+    XLSX.utils.book_append_sheet(wb, metricsWs, "Metrics");
 
     // Generate the Excel file and trigger download
     XLSX.writeFile(wb, "cash_flow_analysis.xlsx");
@@ -1243,58 +1306,33 @@ export default function Home() {
 
   // Add summary logging for cash flows
   useEffect(() => {
-    if (cashFlows.length > 0) {
-      // Calculate totals
-      const totalDevEx = -riskCategories.reduce(
-        (sum, cat) => sum + cat.devEx,
-        0
-      );
-      const totalCapEx = -(
-        financialParameters.baseCaseCapExPerMW * systemParams.systemSize +
-        riskCategories.reduce((sum, cat) => sum + cat.capExIncrease, 0)
-      );
-
-      // Calculate total OpEx (all negative values after year 1)
-      const totalOpEx = cashFlows.slice(2).reduce((sum, flow) => {
-        if (flow < 0) return sum + flow;
-        return sum;
-      }, 0);
-
-      // Calculate total revenue (all positive values after year 1)
-      const totalRevenue = cashFlows.slice(2).reduce((sum, flow) => {
-        if (flow > 0) return sum + flow;
-        return sum;
-      }, 0);
-
-      // Calculate total incentives (ITC and NY Sun)
-      const totalITC =
-        (financialParameters.baseCaseCapExPerMW * systemParams.systemSize +
-          riskCategories.reduce((sum, cat) => sum + cat.capExIncrease, 0)) *
-        financialParameters.itcRate;
-      const totalNYSun =
-        systemParams.systemSize *
-        1000000 *
-        financialParameters.nySunIncentivePerWatt;
-      console.log(cashFlows);
-      console.log(cashFlows.length);
+    if (ledger.totals.length > 0) {
+      const total = (values: number[]) =>
+        values.reduce((sum, value) => sum + value, 0);
 
       console.log("Cash Flow Summary:");
       console.log("-----------------");
-      console.log(`Total Development Costs: $${totalDevEx.toLocaleString()}`);
-      console.log(`Total Capital Costs: $${totalCapEx.toLocaleString()}`);
-      console.log(
-        `Total Operating Costs: $${Math.abs(totalOpEx).toLocaleString()}`
-      );
-      console.log(`Total Revenue: $${totalRevenue.toLocaleString()}`);
-      console.log(`Total ITC: $${totalITC.toLocaleString()}`);
-      console.log(`Total NY Sun Incentive: $${totalNYSun.toLocaleString()}`);
-      console.log(
-        `Net Cash Flow: $${cashFlows
-          .reduce((sum, flow) => sum + flow, 0)
-          .toLocaleString()}`
-      );
+      console.log(`NTP: ${milestones.ntpDate}, COD: ${milestones.codDate}`);
+      ledger.lines.forEach((line) => {
+        console.log(
+          `Total ${line.label}: $${Math.abs(
+            total(line.values)
+          ).toLocaleString()}`
+        );
+      });
+      console.log(`Net Cash Flow: $${total(ledger.totals).toLocaleString()}`);
     }
-  }, [cashFlows, riskCategories, systemParams, financialParameters]);
+  }, [ledger, milestones]);
+
+  // When the report was generated, or null while editing the model
+  const [reportGeneratedAt, setReportGeneratedAt] = useState<string | null>(
+    null
+  );
+
+  const openReport = () => {
+    setReportGeneratedAt(new Date().toISOString());
+    window.scrollTo(0, 0);
+  };
 
   // Update the chart options to handle mobile view
   const getChartOptions = (isPortfolio: boolean) => ({
@@ -1321,13 +1359,7 @@ export default function Home() {
             const value = context.raw as number;
             const year = context.dataIndex;
             if (isPortfolio) {
-              let cumulativeProbability = 1;
-              if (year > 0) {
-                cumulativeProbability = riskCategories.reduce(
-                  (prob, cat) => prob * cat.goNoGoProbability,
-                  1
-                );
-              }
+              const cumulativeProbability = ledger.pipelineShare[year];
               return `${
                 context.dataset.label
               }: $${value.toLocaleString()} (% of pipeline: ${(
@@ -1346,9 +1378,7 @@ export default function Home() {
           color: "#1D3834",
           callback: function (value: number | string) {
             if (isMobile) {
-              if (value === 1) return ["Year 1", "(NTP)"];
-              if (value === 2) return ["Year 2", "(COD)"];
-              return `Year ${value}`;
+              return yearTickLabel(Number(value));
             }
             return `$${value.toLocaleString()}`;
           },
@@ -1365,9 +1395,7 @@ export default function Home() {
             if (isMobile) {
               return `$${value.toLocaleString()}`;
             }
-            if (value === 1) return ["Year 1", "(NTP)"];
-            if (value === 2) return ["Year 2", "(COD)"];
-            return `Year ${value}`;
+            return yearTickLabel(Number(value));
           },
         },
       },
@@ -1380,6 +1408,44 @@ export default function Home() {
     },
   });
 
+  if (reportGeneratedAt) {
+    return (
+      <ModelReport
+        scenarioName={scenarioName}
+        setScenarioName={setScenarioName}
+        generatedAt={reportGeneratedAt}
+        riskCategories={riskCategories}
+        systemParams={systemParams}
+        financialParameters={financialParameters}
+        result={cashFlowResult}
+        chartData={chartData}
+        yearTickLabel={yearTickLabel}
+        onClose={() => setReportGeneratedAt(null)}
+      >
+        <div className="break-inside-avoid">
+          <SplitRiskGraph
+            riskCategories={riskCategories}
+            systemParams={systemParams}
+            financialParameters={financialParameters}
+            isMobile={false}
+          />
+        </div>
+        <div className="space-y-6">
+          {riskCategories.map((category) => (
+            <div key={category.name} className="break-inside-avoid">
+              <SensitivityAnalysis
+                riskCategories={riskCategories}
+                systemParams={systemParams}
+                financialParameters={financialParameters}
+                category={category.name}
+              />
+            </div>
+          ))}
+        </div>
+      </ModelReport>
+    );
+  }
+
   return (
     <>
       <header className="bg-[#1D3834] py-12 px-6 shadow-md g mb-12">
@@ -1410,14 +1476,50 @@ export default function Home() {
             Model Inputs
           </h1>
 
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
-            <div className="card p-6">
-              <RiskCategories
-                riskCategories={riskCategories}
-                setRiskCategories={setRiskCategories}
-                isMobile={isMobile}
-                activeTooltip={activeTooltip}
-                handleTooltipInteraction={handleTooltipInteraction}
+          {permalinkError && (
+            <div className="mb-8 p-4 rounded-md border border-red-300 bg-red-50 text-red-700 flex justify-between gap-4">
+              <span>
+                The shared link could not be opened, so the default inputs are
+                shown. {permalinkError}
+              </span>
+              <button
+                aria-label="Dismiss"
+                onClick={() => setPermalinkError(null)}
+                className="text-red-700 hover:text-red-900"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
+          {/* Saved Scenarios */}
+          <div className="mb-8">
+            <ScenarioManager state={modelState} onLoad={loadModelState} />
+          </div>
+
+          {/* Excel Import */}
+          <div className="mb-8">
+            <ExcelImport
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+              onImport={(inputs) => {
+                setRiskCategories(inputs.riskCategories);
+                setSystemParams(inputs.systemParams);
+                setFinancialParameters(inputs.financialParameters);
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <div className="card p-6">
+              <RiskCategories
+                riskCategories={riskCategories}
+                setRiskCategories={setRiskCategories}
+                riskCorrelations={systemParams.riskCorrelations}
+                isMobile={isMobile}
+                activeTooltip={activeTooltip}
+                handleTooltipInteraction={handleTooltipInteraction}
               />
             </div>
 
@@ -1435,6 +1537,12 @@ export default function Home() {
                     type="number"
                     className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
                     value={systemParams.capacityFactor || ""}
+                    disabled={systemParams.productionProfile !== null}
+                    title={
+                      systemParams.productionProfile
+                        ? "Generation comes from the production profile"
+                        : undefined
+                    }
                     onChange={(e) =>
                       setSystemParams({
                         ...systemParams,
@@ -1446,9 +1554,13 @@ export default function Home() {
                     }
                   />
                 </div>
+                <ProductionProfileImport
+                  systemParams={systemParams}
+                  setSystemParams={setSystemParams}
+                />
                 <div className="flex flex-col">
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    System Size (MW)
+                    System Size (MWdc)
                   </label>
                   <input
                     type="number"
@@ -1461,10 +1573,44 @@ export default function Home() {
                           e.target.value === ""
                             ? 0
                             : parseFloat(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex flex-col">
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    AC Size (MWac)
+                  </label>
+                  <input
+                    type="number"
+                    className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    value={systemParams.acSystemSize || ""}
+                    onChange={(e) =>
+                      setSystemParams({
+                        ...systemParams,
                         acSystemSize:
                           e.target.value === ""
                             ? 0
-                            : parseFloat(e.target.value) / 1.25,
+                            : parseFloat(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex flex-col">
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    Site Area (acres)
+                  </label>
+                  <input
+                    type="number"
+                    className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    value={systemParams.siteAcres || ""}
+                    onChange={(e) =>
+                      setSystemParams({
+                        ...systemParams,
+                        siteAcres:
+                          e.target.value === ""
+                            ? 0
+                            : parseFloat(e.target.value),
                       })
                     }
                   />
@@ -1486,6 +1632,88 @@ export default function Home() {
                     }
                   />
                 </div>
+                <div className="flex flex-col">
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    Development Start
+                  </label>
+                  <input
+                    type="month"
+                    className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    value={systemParams.developmentStartDate}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setSystemParams({
+                        ...systemParams,
+                        developmentStartDate: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex flex-col">
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    Construction Period (months)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    value={systemParams.constructionMonths}
+                    onChange={(e) =>
+                      setSystemParams({
+                        ...systemParams,
+                        constructionMonths:
+                          e.target.value === ""
+                            ? 0
+                            : Math.max(0, parseInt(e.target.value) || 0),
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex flex-col">
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    Cash Flow Resolution
+                  </label>
+                  <select
+                    className="mt-1 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    value={systemParams.timelineResolution}
+                    onChange={(e) =>
+                      setSystemParams({
+                        ...systemParams,
+                        timelineResolution: e.target.value as
+                          | "monthly"
+                          | "quarterly",
+                      })
+                    }
+                  >
+                    <option value="monthly">Monthly</option>
+                    <option value="quarterly">Quarterly</option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-[#1D3834]">
+                      NTP
+                    </label>
+                    <div className="text-base text-gray-600 mt-1 p-2">
+                      {formatMonth(milestones.ntpDate)}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-[#1D3834]">
+                      <InfoTooltip
+                        id="cod-tooltip"
+                        trigger={<span>COD ⓘ</span>}
+                      >
+                        Commercial operation date: NTP plus the construction
+                        period. Operations run for the project length from
+                        this date.
+                      </InfoTooltip>
+                    </label>
+                    <div className="text-base text-gray-600 mt-1 p-2">
+                      {formatMonth(milestones.codDate)}
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -1513,6 +1741,31 @@ export default function Home() {
                     className="mt-2 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
                   />
                 </div>
+                {(
+                  [
+                    ["discountRate", "Discount Rate / WACC (%)"],
+                    ["financeRate", "MIRR Finance Rate (%)"],
+                    ["reinvestmentRate", "MIRR Reinvestment Rate (%)"],
+                  ] as const
+                ).map(([key, label]) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-[#1D3834]">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={Number((financialParameters[key] * 100).toFixed(4))}
+                      onChange={(e) =>
+                        setFinancialParameters({
+                          ...financialParameters,
+                          [key]: Number(e.target.value) / 100,
+                        })
+                      }
+                      className="mt-2 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
+                    />
+                  </div>
+                ))}
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
                     Additional CapEx
@@ -1526,19 +1779,25 @@ export default function Home() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    Base OpEx ($/MW/year)
+                    <InfoTooltip
+                      id="first-year-opex-tooltip"
+                      trigger={<span>OpEx ({years[codYearIndex + 1]}) ⓘ</span>}
+                    >
+                      Total operating expenses in the first full calendar
+                      year of operations. Edit the individual line items under
+                      Operating Expenses.
+                    </InfoTooltip>
                   </label>
-                  <input
-                    type="text"
-                    value={financialParameters.baseOpExPerMW.toLocaleString()}
-                    onChange={(e) =>
-                      setFinancialParameters({
-                        ...financialParameters,
-                        baseOpExPerMW: Number(e.target.value.replace(/,/g, "")),
-                      })
-                    }
-                    className="mt-2 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
-                  />
+                  <div className="text-base text-gray-600 mt-2 p-2">
+                    $
+                    {Math.round(
+                      -(
+                        sumLedgerCategory(ledger, "operatingCost")[
+                          codYearIndex + 1
+                        ] ?? 0
+                      )
+                    ).toLocaleString()}
+                  </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
@@ -1558,19 +1817,15 @@ export default function Home() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    ITC Rate (%)
+                    Federal Credit
                   </label>
-                  <input
-                    type="number"
-                    value={Math.round(financialParameters.itcRate * 100)}
-                    onChange={(e) =>
-                      setFinancialParameters({
-                        ...financialParameters,
-                        itcRate: Number(e.target.value) / 100,
-                      })
-                    }
-                    className="mt-2 block w-full p-2 text-base rounded-md border-gray-300 shadow-sm focus:border-[#00695C] focus:ring-[#00695C]"
-                  />
+                  <div className="text-base text-gray-600 mt-2 p-2">
+                    {federalCredits.elected === "itc"
+                      ? `ITC at ${(federalCredits.itcRate * 100).toFixed(1)}%`
+                      : `PTC, $${Math.round(
+                          federalCredits.ptcValue
+                        ).toLocaleString()} over its term`}
+                  </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
@@ -1583,40 +1838,163 @@ export default function Home() {
                       .toLocaleString()}
                   </div>
                 </div>
-              </div>
-
-              <h3 className="text-lg font-medium mt-6 mb-4 text-[#1D3834] border-t border-[#B2DFDB] pt-4">
-                Financial Assumptions
-              </h3>
-              <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    Electricity Rate ($/MWh)
+                    <InfoTooltip
+                      id="expected-devex-tooltip"
+                      trigger={<span>Expected DevEx ⓘ</span>}
+                    >
+                      Average development spend per project in the pipeline.
+                      Projects that fail a milestone stop spending, so later
+                      milestones are only paid for by surviving projects.
+                    </InfoTooltip>
+                  </label>
+                  <div className="text-base text-gray-600 mt-2 p-2">
+                    ${Math.round(expectedDevEx).toLocaleString()}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[#1D3834]">
+                    <InfoTooltip
+                      id="expected-sunk-cost-tooltip"
+                      trigger={<span>Expected Sunk DevEx ⓘ</span>}
+                    >
+                      Average development spend per project that is lost on
+                      projects abandoned before reaching NTP.
+                    </InfoTooltip>
                   </label>
                   <div className="text-base text-gray-600 mt-2 p-2">
-                    ${financialParameters.electricityRate.toLocaleString()}
+                    ${Math.round(expectedSunkCost).toLocaleString()}
                   </div>
                 </div>
+              </div>
+
+              <h3 className="text-lg font-medium mt-6 mb-4 text-[#1D3834] border-t border-[#B2DFDB] pt-4">
+                Financial Assumptions
+              </h3>
+              <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    Escalation Rate (%)
+                    Realized Revenue (Year 1)
                   </label>
                   <div className="text-base text-gray-600 mt-2 p-2">
-                    {Math.round(financialParameters.priceEscalation * 100)}%
+                    $
+                    {calculateRealizedRate(
+                      financialParameters.revenue,
+                      0
+                    ).toFixed(2)}
+                    /MWh
                   </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[#1D3834]">
-                    NY-Sun Incentive ($/W)
+                    State Incentives
                   </label>
                   <div className="text-base text-gray-600 mt-2 p-2">
-                    ${financialParameters.nySunIncentivePerWatt.toFixed(2)}
+                    $
+                    {Math.round(
+                      sumLedgerCategory(ledger, "stateIncentive").reduce(
+                        (total, value) => total + value,
+                        0
+                      )
+                    ).toLocaleString()}
                   </div>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Risk Taxonomy */}
+          <div className="mb-8">
+            <RiskCategoryEditor
+              riskCategories={riskCategories}
+              setRiskCategories={setRiskCategories}
+              onRename={(from, to) =>
+                setSystemParams({
+                  ...systemParams,
+                  riskCorrelations: renameInCorrelations(
+                    systemParams.riskCorrelations,
+                    from,
+                    to
+                  ),
+                })
+              }
+              onRemove={(name) =>
+                setSystemParams({
+                  ...systemParams,
+                  riskCorrelations: removeFromCorrelations(
+                    systemParams.riskCorrelations,
+                    name
+                  ),
+                })
+              }
+            />
+          </div>
+
+          {/* Correlated Risks */}
+          <div className="mb-8">
+            <RiskCorrelationEditor
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+              setRiskCorrelations={(riskCorrelations) =>
+                setSystemParams({ ...systemParams, riskCorrelations })
+              }
+            />
+          </div>
+
+          {/* Revenue */}
+          <div className="card p-6 mb-8">
+            <RevenueEditor
+              revenue={financialParameters.revenue}
+              setRevenue={(revenue) =>
+                setFinancialParameters({ ...financialParameters, revenue })
+              }
+              hasProductionProfile={Boolean(systemParams.productionProfile)}
+            />
+          </div>
+
+          {/* Federal Tax Credits */}
+          <div className="card p-6 mb-8">
+            <FederalIncentivesEditor
+              federalIncentives={financialParameters.federalIncentives}
+              setFederalIncentives={(federalIncentives) =>
+                setFinancialParameters({
+                  ...financialParameters,
+                  federalIncentives,
+                })
+              }
+              federalCredits={federalCredits}
+            />
+          </div>
+
+          {/* State Incentives */}
+          <div className="card p-6 mb-8">
+            <IncentivesEditor
+              incentives={financialParameters.incentives}
+              setIncentives={(incentives) =>
+                setFinancialParameters({
+                  ...financialParameters,
+                  incentives,
+                })
+              }
+              systemParams={systemParams}
+            />
+          </div>
+
+          {/* Operating Expenses */}
+          <div className="card p-6 mb-8">
+            <OpExEditor
+              opExLineItems={financialParameters.opExLineItems}
+              setOpExLineItems={(opExLineItems) =>
+                setFinancialParameters({
+                  ...financialParameters,
+                  opExLineItems,
+                })
+              }
+            />
+          </div>
+
           {/* Key Metrics Section */}
           <div className="mt-8 mb-8 bg-white p-6 rounded-xl shadow-lg border border-gray-200">
             <div
@@ -1660,6 +2038,19 @@ export default function Home() {
                 >
                   Portfolio View
                 </button>
+                <button
+                  onClick={copyPermalink}
+                  onBlur={() => setShareStatus(null)}
+                  className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+                >
+                  {shareStatus ?? "Copy Link"}
+                </button>
+                <button
+                  onClick={openReport}
+                  className="px-4 py-2 bg-[#1D3834] text-white rounded-md hover:bg-[#00695C] transition-colors"
+                >
+                  Generate Report
+                </button>
               </div>
             </div>
 
@@ -1682,13 +2073,14 @@ export default function Home() {
                   </div>
                   <div
                     className={`text-2xl font-bold ${
-                      successfulProjectIRR >= 0.1
+                      (projectMetrics.irr.irr ?? -Infinity) >= 0.1
                         ? "text-[#004D40]"
                         : "text-red-700"
                     }`}
                   >
-                    {(successfulProjectIRR * 100).toFixed(2)}%
+                    {formatIRR(projectMetrics.irr)}
                   </div>
+                  <IRRNotes irr={projectMetrics.irr} />
                 </div>
 
                 <div className="text-center group bg-gray-50/80 p-2 w-60 justify-self-center">
@@ -1703,11 +2095,14 @@ export default function Home() {
                   </div>
                   <div
                     className={`text-3xl font-bold ${
-                      portfolioIRR >= 0.1 ? "text-[#004D40]" : "text-red-700"
+                      (portfolioMetrics.irr.irr ?? -Infinity) >= 0.1
+                        ? "text-[#004D40]"
+                        : "text-red-700"
                     }`}
                   >
-                    {(portfolioIRR * 100).toFixed(2)}%
+                    {formatIRR(portfolioMetrics.irr)}
                   </div>
+                  <IRRNotes irr={portfolioMetrics.irr} />
                 </div>
 
                 <div className="text-center group bg-gray-50/80 p-2 w-60 justify-self-center">
@@ -1732,6 +2127,48 @@ export default function Home() {
                   </div>
                 </div>
               </div>
+              <div className="overflow-x-auto max-w-2xl mx-auto mt-4">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="bg-[#E0F2F1]">
+                      <th className="px-3 py-2 text-left text-[#1D3834]">
+                        <InfoTooltip
+                          id="financial-metrics"
+                          trigger={<span>Metric ⓘ</span>}
+                        >
+                          NPVs and the LCOE are discounted to the start of
+                          development at{" "}
+                          {(financialParameters.discountRate * 100).toFixed(1)}
+                          %. The portfolio column is an average pipeline
+                          project, including DevEx spent on projects that
+                          fail.
+                        </InfoTooltip>
+                      </th>
+                      <th className="px-3 py-2 text-right text-[#1D3834]">
+                        Project at NTP
+                      </th>
+                      <th className="px-3 py-2 text-right text-[#1D3834]">
+                        Portfolio
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {financialMetricRows.map((row) => (
+                      <tr key={row.key} className="border-b border-[#B2DFDB]">
+                        <td className="px-3 py-2 font-medium text-[#1D3834]">
+                          {row.label}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {formatMetric(projectMetrics[row.key], row.unit)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">
+                          {formatMetric(portfolioMetrics[row.key], row.unit)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
 
             <div className="h-[700px]">
@@ -1749,6 +2186,33 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Heterogeneous Portfolio */}
+          <div className="mt-8 mb-8">
+            <PortfolioEditor
+              archetypes={archetypes}
+              setArchetypes={setArchetypes}
+              inputs={archetypeInputs}
+              onEdit={(inputs) => {
+                // Copies, so editing the inputs leaves the archetype as saved
+                setRiskCategories(structuredClone(inputs.riskCategories));
+                setSystemParams(structuredClone(inputs.systemParams));
+                setFinancialParameters(
+                  structuredClone(inputs.financialParameters)
+                );
+              }}
+            />
+          </div>
+
+          {/* Origination Cohorts */}
+          <div className="mt-8 mb-8">
+            <OriginationPlan
+              cohorts={cohorts}
+              setCohorts={setCohorts}
+              archetypes={archetypes}
+              inputs={archetypeInputs}
+            />
+          </div>
+
           {/* Risk Category Analysis */}
           <SplitRiskGraph
             riskCategories={riskCategories}
@@ -1766,6 +2230,64 @@ export default function Home() {
             />
           </div>
 
+          {/* Two-Way Sensitivity */}
+          <div className="mt-8 mb-8">
+            <SensitivityHeatmap
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+            />
+          </div>
+
+          {/* Tornado Sensitivity */}
+          <div className="mt-8 mb-8">
+            <TornadoAnalysis
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+            />
+          </div>
+
+          {/* Goal Seek */}
+          <div className="mt-8 mb-8">
+            <GoalSeek
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+            />
+          </div>
+
+          {/* Monte Carlo Simulation */}
+          <div className="mt-8 mb-8">
+            <MonteCarloAnalysis
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+            />
+          </div>
+
+          {/* Project Finance Debt */}
+          <div className="mt-8 mb-8">
+            <DebtAnalysis
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+              debtParameters={debtParameters}
+              setDebtParameters={setDebtParameters}
+            />
+          </div>
+
+          {/* Tax Equity Partnership Flip */}
+          <div className="mt-8 mb-8">
+            <TaxEquityAnalysis
+              riskCategories={riskCategories}
+              systemParams={systemParams}
+              financialParameters={financialParameters}
+              taxEquityParameters={taxEquityParameters}
+              setTaxEquityParameters={setTaxEquityParameters}
+            />
+          </div>
+
           {/* Cash Flow Table */}
           <div className="mt-8 mb-8 bg-white p-6 rounded-xl shadow-lg border border-gray-200">
             <div className="flex justify-between items-center mb-4">
@@ -1784,135 +2306,33 @@ export default function Home() {
                 <thead>
                   <tr className="bg-[#E0F2F1]">
                     <th className="px-3 py-3 text-[#1D3834]">Category</th>
-                    {Array(systemParams.projectLength + 2) // +2 for dev and construction years
-                      .fill(0)
-                      .map((_, i) => (
-                        <th key={i} className="px-3 py-3 text-[#1D3834]">
-                          Year {i}
-                        </th>
-                      ))}
+                    {years.map((year, i) => (
+                      <th key={year} className="px-3 py-3 text-[#1D3834]">
+                        {yearTickLabel(i)}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
-                  <tr>
-                    <td className="px-3 py-3 font-medium text-[#1D3834]">
-                      DevEx
-                    </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => (
-                        <td key={i} className="px-3 py-3 text-gray-600">
-                          {i === 0
-                            ? `$${Math.round(
-                                riskCategories.reduce(
-                                  (sum, cat) => sum + cat.devEx,
-                                  0
-                                )
-                              ).toLocaleString()}`
-                            : ""}
-                        </td>
-                      ))}
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-3 font-medium text-[#1D3834]">
-                      CapEx
-                    </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => (
-                        <td key={i} className="px-3 py-3 text-gray-600">
-                          {i === 1
-                            ? `$${Math.round(
-                                financialParameters.baseCaseCapExPerMW *
-                                  systemParams.systemSize +
-                                  riskCategories.reduce(
-                                    (sum, cat) => sum + cat.capExIncrease,
-                                    0
-                                  )
-                              ).toLocaleString()}`
-                            : ""}
-                        </td>
-                      ))}
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-3 font-medium text-[#1D3834]">
-                      Incentives
-                    </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => (
-                        <td key={i} className="px-3 py-3 text-gray-600">
-                          {i === 1
-                            ? `$${Math.round(
-                                systemParams.systemSize *
-                                  1000000 *
-                                  financialParameters.nySunIncentivePerWatt
-                              ).toLocaleString()}`
-                            : i === 2
-                            ? `$${Math.round(
-                                (financialParameters.baseCaseCapExPerMW *
-                                  systemParams.systemSize +
-                                  riskCategories.reduce(
-                                    (sum, cat) => sum + cat.capExIncrease,
-                                    0
-                                  )) *
-                                  financialParameters.itcRate
-                              ).toLocaleString()}`
-                            : ""}
-                        </td>
-                      ))}
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-3 font-medium text-[#1D3834]">
-                      Revenue
-                    </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => (
-                        <td key={i} className="px-3 py-3 text-gray-600">
-                          {i > 1
-                            ? `$${Math.round(
-                                systemParams.systemSize *
-                                  (systemParams.capacityFactor / 100) *
-                                  24 *
-                                  365 *
-                                  (1 - 0.005 * (i - 2)) *
-                                  financialParameters.electricityRate *
-                                  Math.pow(
-                                    1 + financialParameters.priceEscalation,
-                                    i - 2
-                                  )
-                              ).toLocaleString()}`
-                            : ""}
-                        </td>
-                      ))}
-                  </tr>
-                  <tr>
-                    <td className="px-3 py-3 font-medium text-[#1D3834]">
-                      OpEx
-                    </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => (
+                  {ledger.lines.map((row) => (
+                    <tr key={row.id}>
+                      <td className="px-3 py-3 font-medium text-[#1D3834]">
+                        {row.label}
+                      </td>
+                      {row.values.map((value, i) => (
                         <td key={i} className="px-3 py-3 text-gray-600">
-                          {i > 1
-                            ? `$${Math.round(
-                                financialParameters.baseOpExPerMW *
-                                  systemParams.systemSize *
-                                  Math.pow(
-                                    1 + financialParameters.priceEscalation,
-                                    i - 2
-                                  )
-                              ).toLocaleString()}`
+                          {Math.round(value) !== 0
+                            ? `$${Math.abs(Math.round(value)).toLocaleString()}`
                             : ""}
                         </td>
                       ))}
-                  </tr>
+                    </tr>
+                  ))}
                   <tr>
                     <td className="px-3 py-3 font-medium text-[#1D3834]">
                       Cash Flow
                     </td>
-                    {cashFlows.map((flow, i) => (
+                    {ledger.totals.map((flow, i) => (
                       <td key={i} className="px-3 py-3 text-gray-600">
                         {`$${Math.round(flow).toLocaleString()}`}
                       </td>
@@ -1922,22 +2342,11 @@ export default function Home() {
                     <td className="px-3 py-3 font-medium text-[#1D3834]">
                       % of Pipeline
                     </td>
-                    {Array(systemParams.projectLength + 2)
-                      .fill(0)
-                      .map((_, i) => {
-                        let cumulativeProbability = 1;
-                        if (i > 0) {
-                          cumulativeProbability = riskCategories.reduce(
-                            (prob, cat) => prob * cat.goNoGoProbability,
-                            1
-                          );
-                        }
-                        return (
-                          <td key={i} className="px-3 py-3 text-gray-600">
-                            {Math.round(cumulativeProbability * 100)}%
-                          </td>
-                        );
-                      })}
+                    {ledger.pipelineShare.map((share, i) => (
+                      <td key={i} className="px-3 py-3 text-gray-600">
+                        {Math.round(share * 100)}%
+                      </td>
+                    ))}
                   </tr>
                   <tr>
                     <td className="px-3 py-3 font-medium text-[#1D3834] group relative">
@@ -1951,7 +2360,7 @@ export default function Home() {
                         stage.
                       </InfoTooltip>
                     </td>
-                    {expectedCashFlows.map((flow, i) => (
+                    {ledger.expectedTotals.map((flow, i) => (
                       <td key={i} className="px-3 py-3 text-gray-600">
                         {`$${Math.round(flow).toLocaleString()}`}
                       </td>
@@ -1991,13 +2400,15 @@ export default function Home() {
               <li className="flex items-start">
                 <span className="text-[#1D3834] mr-3 text-xl">•</span>
                 <span className="text-lg">
-                  No reliance on debt or external financing.
+                  Headline IRRs are unlevered and pre-tax, with the elected
+                  federal credit received as cash. Debt and the tax equity
+                  flip are modeled separately on top of these cash flows.
                 </span>
               </li>
               <li className="flex items-start">
                 <span className="text-[#1D3834] mr-3 text-xl">•</span>
                 <span className="text-lg">
-                  Specific financial parameters: a $140/MWh electricity rate
+                  Specific financial parameters: a $160/MWh bill credit
                   (derived from{" "}
                   <a
                     href="https://docs.google.com/spreadsheets/d/1eQgW3YfRWVmLgBDu5eB-xldKXDBcNolm/edit?gid=1515816688#gid=1515816688"
@@ -2005,8 +2416,9 @@ export default function Home() {
                   >
                     previous community solar models
                   </a>
-                  ), a 2% standard escalation rate, and a base $0.17/W NY Sun
-                  incentive for upstate New York.
+                  ) escalating 2% per year and sold to anchor and residential
+                  subscribers at 15% and 10% discounts, and a base $0.17/W NY
+                  Sun incentive for upstate New York.
                 </span>
               </li>
               <li className="flex items-start">
@@ -2054,13 +2466,11 @@ export default function Home() {
                   Simplified Cost Timing
                 </h4>
                 <p className="text-gray-700 text-lg leading-relaxed">
-                  By assuming that all development costs occur simultaneously,
-                  the model does not account for the differences in cost impact
-                  across stages. This means it fails to distinguish between
-                  early-stage failures (e.g., issues with site control, which
-                  typically incur lower sunk costs) and later-stage failures
-                  (e.g., after receiving CESIR results, which tend to be more
-                  costly).
+                  Development spend is stage-gated and spread evenly over
+                  each milestone&apos;s duration, and construction spend is
+                  spread evenly between NTP and COD. Actual spend is usually
+                  lumpier, with deposits and study fees due at specific
+                  points.
                 </p>
               </div>
             </div>
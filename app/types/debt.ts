@@ -0,0 +1,45 @@
+import { IRRResult } from "./irr";
+
+// "lesserOf" sizes to whichever of the DSCR and leverage limits is smaller
+export type DebtSizingMethod = "dscr" | "leverage" | "lesserOf";
+
+export type AmortizationProfile = "level" | "sculpted";
+
+export interface DebtParameters {
+  sizingMethod: DebtSizingMethod;
+  targetDSCR: number;
+  maxLeverage: number;
+  interestRate: number;
+  tenorYears: number;
+  amortization: AmortizationProfile;
+  upfrontFeeRate: number;
+  constructionLoanRate: number;
+  constructionAdvanceRate: number;
+}
+
+export interface DebtServiceRow {
+  operatingYear: number;
+  cfads: number;
+  openingBalance: number;
+  interest: number;
+  principal: number;
+  debtService: number;
+  closingBalance: number;
+  dscr: number | null;
+}
+
+export interface DebtResult {
+  debtSize: number;
+  leverage: number;
+  upfrontFee: number;
+  constructionLoanBalance: number;
+  constructionInterest: number;
+  schedule: DebtServiceRow[];
+  years: number[];
+  equityFlows: number[];
+  expectedEquityFlows: number[];
+  equityIRR: IRRResult;
+  portfolioEquityIRR: IRRResult;
+  minDSCR: number;
+  avgDSCR: number;
+}
@@ -0,0 +1,61 @@
+import { FinancialParameters } from "./financial";
+import { RiskCategory } from "./risk";
+import { SystemParameters } from "./system";
+
+// Fields read from each row of a workbook's risk table
+export type RiskTableColumn =
+  | "name"
+  | "riskLevel"
+  | "approvalRisk"
+  | "worstCaseScenario"
+  | "devExLow"
+  | "devExHigh"
+  | "capExIncreaseLow"
+  | "capExIncreaseHigh";
+
+// Single-cell inputs a workbook can supply
+export type WorkbookInput =
+  | "capacityFactor"
+  | "systemSize"
+  | "acSystemSize"
+  | "siteAcres"
+  | "projectLength"
+  | "degradationRate"
+  | "baseSystemCostPerWatt"
+  | "billCreditRate"
+  | "billCreditEscalation"
+  | "leaseEscalation";
+
+// Where each input sits in a workbook. Empty strings are not read.
+export interface WorkbookMapping {
+  // Sheet to read; the first sheet when empty
+  sheet: string;
+  // Rows of the risk table, one category per row, numbered as in Excel
+  riskFirstRow: number;
+  riskLastRow: number;
+  // Column letter of each risk table field
+  riskColumns: Record<RiskTableColumn, string>;
+  // Cell reference of each input, e.g. "I2"
+  cells: Record<WorkbookInput, string>;
+}
+
+export interface WorkbookCellNote {
+  cell: string;
+  label: string;
+  // The cell as Excel displays it
+  value: string;
+  // Why an invalid cell was skipped
+  message?: string;
+}
+
+export interface WorkbookImport {
+  sheet: string;
+  // Null when the workbook has no valid risk table rows
+  riskCategories: RiskCategory[] | null;
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  imported: WorkbookCellNote[];
+  invalid: WorkbookCellNote[];
+  // Values near the mapped inputs that the mapping doesn't read
+  unmapped: WorkbookCellNote[];
+}
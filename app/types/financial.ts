@@ -1,9 +1,74 @@
+import { IncentiveDefinition } from "./incentives";
+import { RevenueParameters } from "./revenue";
+
+export type OpExCategory =
+  | "landLease"
+  | "subscriberManagement"
+  | "operationsAndMaintenance"
+  | "insurance"
+  | "propertyTax"
+  | "assetManagement";
+
+// perMW and perAcre amounts are annual, percentOfRevenue is a fraction
+export type OpExBasis = "perMW" | "perAcre" | "percentOfRevenue" | "fixed";
+
+export interface OpExLineItem {
+  id: string;
+  name: string;
+  category: OpExCategory;
+  basis: OpExBasis;
+  amount: number;
+  escalationRate: number;
+  // Optional amounts by operating year (e.g. a PILOT agreement), replacing
+  // amount and escalation. The last entry carries forward.
+  schedule?: number[];
+}
+
+// Bonus credit on top of the base ITC. The rate is in ITC points assuming
+// prevailing wage is met; adders that apply to the PTC increase it by the
+// same fraction.
+export interface ITCAdder {
+  id: string;
+  name: string;
+  rate: number;
+  qualificationProbability: number;
+  scalesWithPrevailingWage: boolean;
+  appliesToPTC: boolean;
+}
+
+export type CreditElection = "itc" | "ptc" | "best";
+
+export interface CreditTransfer {
+  enabled: boolean;
+  // Cash received per dollar of credit
+  pricePerDollar: number;
+  // Months from when the credit is earned to when the sale proceeds arrive
+  delayMonths: number;
+}
+
+// Rates assume prevailing wage and apprenticeship requirements are met;
+// without them the base credits and scaling adders are a fifth as large
+export interface FederalIncentives {
+  baseITCRate: number;
+  prevailingWageProbability: number;
+  adders: ITCAdder[];
+  election: CreditElection;
+  ptcRatePerMWh: number;
+  ptcEscalation: number;
+  ptcTermYears: number;
+  transfer: CreditTransfer;
+}
+
 export interface FinancialParameters {
   baseCaseCapExPerMW: number;
-  
-    baseOpExPerMW: number;
-  electricityRate: number;
-  priceEscalation: number;
-  itcRate: number;
-  nySunIncentivePerWatt: number;
-} 
\ No newline at end of file
+  opExLineItems: OpExLineItem[];
+  revenue: RevenueParameters;
+  federalIncentives: FederalIncentives;
+  incentives: IncentiveDefinition[];
+  // Annual discount rate (WACC) for NPV, LCOE and discounted payback
+  discountRate: number;
+  // Annual rates for the MIRR: outflows are financed at the finance rate and
+  // inflows reinvested at the reinvestment rate
+  financeRate: number;
+  reinvestmentRate: number;
+}
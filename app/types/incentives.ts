@@ -0,0 +1,69 @@
+export type IncentiveMilestone = "ntp" | "cod";
+
+// A share of a lump-sum incentive paid some months after a milestone
+export interface IncentivePayment {
+  milestone: IncentiveMilestone;
+  share: number;
+  delayMonths: number;
+}
+
+// Capacity a $/W rate is paid on. Most state programs are sized in MWac.
+export type CapacityBasis = "dc" | "ac";
+
+export type ProductionPaymentFrequency = "monthly" | "quarterly" | "annual";
+
+// Program capacity covered by a block and the rate paid in it
+export interface IncentiveBlock {
+  capacityMW: number;
+  ratePerWatt: number;
+}
+
+interface IncentiveDefinitionBase {
+  id: string;
+  name: string;
+  state: string;
+}
+
+// Fixed $/W, such as NY-Sun
+export interface UpfrontIncentive extends IncentiveDefinitionBase {
+  type: "upfront";
+  ratePerWatt: number;
+  capacityBasis: CapacityBasis;
+  payments: IncentivePayment[];
+}
+
+// $/W that steps down as the program fills. The project takes the next
+// capacity after what the program has already allocated.
+export interface DecliningBlockIncentive extends IncentiveDefinitionBase {
+  type: "decliningBlock";
+  capacityBasis: CapacityBasis;
+  blocks: IncentiveBlock[];
+  programCapacityFilledMW: number;
+  payments: IncentivePayment[];
+}
+
+// $/kWh of generation for a term, such as SMART or Illinois Shines RECs
+export interface ProductionIncentive extends IncentiveDefinitionBase {
+  type: "production";
+  ratePerKWh: number;
+  termYears: number;
+  escalationRate: number;
+  paymentFrequency: ProductionPaymentFrequency;
+}
+
+// $/W on the share of capacity subscribed by LMI households
+export interface SubscriberAdderIncentive extends IncentiveDefinitionBase {
+  type: "subscriberAdder";
+  ratePerWatt: number;
+  capacityBasis: CapacityBasis;
+  subscriberShare: number;
+  payments: IncentivePayment[];
+}
+
+export type IncentiveDefinition =
+  | UpfrontIncentive
+  | DecliningBlockIncentive
+  | ProductionIncentive
+  | SubscriberAdderIncentive;
+
+export type IncentiveType = IncentiveDefinition["type"];
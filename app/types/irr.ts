@@ -0,0 +1,20 @@
+// "unique" when NPV crosses zero once, "multiple" when the cash flows change
+// sign more than once and NPV does too, "none" when it never does
+export type IRRStatus = "unique" | "multiple" | "none";
+
+export interface IRRResult {
+  status: IRRStatus;
+  // The root nearest zero, or null when there is no IRR
+  irr: number | null;
+  // Every annual rate between -99% and 1,000% at which NPV is zero, ascending
+  roots: number[];
+  // Sign changes in the cash flows, an upper bound on the number of roots
+  signChanges: number;
+}
+
+// A cash flow on a "YYYY-MM" or "YYYY-MM-DD" date. Month dates are taken as
+// the first of the month.
+export interface DatedCashFlow {
+  date: string;
+  amount: number;
+}
@@ -0,0 +1,36 @@
+export type LedgerCategory =
+  | "development"
+  | "construction"
+  | "operatingCost"
+  | "revenue"
+  | "federalCredit"
+  | "stateIncentive";
+
+export type LedgerSign = "inflow" | "outflow";
+
+// How a line is weighted in the expected (portfolio) view: DevEx by the share
+// of projects reaching each milestone, everything else by the share reaching
+// NTP
+export type LedgerWeighting = "milestoneSurvival" | "reachesNTP";
+
+export interface LedgerLine {
+  id: string;
+  label: string;
+  category: LedgerCategory;
+  sign: LedgerSign;
+  weighting: LedgerWeighting;
+  // Signed cash flows per period for a project that passes every milestone,
+  // and for an average pipeline project
+  values: number[];
+  expectedValues: number[];
+}
+
+// The cash flows every view renders from, one column per period
+export interface CashFlowLedger {
+  periods: string[];
+  lines: LedgerLine[];
+  totals: number[];
+  expectedTotals: number[];
+  // Share of the pipeline still active at the end of each period
+  pipelineShare: number[];
+}
@@ -0,0 +1,24 @@
+import { IRRResult } from "./irr";
+
+// Returns of a cash flow stream, for an individual project or an average
+// pipeline project
+export interface FinancialMetrics {
+  irr: IRRResult;
+  mirr: number | null;
+  // Discounted to the start of development at the discount rate
+  npv: number;
+  // Unsubsidized levelized cost of energy in $/MWh: the present value of
+  // DevEx, CapEx and OpEx over that of generation
+  lcoe: number | null;
+  // Calendar years in which cumulative cash, undiscounted and discounted,
+  // turns non-negative for good. Null if it never does.
+  paybackYear: number | null;
+  discountedPaybackYear: number | null;
+  // Total inflows over total outflows
+  moic: number | null;
+  // Largest cumulative cash outlay before the project pays back
+  peakFunding: number;
+}
+
+export type FinancialMetricUnit =
+  "percent" | "currency" | "perMWh" | "year" | "multiple";
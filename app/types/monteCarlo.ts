@@ -0,0 +1,36 @@
+export type CostDistribution = "uniform" | "triangular";
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed: number;
+  distribution: CostDistribution;
+  histogramBins: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  min: number;
+  max: number;
+  histogram: HistogramBin[];
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  // Over the simulations whose portfolio flows have an IRR
+  portfolioIRR: DistributionSummary;
+  // Simulations whose flows never turn positive, so have no IRR
+  noIRRCount: number;
+  portfolioNPV: DistributionSummary;
+  capitalDeployed: DistributionSummary;
+  projectsReachingNTP: DistributionSummary;
+  probabilityOfLoss: number;
+}
@@ -0,0 +1,8 @@
+import { ModelState } from "./scenario";
+
+export type ResultsView = "individual" | "portfolio";
+
+// What a shared link restores: every input and the results view
+export interface SharedModelState extends ModelState {
+  view: ResultsView;
+}
@@ -0,0 +1,95 @@
+import { FinancialParameters } from "./financial";
+import { IRRResult } from "./irr";
+import { CashFlowLedger } from "./ledger";
+import { FinancialMetrics } from "./metrics";
+import { RiskCategory } from "./risk";
+import { SystemParameters } from "./system";
+
+// A kind of project in the pipeline, with its own risks and parameters, and
+// how many such projects the pipeline holds
+export interface ProjectArchetype {
+  id: string;
+  name: string;
+  count: number;
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}
+
+// The inputs that define an archetype's projects
+export type ArchetypeInputs = Pick<
+  ProjectArchetype,
+  "riskCategories" | "systemParams" | "financialParameters"
+>;
+
+// What one archetype's projects add to the portfolio, all of them together
+export interface ArchetypeContribution {
+  id: string;
+  name: string;
+  count: number;
+  capacityMW: number;
+  projectsReachingNTP: number;
+  mwReachingNTP: number;
+  expectedDevEx: number;
+  // On the portfolio's timeline and rates
+  metrics: FinancialMetrics;
+  annualFlows: number[];
+  // Share of the portfolio NPV, or null when that is zero
+  npvShare: number | null;
+  // One project's calendar-year ledger on its own timeline, for export
+  years: number[];
+  ledger: CashFlowLedger;
+}
+
+// Expected cash flows of every project in the pipeline, from the earliest
+// start of development
+export interface PortfolioResult {
+  startDate: string;
+  years: number[];
+  annualFlows: number[];
+  metrics: FinancialMetrics;
+  projectCount: number;
+  capacityMW: number;
+  projectsReachingNTP: number;
+  mwReachingNTP: number;
+  contributions: ArchetypeContribution[];
+}
+
+export type OriginationFrequency = "monthly" | "quarterly" | "annual";
+
+// Projects of one archetype starting development at a steady pace, such as
+// 15 sites a quarter for two years
+export interface OriginationCohort {
+  id: string;
+  // Null for the current inputs
+  archetypeId: string | null;
+  firstStartDate: string;
+  frequency: OriginationFrequency;
+  periods: number;
+  projectsPerPeriod: number;
+}
+
+// Expected totals of every originated project in one calendar year. DevEx
+// and CapEx are positive spend; a capital call is the cash the portfolio
+// needs that year beyond its own inflows.
+export interface OriginationYear {
+  year: number;
+  projectsOriginated: number;
+  devEx: number;
+  capEx: number;
+  netCashFlow: number;
+  capitalCall: number;
+  cumulativeCashFlow: number;
+  mwReachingNTP: number;
+  mwReachingCOD: number;
+  // IRR of the flows from the first origination to the end of the year
+  runningIRR: IRRResult;
+}
+
+export interface OriginationResult {
+  startDate: string;
+  years: OriginationYear[];
+  metrics: FinancialMetrics;
+  projectsOriginated: number;
+  mwReachingNTP: number;
+}
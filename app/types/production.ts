@@ -0,0 +1,9 @@
+// Hourly output imported from a PVWatts, SAM or PVsyst 8760 export
+export interface ProductionProfile {
+  name: string;
+  // DC capacity of the system the profile was modeled for. Output is scaled
+  // to the project's DC size and clipped at its AC size.
+  sourceSystemSizeMW: number;
+  // 8,760 hourly values in MW, starting at midnight on January 1
+  hourlyMW: number[];
+}
@@ -0,0 +1,53 @@
+// A fixed retail-rate bill credit, or a VDER-style value stack
+export type BillCreditMethod = "fixedRate" | "valueStack";
+
+// One component of the value stack. A component with a term stops paying
+// once the term ends, such as the DRV.
+export interface ValueStackComponent {
+  id: string;
+  name: string;
+  ratePerMWh: number;
+  escalationRate: number;
+  termYears?: number;
+}
+
+// A class of subscribers taking a share of the project's bill credits at a
+// discount. After the contract term the share is re-subscribed at the
+// renewal discount.
+export interface SubscriberClass {
+  id: string;
+  name: string;
+  share: number;
+  discount: number;
+  contractTermYears: number;
+  renewalDiscount: number;
+}
+
+// Hours whose bill credit is scaled by a multiplier, such as an on-peak
+// window in summer. Months and hours wrap, so November to March or 22 to 6
+// run across the year end or midnight. Hours outside every period are paid
+// the plain rate.
+export interface TimeOfUsePeriod {
+  id: string;
+  name: string;
+  // Calendar months, 1 to 12, inclusive
+  startMonth: number;
+  endMonth: number;
+  // Hours of the day, 0 to 24; the end hour is excluded
+  startHour: number;
+  endHour: number;
+  rateMultiplier: number;
+}
+
+export interface RevenueParameters {
+  billCreditMethod: BillCreditMethod;
+  fixedRatePerMWh: number;
+  fixedRateEscalation: number;
+  valueStack: ValueStackComponent[];
+  // Applied to the hourly output of an imported production profile. The
+  // first period an hour falls in sets its multiplier.
+  timeOfUsePeriods: TimeOfUsePeriod[];
+  subscribers: SubscriberClass[];
+  // Share of subscriber payments collected as cash
+  creditToCashRate: number;
+}
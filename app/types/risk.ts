@@ -10,4 +10,19 @@ export type RiskCategory = {
   capExIncreaseLow: number;
   capExIncreaseHigh: number;
   worstCaseScenario: number;
-}; 
\ No newline at end of file
+  startOffsetMonths: number;
+  durationMonths: number;
+};
+
+// The outcomes of a category that can move with other categories': passing
+// its go/no-go gate, and where its costs land between their bounds
+export type RiskOutcome = "approval" | "cost";
+
+// Correlation from -1 to 1 between the outcomes of two categories, matched by
+// name. Unlisted pairs are independent.
+export type RiskCorrelation = {
+  first: string;
+  second: string;
+  approval: number;
+  cost: number;
+};
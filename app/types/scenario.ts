@@ -0,0 +1,32 @@
+import { DebtParameters } from "./debt";
+import { FinancialParameters } from "./financial";
+import { OriginationCohort, ProjectArchetype } from "./portfolio";
+import { RiskCategory } from "./risk";
+import { SystemParameters } from "./system";
+import { TaxEquityParameters } from "./taxEquity";
+
+// Every input of the model, as held by the page
+export interface ModelState {
+  riskCategories: RiskCategory[];
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+  debtParameters: DebtParameters;
+  taxEquityParameters: TaxEquityParameters;
+  archetypes: ProjectArchetype[];
+  cohorts: OriginationCohort[];
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  // ISO timestamp of the last save
+  savedAt: string;
+  state: ModelState;
+}
+
+// Exported scenarios. The version changes whenever ModelState changes in a
+// way older files can't be read as-is.
+export interface ScenarioFile {
+  version: number;
+  scenarios: Scenario[];
+}
@@ -0,0 +1,86 @@
+import { ArchetypeInputs } from "./portfolio";
+
+// How an input is shown and edited. Percentages are stored as decimals;
+// currency and number inputs carry their unit in the label.
+export type ModelInputUnit = "percent" | "currency" | "number";
+
+// A scalar the model reads, wherever it sits in the inputs. Ids stay the
+// same as long as the category, line item or incentive they refer to does.
+export interface ModelInput {
+  id: string;
+  label: string;
+  group: string;
+  unit: ModelInputUnit;
+  min: number;
+  max?: number;
+  integer?: boolean;
+  value: (inputs: ArchetypeInputs) => number;
+  apply: (inputs: ArchetypeInputs, value: number) => ArchetypeInputs;
+}
+
+export interface InputRange {
+  low: number;
+  high: number;
+}
+
+// Results the sensitivity tools report
+export type ModelOutput =
+  "projectIRR" | "portfolioIRR" | "portfolioNPV" | "projectsReachingNTP";
+
+export type ModelOutputValues = Record<ModelOutput, number | null>;
+
+// One input's bar in the tornado: every output at its low and high values
+export interface TornadoBar {
+  id: string;
+  label: string;
+  group: string;
+  unit: ModelInputUnit;
+  base: number;
+  low: number;
+  high: number;
+  atLow: ModelOutputValues;
+  atHigh: ModelOutputValues;
+}
+
+export interface TornadoResult {
+  base: ModelOutputValues;
+  bars: TornadoBar[];
+}
+
+// Values of one input along a heatmap axis
+export interface HeatmapAxis {
+  inputId: string;
+  label: string;
+  unit: ModelInputUnit;
+  values: number[];
+}
+
+// Every output at each pair of axis values, by row (y) then column (x)
+export interface HeatmapResult {
+  x: HeatmapAxis;
+  y: HeatmapAxis;
+  cells: ModelOutputValues[][];
+}
+
+// Where an output crosses a target as one input moves through a range. The
+// breakeven is the last value that still meets the target; meetsAbove says
+// on which side of it the target is met. When the target is met nowhere or
+// everywhere in the range, closest is the sampled result nearest to it.
+export type BreakevenResult =
+  | {
+      status: "found";
+      value: number;
+      achieved: number;
+      meetsAbove: boolean;
+    }
+  | {
+      status: "infeasible" | "alwaysMet";
+      closestValue: number;
+      closest: number | null;
+    };
+
+// The breakeven of one input at each value of another
+export interface BreakevenFrontierPoint {
+  value: number;
+  breakeven: BreakevenResult;
+}
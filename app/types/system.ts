@@ -1,8 +1,21 @@
+import { ProductionProfile } from "./production";
+import { RiskCorrelation } from "./risk";
+
+export type TimelineResolution = "monthly" | "quarterly";
+
 export interface SystemParameters {
   systemSize: number;
   acSystemSize: number;
+  siteAcres: number;
   capacityFactor: number;
+  // Replaces the flat capacity factor when set
+  productionProfile: ProductionProfile | null;
   projectLength: number;
   degradationRate: number;
   pipelineSize: number;
-} 
\ No newline at end of file
+  developmentStartDate: string;
+  constructionMonths: number;
+  timelineResolution: TimelineResolution;
+  // Dependence between risk categories; empty when they are independent
+  riskCorrelations: RiskCorrelation[];
+}
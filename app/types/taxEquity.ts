@@ -0,0 +1,41 @@
+import { IRRResult } from "./irr";
+
+export interface TaxEquityParameters {
+  taxRate: number;
+  bonusDepreciationRate: number;
+  // The investor's contribution is sized to reach its target IRR at the
+  // end of this operating year, when the allocations flip
+  targetFlipYear: number;
+  targetInvestorIRR: number;
+  preFlipTaxAllocation: number;
+  preFlipCashAllocation: number;
+  postFlipAllocation: number;
+}
+
+export interface TaxEquityYear {
+  operatingYear: number;
+  depreciation: number;
+  taxableIncome: number;
+  taxBenefit: number;
+  taxCredits: number;
+  cashDistributions: number;
+  investorTaxAllocation: number;
+  investorCashAllocation: number;
+  investorFlow: number;
+  sponsorFlow: number;
+  investorCumulativeIRR: number | null;
+}
+
+export interface TaxEquityResult {
+  depreciableBasis: number;
+  investorContribution: number;
+  flipYear: number;
+  schedule: TaxEquityYear[];
+  years: number[];
+  sponsorFlows: number[];
+  investorFlows: number[];
+  expectedSponsorFlows: number[];
+  sponsorIRR: IRRResult;
+  investorIRR: IRRResult;
+  portfolioSponsorIRR: IRRResult;
+}
@@ -0,0 +1,15 @@
+export interface TimelinePeriod {
+  index: number;
+  startMonth: number;
+  date: string;
+  label: string;
+}
+
+export interface ProjectMilestones {
+  startDate: string;
+  ntpMonth: number;
+  ntpDate: string;
+  codMonth: number;
+  codDate: string;
+  endMonth: number;
+}
@@ -1,6 +1,41 @@
-import { RiskCategory } from '../types/risk';
+import { RiskCategory, RiskCorrelation } from '../types/risk';
 import { SystemParameters } from '../types/system';
 import { FinancialParameters } from '../types/financial';
+import { ProjectMilestones, TimelinePeriod } from '../types/timeline';
+import {
+  aggregateToPeriods,
+  buildPeriods,
+  calculateGateMonth,
+  calculateProjectMilestones,
+  calendarYears,
+  monthsPerPeriod,
+  parseMonth,
+  periodsPerYear,
+  rollUpToAnnual,
+} from './timeline';
+import { calculateMonthlyOpEx } from './opex';
+import {
+  calculateITCRate,
+  calculatePTCMultiplier,
+  monetizeCredits,
+} from './federalIncentives';
+import { calculateIncentiveFlows, sumIncentiveSeries } from './incentives';
+import { calculateRealizedRate } from './revenue';
+import {
+  calculateMonthlyGeneration,
+  calculateMonthlyRateFactors,
+} from './production';
+import { IncentiveDefinition } from '../types/incentives';
+import { CashFlowLedger } from '../types/ledger';
+import { buildLedger } from './ledger';
+import { calculateIRR } from './irr';
+import { calculateFinancialMetrics } from './metrics';
+import { FinancialMetrics } from '../types/metrics';
+import { IRRResult } from '../types/irr';
+import {
+  createJointPassProbability,
+  JointPassProbability,
+} from './correlation';
 
 export function calculateGoNoGoProbability(
   approvalRisk: number | undefined,
@@ -10,188 +45,515 @@ export function calculateGoNoGoProbability(
   return 1 - ((1 - worstCaseScenario) / 14) * (risk - 1);
 }
 
-export interface CashFlowResult {
-  flows: number[];
-  expectedFlows: number[];
+// A named cash flow series, such as one OpEx line item
+export interface CashFlowSeries {
+  id: string;
+  label: string;
+  values: number[];
 }
 
-export function calculateCashFlows(
-  riskCategories: RiskCategory[],
-  systemParams: SystemParameters,
-  financialParameters: FinancialParameters
-): { 
-  flows: number[]; 
-  expectedFlows: number[];
-  successfulProjectIRR: number;
-  portfolioIRR: number;
-  projectsReachingNTP: number;
-} {
-  const years = systemParams.projectLength;
-  const flows: number[] = [];
-  const expectedFlows: number[] = [];
-  let cumulativeProbability = 1;
+export interface CashFlowLineItems {
+  devEx: number[];
+  capEx: number[];
+  opEx: CashFlowSeries[];
+  revenue: number[];
+  itc: number[];
+  ptc: number[];
+  incentives: CashFlowSeries[];
+}
 
-  // Development Phase (Year 0)
-  const totalDevEx = riskCategories.reduce((sum, cat) => sum + cat.devEx, 0);
-  const totalCapExIncrease = riskCategories.reduce(
-    (sum, cat) => sum + cat.capExIncrease,
-    0
-  );
-  const totalCapEx =
-    financialParameters.baseCaseCapExPerMW * systemParams.systemSize +
-    totalCapExIncrease;
-  
-  const itcAmount = totalCapEx * financialParameters.itcRate;
-  const nySunAmount =
-    systemParams.systemSize *
-    1000000 *
-    financialParameters.nySunIncentivePerWatt;
-
-  // Calculate initial probabilities
-  const initialGoNoGo = riskCategories.reduce(
-    (prob, cat) =>
-      prob * calculateGoNoGoProbability(cat.approvalRisk, cat.worstCaseScenario),
-    1
-  );
+// The federal credit a project elects, with what either credit would give
+export interface FederalCreditSummary {
+  elected: "itc" | "ptc";
+  itcRate: number;
+  itcValue: number;
+  ptcValue: number;
+  itcProjectIRR: IRRResult;
+  ptcProjectIRR: IRRResult;
+}
 
-  // Year 0 (Development)
-  flows.push(-totalDevEx);
-  expectedFlows.push(-totalDevEx * cumulativeProbability);
+// Monthly cash flows of a project that passes every milestone, from the
+// start of development to the end of operations
+export interface ProjectSchedule {
+  milestones: ProjectMilestones;
+  devExByCategory: number[][];
+  lineItems: CashFlowLineItems;
+  federalCredits: FederalCreditSummary;
+  // Monthly generation in MWh
+  generation: number[];
+}
 
-  cumulativeProbability *= initialGoNoGo;
+export interface CashFlowResult {
+  milestones: ProjectMilestones;
+  federalCredits: FederalCreditSummary;
+  periods: TimelinePeriod[];
+  years: number[];
+  // Cash flows by calendar year, for display
+  ledger: CashFlowLedger;
+  // Cash flows by period of the timeline resolution, which the IRRs are
+  // solved on
+  periodLedger: CashFlowLedger;
+  projectMetrics: FinancialMetrics;
+  portfolioMetrics: FinancialMetrics;
+  projectsReachingNTP: number;
+  milestoneSurvival: number[];
+  expectedDevEx: number;
+  expectedSunkCost: number;
+}
 
-  // Year 1 (Construction + Incentives)
-  flows.push(-totalCapEx + nySunAmount);
-  expectedFlows.push((-totalCapEx + nySunAmount) * cumulativeProbability);
+// Share of the pipeline still active at a given month, after every
+// go/no-go decision made up to that point
+export function calculatePipelineShare(
+  riskCategories: RiskCategory[],
+  month: number,
+  passProbability: JointPassProbability = createJointPassProbability(
+    riskCategories,
+    []
+  )
+): number {
+  return passProbability(
+    riskCategories.flatMap((cat, gate) =>
+      calculateGateMonth(cat) <= month ? [gate] : []
+    )
+  );
+}
 
-  // Calculate probability of reaching NTP (Year 1)
-  const projectsReachingNTP = riskCategories.reduce(
-    (prob, cat) => prob * cat.goNoGoProbability,
-    1
+// Share of the pipeline still active in each month from the start of
+// development. Gates are decided at the end of their milestone, whatever
+// their order in the list, so overlapping milestones are weighted by the
+// decisions actually made before each month's spend.
+export function calculateMonthlyPipelineShare(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[],
+  months: number,
+  passProbability: JointPassProbability = createJointPassProbability(
+    riskCategories,
+    correlations
+  )
+): number[] {
+  return Array.from({ length: months }, (_, month) =>
+    calculatePipelineShare(riskCategories, month, passProbability)
   );
+}
+
+// Probability that a project reaches each milestone, in list order: the
+// share still active when the milestone starts, after every gate decided
+// by then. The last entry is the probability of passing every gate and
+// reaching NTP. Correlated gates pass or fail together more often than
+// their product.
+export function calculateMilestoneSurvival(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[] = [],
+  passProbability: JointPassProbability = createJointPassProbability(
+    riskCategories,
+    correlations
+  )
+): number[] {
+  return [
+    ...riskCategories.map((cat) =>
+      calculatePipelineShare(
+        riskCategories,
+        cat.startOffsetMonths,
+        passProbability
+      )
+    ),
+    passProbability(riskCategories.map((_, gate) => gate)),
+  ];
+}
 
-  // Year 2 onwards (Operations)
-  const opEx = financialParameters.baseOpExPerMW * systemParams.systemSize;
-  let degradationFactor = 1;
-  const annualGeneration =
-    systemParams.systemSize *
-    (systemParams.capacityFactor / 100) *
-    24 *
-    365;
-
-  for (let i = 2; i <= years + 1; i++) {
-    // Only apply degradation after year 2
-    if (i > 2) {
-      degradationFactor -= systemParams.degradationRate;
+// Each month's DevEx is only spent by projects that survived every gate
+// decided before it, so the expected spend decays with attrition
+export function calculateExpectedDevEx(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[] = []
+): number {
+  const passProbability = createJointPassProbability(
+    riskCategories,
+    correlations
+  );
+  return riskCategories.reduce((sum, cat) => {
+    const duration = Math.max(1, cat.durationMonths);
+    let share = 0;
+    for (let m = 0; m < duration; m++) {
+      share += calculatePipelineShare(
+        riskCategories,
+        cat.startOffsetMonths + m,
+        passProbability
+      );
     }
-    const generation = annualGeneration * degradationFactor;
-    const escalatedRate =
-      financialParameters.electricityRate *
-      Math.pow(1 + financialParameters.priceEscalation, i - 2);
-    const revenue = generation * escalatedRate;
-    const annualOpEx =
-      opEx * Math.pow(1 + financialParameters.priceEscalation, i - 2);
-
-    const cashFlow = revenue - annualOpEx;
-    flows.push(cashFlow);
-    expectedFlows.push(cashFlow * cumulativeProbability);
-  }
+    return sum + (cat.devEx / duration) * share;
+  }, 0);
+}
 
-  // Add ITC in year 2
-  flows[2] += itcAmount;
-  expectedFlows[2] += itcAmount * cumulativeProbability;
+export function sumLineItems(lineItems: CashFlowLineItems): number[] {
+  return lineItems.devEx.map(
+    (devEx, i) =>
+      devEx +
+      lineItems.capEx[i] +
+      lineItems.opEx.reduce((sum, series) => sum + series.values[i], 0) +
+      lineItems.revenue[i] +
+      lineItems.itc[i] +
+      lineItems.ptc[i] +
+      lineItems.incentives.reduce((sum, series) => sum + series.values[i], 0)
+  );
+}
 
-  const successfulProjectIRR = calculateIRR(flows);
-  const portfolioIRR = calculateIRR(expectedFlows);
+// Monthly cash from operations: revenue and production incentives less OpEx
+export function calculateOperatingCashFlow(
+  lineItems: CashFlowLineItems,
+  incentives: IncentiveDefinition[]
+): number[] {
+  const operatingIncentives = sumIncentiveSeries(
+    lineItems.incentives,
+    incentives,
+    true,
+    lineItems.revenue.length
+  );
+  return lineItems.revenue.map(
+    (revenue, month) =>
+      revenue +
+      operatingIncentives[month] +
+      lineItems.opEx.reduce((sum, series) => sum + series.values[month], 0)
+  );
+}
 
+function mapLineItems(
+  lineItems: CashFlowLineItems,
+  transform: (values: number[], key: keyof CashFlowLineItems) => number[]
+): CashFlowLineItems {
   return {
-    flows,
-    expectedFlows,
-    successfulProjectIRR,
-    portfolioIRR,
-    projectsReachingNTP
+    devEx: transform(lineItems.devEx, "devEx"),
+    capEx: transform(lineItems.capEx, "capEx"),
+    opEx: lineItems.opEx.map((series) => ({
+      ...series,
+      values: transform(series.values, "opEx"),
+    })),
+    revenue: transform(lineItems.revenue, "revenue"),
+    itc: transform(lineItems.itc, "itc"),
+    ptc: transform(lineItems.ptc, "ptc"),
+    incentives: lineItems.incentives.map((series) => ({
+      ...series,
+      values: transform(series.values, "incentives"),
+    })),
   };
 }
 
-// Helper function to calculate IRR
-function calculateIRR(cashFlows: number[]): number {
-  // Check if all cash flows are zero
-  if (cashFlows.every((cf) => cf === 0)) {
-    return 0;
-  }
+// Monthly DevEx of an average pipeline project, weighting each month's
+// spend by the share of projects still active in it
+export function calculateExpectedDevExSchedule(
+  schedule: ProjectSchedule,
+  pipelineShare: number[]
+): number[] {
+  return schedule.lineItems.devEx.map(
+    (devEx, month) => devEx * pipelineShare[month]
+  );
+}
 
-  // Check if all cash flows are positive or all are negative
-  const allPositive = cashFlows.every((cf) => cf >= 0);
-  const allNegative = cashFlows.every((cf) => cf <= 0);
-  if (allPositive || allNegative) {
-    return 0;
-  }
+// Expected monthly flows of an average pipeline project for a financing
+// structure whose only pre-NTP flows are DevEx: DevEx is weighted by
+// stage-gated attrition and everything else by the share reaching NTP
+export function calculateExpectedStructureFlows(
+  schedule: ProjectSchedule,
+  pipelineShare: number[],
+  monthlyFlows: number[]
+): number[] {
+  const projectsReachingNTP = pipelineShare[pipelineShare.length - 1];
+  const expectedDevEx = calculateExpectedDevExSchedule(
+    schedule,
+    pipelineShare
+  );
+  return monthlyFlows.map(
+    (flow, month) =>
+      expectedDevEx[month] +
+      (flow - schedule.lineItems.devEx[month]) * projectsReachingNTP
+  );
+}
 
-  try {
-    return newtonRaphson(
-      (r) => npv(cashFlows, r),
-      (r) => npvDerivative(cashFlows, r),
-      0.1, // Initial guess
-      0.00001, // Tolerance
-      100 // Max iterations
+export function calculateCashFlows(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters
+): CashFlowResult {
+  const schedule = calculateProjectSchedule(
+    riskCategories,
+    systemParams,
+    financialParameters
+  );
+  const { milestones } = schedule;
+  const startDate = systemParams.developmentStartDate;
+  const resolution = systemParams.timelineResolution;
+
+  // Joint probabilities are estimated once and shared by every gate set
+  const passProbability = createJointPassProbability(
+    riskCategories,
+    systemParams.riskCorrelations
+  );
+  const milestoneSurvival = calculateMilestoneSurvival(
+    riskCategories,
+    systemParams.riskCorrelations,
+    passProbability
+  );
+  const projectsReachingNTP = milestoneSurvival[riskCategories.length];
+  const totalDevEx = riskCategories.reduce((sum, cat) => sum + cat.devEx, 0);
+  const totalMonths = schedule.lineItems.devEx.length;
+  const pipelineShare = calculateMonthlyPipelineShare(
+    riskCategories,
+    systemParams.riskCorrelations,
+    totalMonths,
+    passProbability
+  );
+  const expectedDevExSchedule = calculateExpectedDevExSchedule(
+    schedule,
+    pipelineShare
+  );
+  const expectedDevEx = -expectedDevExSchedule.reduce(
+    (sum, spend) => sum + spend,
+    0
+  );
+
+  // Each month's DevEx is weighted by the gates decided before it,
+  // everything after NTP is only incurred by projects that pass every gate
+  const expectedMonthlyLineItems = mapLineItems(
+    schedule.lineItems,
+    (values, key) =>
+      key === "devEx"
+        ? expectedDevExSchedule
+        : values.map((value) => value * projectsReachingNTP)
+  );
+
+  // DevEx spent on projects that are abandoned before NTP
+  const expectedSunkCost = expectedDevEx - totalDevEx * projectsReachingNTP;
+
+  const periods = buildPeriods(startDate, totalMonths, resolution);
+  const periodLedger = buildLedger(
+    schedule.lineItems,
+    expectedMonthlyLineItems,
+    schedule.federalCredits.elected,
+    periods.map((period) => period.label),
+    periods.map((period) =>
+      calculatePipelineShare(
+        riskCategories,
+        period.startMonth + monthsPerPeriod(resolution) - 1,
+        passProbability
+      )
+    ),
+    (values) => aggregateToPeriods(values, resolution)
+  );
+
+  // IRRs and NPVs are solved on the dated period flows and annualized
+  const calculateMetrics = (
+    lineItems: CashFlowLineItems,
+    generationShare: number
+  ) =>
+    calculateFinancialMetrics(
+      sumLineItems(lineItems),
+      lineItems.devEx.map(
+        (devEx, month) =>
+          -(
+            devEx +
+            lineItems.capEx[month] +
+            lineItems.opEx.reduce((sum, series) => sum + series.values[month], 0)
+          )
+      ),
+      schedule.generation.map((value) => value * generationShare),
+      startDate,
+      resolution,
+      financialParameters
     );
-  } catch (error) {
-    console.log("Newton-Raphson method failed:", error);
-    // If Newton-Raphson fails, try a simpler approach
-    const minRate = -0.5;
-    const maxRate = 0.5;
-    let bestRate = 0;
-    let bestNpv = Infinity;
-
-    // Try 100 different rates
-    for (let i = 0; i < 100; i++) {
-      const rate = minRate + ((maxRate - minRate) * i) / 99;
-      const npvValue = Math.abs(npv(cashFlows, rate));
-
-      if (npvValue < bestNpv) {
-        bestNpv = npvValue;
-        bestRate = rate;
-      }
-    }
 
-    return bestRate;
-  }
-}
+  // Calendar-year roll-ups for display
+  const years = calendarYears(startDate, totalMonths);
+  const ledger = buildLedger(
+    schedule.lineItems,
+    expectedMonthlyLineItems,
+    schedule.federalCredits.elected,
+    years.map((year) => `${year}`),
+    years.map((year) => {
+      const yearEndMonth =
+        (year - years[0] + 1) * 12 - parseMonth(startDate).month;
+      return calculatePipelineShare(
+        riskCategories,
+        yearEndMonth,
+        passProbability
+      );
+    }),
+    (values) => rollUpToAnnual(values, startDate)
+  );
 
-// Helper function to calculate NPV
-function npv(cashFlows: number[], rate: number): number {
-  return cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, i), 0);
+  return {
+    milestones,
+    federalCredits: schedule.federalCredits,
+    periods,
+    years,
+    ledger,
+    periodLedger,
+    projectMetrics: calculateMetrics(schedule.lineItems, 1),
+    portfolioMetrics: calculateMetrics(
+      expectedMonthlyLineItems,
+      projectsReachingNTP
+    ),
+    projectsReachingNTP,
+    milestoneSurvival,
+    expectedDevEx,
+    expectedSunkCost,
+  };
 }
 
-// Helper function to calculate NPV derivative
-function npvDerivative(cashFlows: number[], rate: number): number {
-  return cashFlows.reduce(
-    (sum, cf, i) =>
-      i === 0 ? sum : sum - (i * cf) / Math.pow(1 + rate, i + 1),
+export function calculateProjectSchedule(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters
+): ProjectSchedule {
+  const milestones = calculateProjectMilestones(riskCategories, systemParams);
+  const { ntpMonth, codMonth, endMonth } = milestones;
+  const months = Math.max(endMonth, codMonth + 1);
+  const emptySeries = () => Array<number>(months).fill(0);
+
+  // Development: each milestone's DevEx is spread evenly over its duration
+  const devExByCategory = riskCategories.map((cat) => {
+    const spend = emptySeries();
+    const duration = Math.max(1, cat.durationMonths);
+    for (let m = 0; m < duration; m++) {
+      const month = cat.startOffsetMonths + m;
+      if (month < months) spend[month] -= cat.devEx / duration;
+    }
+    return spend;
+  });
+  const devEx = emptySeries().map((_, month) =>
+    devExByCategory.reduce((sum, spend) => sum + spend[month], 0)
+  );
+
+  // Construction: CapEx is spread evenly from NTP to COD
+  const totalCapExIncrease = riskCategories.reduce(
+    (sum, cat) => sum + cat.capExIncrease,
     0
   );
-}
+  const totalCapEx =
+    financialParameters.baseCaseCapExPerMW * systemParams.systemSize +
+    totalCapExIncrease;
+  const constructionMonths = Math.max(1, systemParams.constructionMonths);
+  const capEx = emptySeries();
+  for (let m = 0; m < constructionMonths; m++) {
+    capEx[ntpMonth + m] -= totalCapEx / constructionMonths;
+  }
 
-// Helper function for Newton-Raphson method
-function newtonRaphson(
-  f: (x: number) => number,
-  fPrime: (x: number) => number,
-  x0: number,
-  tolerance: number,
-  maxIterations: number
-): number {
-  let x = x0;
-  for (let i = 0; i < maxIterations; i++) {
-    const fx = f(x);
-    const fpx = fPrime(x);
-    const xNew = x - fx / fpx;
-
-    if (Math.abs(xNew - x) < tolerance) {
-      return xNew;
+  // The ITC is earned when the system is placed in service and the PTC on
+  // each MWh generated during its term
+  const incentives = financialParameters.federalIncentives;
+  const itcRate = calculateITCRate(incentives);
+  const itcCredits = emptySeries();
+  itcCredits[codMonth] = totalCapEx * itcRate;
+  const ptcCredits = emptySeries();
+  const ptcMultiplier = calculatePTCMultiplier(incentives);
+
+  // Operations from COD: generation follows the calendar month's share of the
+  // year, degrades each operating year and is paid at the realized bill
+  // credit rate, scaled by the month's time-of-use factor
+  const revenue = emptySeries();
+  const generation = emptySeries();
+  const opEx: CashFlowSeries[] = financialParameters.opExLineItems.map(
+    (item) => ({ id: item.id, label: item.name, values: emptySeries() })
+  );
+  const monthlyGeneration = calculateMonthlyGeneration(systemParams);
+  const monthlyRateFactors = calculateMonthlyRateFactors(
+    systemParams,
+    financialParameters.revenue.timeOfUsePeriods
+  );
+  const startMonthOfYear = parseMonth(milestones.startDate).month - 1;
+
+  for (let month = codMonth; month < endMonth; month++) {
+    const operatingYear = Math.floor((month - codMonth) / 12);
+    const degradationFactor = 1 - systemParams.degradationRate * operatingYear;
+    const monthOfYear = (startMonthOfYear + month) % 12;
+    generation[month] = monthlyGeneration[monthOfYear] * degradationFactor;
+    revenue[month] =
+      generation[month] *
+      monthlyRateFactors[monthOfYear] *
+      calculateRealizedRate(financialParameters.revenue, operatingYear);
+    if (operatingYear < incentives.ptcTermYears) {
+      ptcCredits[month] =
+        generation[month] *
+        incentives.ptcRatePerMWh *
+        ptcMultiplier *
+        Math.pow(1 + incentives.ptcEscalation, operatingYear);
     }
-    x = xNew;
+    financialParameters.opExLineItems.forEach((item, i) => {
+      opEx[i].values[month] = -calculateMonthlyOpEx(
+        item,
+        systemParams,
+        operatingYear,
+        revenue[month]
+      );
+    });
   }
-  throw new Error("Newton-Raphson method did not converge");
+
+  // State incentives, each on its own basis and payment timing
+  const stateIncentives: CashFlowSeries[] = financialParameters.incentives.map(
+    (incentive) => ({
+      id: incentive.id,
+      label: incentive.name,
+      values: calculateIncentiveFlows(incentive, {
+        systemParams,
+        milestones,
+        months,
+        generation,
+      }),
+    })
+  );
+
+  // Elect the credit with the higher project IRR unless one is chosen
+  const itcCash = monetizeCredits(itcCredits, incentives.transfer);
+  const ptcCash = monetizeCredits(ptcCredits, incentives.transfer);
+  const emptyCredits = emptySeries();
+  const withoutCredits: CashFlowLineItems = {
+    devEx,
+    capEx,
+    opEx,
+    revenue,
+    itc: emptyCredits,
+    ptc: emptyCredits,
+    incentives: stateIncentives,
+  };
+  const resolution = systemParams.timelineResolution;
+  const itcProjectIRR = calculateIRR(
+    aggregateToPeriods(
+      sumLineItems({ ...withoutCredits, itc: itcCash }),
+      resolution
+    ),
+    periodsPerYear(resolution)
+  );
+  const ptcProjectIRR = calculateIRR(
+    aggregateToPeriods(
+      sumLineItems({ ...withoutCredits, ptc: ptcCash }),
+      resolution
+    ),
+    periodsPerYear(resolution)
+  );
+  const elected =
+    incentives.election === "best"
+      ? (ptcProjectIRR.irr ?? -Infinity) > (itcProjectIRR.irr ?? -Infinity)
+        ? "ptc"
+        : "itc"
+      : incentives.election;
+
+  return {
+    milestones,
+    devExByCategory,
+    lineItems: {
+      ...withoutCredits,
+      itc: elected === "itc" ? itcCash : emptySeries(),
+      ptc: elected === "ptc" ? ptcCash : emptySeries(),
+    },
+    federalCredits: {
+      elected,
+      itcRate,
+      itcValue: itcCredits[codMonth],
+      ptcValue: ptcCredits.reduce((sum, credit) => sum + credit, 0),
+      itcProjectIRR,
+      ptcProjectIRR,
+    },
+    generation,
+  };
 }
 
 export function calculateCategoryIRR(
@@ -201,7 +563,7 @@ export function calculateCategoryIRR(
   riskCategories: RiskCategory[],
   systemParams: SystemParameters,
   financialParameters: FinancialParameters
-): number {
+): number | null {
   // Create a modified copy of the risk categories with the specified category's values
   const modifiedCategories = riskCategories.map((cat) => {
     if (cat.name === categoryName) {
@@ -218,13 +580,13 @@ export function calculateCategoryIRR(
   });
 
   // Use the existing calculateCashFlows function with the modified categories
-  const { expectedFlows } = calculateCashFlows(
+  const { portfolioMetrics } = calculateCashFlows(
     modifiedCategories,
     systemParams,
     financialParameters
   );
 
-  return calculateIRR(expectedFlows);
+  return portfolioMetrics.irr.irr;
 }
 
 export function calculateSensitivityIRR(
@@ -234,7 +596,7 @@ export function calculateSensitivityIRR(
   riskCategories: RiskCategory[],
   systemParams: SystemParameters,
   financialParameters: FinancialParameters
-): number {
+): number | null {
   // Create a copy of the risk categories
   const modifiedCategories = riskCategories.map((cat) => {
     if (cat.name === categoryName) {
@@ -257,11 +619,11 @@ export function calculateSensitivityIRR(
   });
 
   // Use the existing calculateCashFlows function with the modified categories
-  const { expectedFlows } = calculateCashFlows(
+  const { portfolioMetrics } = calculateCashFlows(
     modifiedCategories,
     systemParams,
     financialParameters
   );
 
-  return calculateIRR(expectedFlows);
+  return portfolioMetrics.irr.irr;
 }
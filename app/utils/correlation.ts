@@ -0,0 +1,288 @@
+import { RiskCategory, RiskCorrelation, RiskOutcome } from "../types/risk";
+
+// Probability that a project passes every gate in a set, by category index
+export type JointPassProbability = (gates: number[]) => number;
+
+// Quasi-random scenarios behind every joint probability estimate, so the
+// same inputs always give the same result
+const sampleCount = 16384;
+
+// Standard normal cumulative distribution (Zelen and Severo, error < 1e-7)
+export function normalCDF(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
+
+// Inverse of the standard normal distribution (Acklam, error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+// Standard normal scores of a low-discrepancy (R_d) sequence, one column per
+// dimension, cached since every estimate of the same size reuses them
+const normalScores = new Map<number, number[][]>();
+
+function quasiNormalScores(dimensions: number): number[][] {
+  const cached = normalScores.get(dimensions);
+  if (cached) return cached;
+  let phi = 2;
+  for (let i = 0; i < 30; i++) phi = Math.pow(1 + phi, 1 / (dimensions + 1));
+  const scores = Array.from({ length: dimensions }, (_, j) => {
+    const alpha = Math.pow(1 / phi, j + 1);
+    return Array.from({ length: sampleCount }, (_, s) =>
+      normalQuantile((0.5 + alpha * (s + 1)) % 1)
+    );
+  });
+  normalScores.set(dimensions, scores);
+  return scores;
+}
+
+// Lower triangular L with L * L^T equal to the matrix, or null if the matrix
+// isn't positive definite
+function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const factor = matrix.map(() => Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= factor[i][k] * factor[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        factor[i][i] = Math.sqrt(sum);
+      } else {
+        factor[i][j] = sum / factor[j][j];
+      }
+    }
+  }
+  return factor;
+}
+
+const samePair = (
+  correlation: RiskCorrelation,
+  first: string,
+  second: string
+) =>
+  (correlation.first === first && correlation.second === second) ||
+  (correlation.first === second && correlation.second === first);
+
+export function correlationBetween(
+  correlations: RiskCorrelation[],
+  first: string,
+  second: string,
+  outcome: RiskOutcome
+): number {
+  return (
+    correlations.find((correlation) => samePair(correlation, first, second))?.[
+      outcome
+    ] ?? 0
+  );
+}
+
+// The correlations with one pair's value changed. Pairs that are independent
+// in both outcomes are dropped.
+export function setCorrelation(
+  correlations: RiskCorrelation[],
+  first: string,
+  second: string,
+  outcome: RiskOutcome,
+  value: number
+): RiskCorrelation[] {
+  const existing = correlations.find((correlation) =>
+    samePair(correlation, first, second)
+  ) ?? { first, second, approval: 0, cost: 0 };
+  const updated = {
+    ...existing,
+    [outcome]: Math.min(1, Math.max(-1, value)),
+  };
+  const others = correlations.filter(
+    (correlation) => !samePair(correlation, first, second)
+  );
+  return updated.approval === 0 && updated.cost === 0
+    ? others
+    : [...others, updated];
+}
+
+// Pairs follow a category when it is renamed
+export function renameInCorrelations(
+  correlations: RiskCorrelation[],
+  from: string,
+  to: string
+): RiskCorrelation[] {
+  return correlations.map((correlation) => ({
+    ...correlation,
+    first: correlation.first === from ? to : correlation.first,
+    second: correlation.second === from ? to : correlation.second,
+  }));
+}
+
+// Pairs are dropped with a removed category, so a later category given the
+// same name doesn't inherit them
+export function removeFromCorrelations(
+  correlations: RiskCorrelation[],
+  name: string
+): RiskCorrelation[] {
+  return correlations.filter(
+    (correlation) => correlation.first !== name && correlation.second !== name
+  );
+}
+
+// Correlation matrix of one outcome in category order. Pairs naming a
+// category that no longer exists are ignored.
+export function correlationMatrix(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[],
+  outcome: RiskOutcome
+): number[][] {
+  const matrix: number[][] = riskCategories.map((_, i) =>
+    riskCategories.map((_, j) => (i === j ? 1 : 0))
+  );
+  correlations.forEach((correlation) => {
+    const i = riskCategories.findIndex(
+      (category) => category.name === correlation.first
+    );
+    const j = riskCategories.findIndex(
+      (category) => category.name === correlation.second
+    );
+    if (i < 0 || j < 0 || i === j) return;
+    const value = Math.min(1, Math.max(-1, correlation[outcome]));
+    matrix[i][j] = value;
+    matrix[j][i] = value;
+  });
+  return matrix;
+}
+
+// Cholesky factor of an outcome's correlation matrix, or null when every
+// category is independent. Pairwise values that can't all hold at once are
+// blended toward independence until they can; shrinkage is the share taken
+// off every correlation.
+export function correlationFactor(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[],
+  outcome: RiskOutcome
+): { factor: number[][] | null; shrinkage: number } {
+  const matrix = correlationMatrix(riskCategories, correlations, outcome);
+  if (matrix.every((row, i) => row.every((value, j) => i === j || !value))) {
+    return { factor: null, shrinkage: 0 };
+  }
+  for (let step = 0; step < 20; step++) {
+    const shrinkage = step / 20;
+    const factor = cholesky(
+      matrix.map((row, i) =>
+        row.map((value, j) => (i === j ? 1 : value * (1 - shrinkage)))
+      )
+    );
+    if (factor) return { factor, shrinkage };
+  }
+  return { factor: null, shrinkage: 1 };
+}
+
+// Joint pass probabilities with go/no-go outcomes linked by a Gaussian
+// copula: a project passes a gate when its correlated normal score falls
+// below the quantile of the gate's probability. Estimates are scaled from
+// the independent product by the ratio of correlated to independent passes
+// in the same scenarios, so independence is exact and sampling noise largely
+// cancels.
+export function createJointPassProbability(
+  riskCategories: RiskCategory[],
+  correlations: RiskCorrelation[]
+): JointPassProbability {
+  const probabilities = riskCategories.map((cat) => cat.goNoGoProbability);
+  const independent = (gates: number[]) =>
+    gates.reduce((product, gate) => product * probabilities[gate], 1);
+  const { factor } = correlationFactor(
+    riskCategories,
+    correlations,
+    "approval"
+  );
+  if (!factor) return independent;
+
+  const thresholds = probabilities.map(normalQuantile);
+  const scores = quasiNormalScores(riskCategories.length);
+  const correlatedScores = factor.map((row) =>
+    Array.from({ length: sampleCount }, (_, s) =>
+      row.reduce((sum, weight, k) => sum + weight * scores[k][s], 0)
+    )
+  );
+  const estimates = new Map<string, number>();
+
+  return (gates) => {
+    const key = gates.join(",");
+    const cached = estimates.get(key);
+    if (cached !== undefined) return cached;
+    const passes = (values: number[][], s: number) =>
+      gates.every((gate) => values[gate][s] <= thresholds[gate]);
+    let correlatedPasses = 0;
+    let independentPasses = 0;
+    for (let s = 0; s < sampleCount; s++) {
+      if (passes(correlatedScores, s)) correlatedPasses++;
+      if (passes(scores, s)) independentPasses++;
+    }
+    const estimate =
+      independentPasses > 0
+        ? Math.min(
+            1,
+            (independent(gates) * correlatedPasses) / independentPasses
+          )
+        : correlatedPasses / sampleCount;
+    estimates.set(key, estimate);
+    return estimate;
+  };
+}
+
+function standardNormal(random: () => number): number {
+  // Box-Muller
+  return (
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  );
+}
+
+// One uniform draw per category whose normal scores are correlated by the
+// factor, for sampling outcomes through a Gaussian copula
+export function createCopulaSampler(
+  factor: number[][],
+  random: () => number
+): () => number[] {
+  return () => {
+    const normals = factor.map(() => standardNormal(random));
+    return factor.map((row) =>
+      normalCDF(row.reduce((sum, weight, k) => sum + weight * normals[k], 0))
+    );
+  };
+}
@@ -0,0 +1,220 @@
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import {
+  DebtParameters,
+  DebtResult,
+  DebtServiceRow,
+  DebtSizingMethod,
+} from "../types/debt";
+import {
+  calculateExpectedStructureFlows,
+  calculateMonthlyPipelineShare,
+  calculateOperatingCashFlow,
+  calculateProjectSchedule,
+} from "./cashFlowCalculations";
+import {
+  aggregateToPeriods,
+  calendarYears,
+  periodsPerYear,
+  rollUpToAnnual,
+} from "./timeline";
+import { sumIncentiveSeries } from "./incentives";
+import { calculateIRR } from "./irr";
+
+export const debtSizingLabels: Record<DebtSizingMethod, string> = {
+  dscr: "Target DSCR",
+  leverage: "Max Leverage",
+  lesserOf: "Lesser of DSCR / Leverage",
+};
+
+// Present value of a series of annual amounts paid at the end of each year
+function presentValue(values: number[], rate: number): number {
+  return values.reduce(
+    (sum, value, i) => sum + value / Math.pow(1 + rate, i + 1),
+    0
+  );
+}
+
+function annuityFactor(rate: number, years: number): number {
+  if (years <= 0) return 0;
+  if (rate === 0) return years;
+  return (1 - Math.pow(1 + rate, -years)) / rate;
+}
+
+export function calculateDebt(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters,
+  debtParameters: DebtParameters
+): DebtResult {
+  const schedule = calculateProjectSchedule(
+    riskCategories,
+    systemParams,
+    financialParameters
+  );
+  const { lineItems, milestones } = schedule;
+  const { ntpMonth, codMonth } = milestones;
+  const months = lineItems.devEx.length;
+  const startDate = systemParams.developmentStartDate;
+  const resolution = systemParams.timelineResolution;
+
+  // Cash flow available for debt service: revenue and production
+  // incentives less operating costs
+  const monthlyCFADS = calculateOperatingCashFlow(
+    lineItems,
+    financialParameters.incentives
+  );
+  const upfrontIncentives = sumIncentiveSeries(
+    lineItems.incentives,
+    financialParameters.incentives,
+    false,
+    months
+  );
+  const operatingYears = systemParams.projectLength;
+  const annualCFADS = Array.from({ length: operatingYears }, (_, year) =>
+    monthlyCFADS
+      .slice(codMonth + year * 12, codMonth + (year + 1) * 12)
+      .reduce((sum, value) => sum + value, 0)
+  );
+
+  // Construction loan: draws fund a share of each CapEx payment, with
+  // interest capitalized until it converts to term debt at COD
+  const totalCapEx = -lineItems.capEx.reduce((sum, value) => sum + value, 0);
+  const monthlyConstructionRate = debtParameters.constructionLoanRate / 12;
+  let constructionLoanBalance = 0;
+  let constructionInterest = 0;
+  const conversionMonth = Math.max(codMonth, ntpMonth + 1);
+  for (let month = ntpMonth; month < conversionMonth; month++) {
+    const interest = constructionLoanBalance * monthlyConstructionRate;
+    const draw =
+      -lineItems.capEx[month] * debtParameters.constructionAdvanceRate;
+    constructionInterest += interest;
+    constructionLoanBalance += interest + draw;
+  }
+
+  // Term debt sizing
+  const tenor = Math.max(
+    0,
+    Math.min(Math.round(debtParameters.tenorYears), operatingYears)
+  );
+  const rate = debtParameters.interestRate;
+  const tenorCFADS = annualCFADS
+    .slice(0, tenor)
+    .map((cfads) => Math.max(0, cfads));
+  const targetDSCR = Math.max(debtParameters.targetDSCR, 0.01);
+  const dscrSize =
+    debtParameters.amortization === "sculpted"
+      ? presentValue(
+          tenorCFADS.map((cfads) => cfads / targetDSCR),
+          rate
+        )
+      : (tenor > 0 ? Math.min(...tenorCFADS) / targetDSCR : 0) *
+        annuityFactor(rate, tenor);
+  const leverageSize = debtParameters.maxLeverage * totalCapEx;
+  const debtSize = Math.max(
+    0,
+    debtParameters.sizingMethod === "dscr"
+      ? dscrSize
+      : debtParameters.sizingMethod === "leverage"
+        ? leverageSize
+        : Math.min(dscrSize, leverageSize)
+  );
+  const upfrontFee = debtSize * debtParameters.upfrontFeeRate;
+
+  // Sculpted debt service is a constant share of CFADS that repays the
+  // debt over the tenor; level debt service is a fixed annuity payment
+  const sculptShare =
+    presentValue(tenorCFADS, rate) > 0
+      ? debtSize / presentValue(tenorCFADS, rate)
+      : 0;
+  const levelPayment = tenor > 0 ? debtSize / annuityFactor(rate, tenor) : 0;
+
+  const debtSchedule: DebtServiceRow[] = [];
+  let balance = debtSize;
+  for (let year = 0; year < tenor; year++) {
+    const interest = balance * rate;
+    const debtService =
+      debtParameters.amortization === "sculpted"
+        ? tenorCFADS[year] * sculptShare
+        : levelPayment;
+    const principal = Math.min(balance, debtService - interest);
+    debtSchedule.push({
+      operatingYear: year + 1,
+      cfads: annualCFADS[year],
+      openingBalance: balance,
+      interest,
+      principal,
+      debtService: interest + principal,
+      closingBalance: balance - principal,
+      dscr:
+        interest + principal > 0
+          ? annualCFADS[year] / (interest + principal)
+          : null,
+    });
+    balance -= principal;
+  }
+
+  // Levered equity funds DevEx and the unfinanced share of CapEx, and
+  // receives the term debt proceeds left after repaying the construction loan
+  const monthlyEquityFlows = Array.from({ length: months }, (_, month) => {
+    let flow =
+      lineItems.devEx[month] +
+      lineItems.capEx[month] * (1 - debtParameters.constructionAdvanceRate) +
+      lineItems.itc[month] +
+      lineItems.ptc[month] +
+      upfrontIncentives[month];
+    if (month === codMonth) {
+      flow += debtSize - upfrontFee - constructionLoanBalance;
+    }
+    if (month >= codMonth) {
+      const operatingYear = Math.floor((month - codMonth) / 12);
+      const debtService = debtSchedule[operatingYear]?.debtService ?? 0;
+      flow += monthlyCFADS[month] - debtService / 12;
+    }
+    return flow;
+  });
+
+  const expectedMonthlyEquityFlows = calculateExpectedStructureFlows(
+    schedule,
+    calculateMonthlyPipelineShare(
+      riskCategories,
+      systemParams.riskCorrelations,
+      schedule.lineItems.devEx.length
+    ),
+    monthlyEquityFlows
+  );
+
+  const equityIRR = calculateIRR(
+    aggregateToPeriods(monthlyEquityFlows, resolution),
+    periodsPerYear(resolution)
+  );
+  const portfolioEquityIRR = calculateIRR(
+    aggregateToPeriods(expectedMonthlyEquityFlows, resolution),
+    periodsPerYear(resolution)
+  );
+
+  const coverageRatios = debtSchedule
+    .map((row) => row.dscr)
+    .filter((dscr): dscr is number => dscr !== null);
+
+  return {
+    debtSize,
+    leverage: totalCapEx > 0 ? debtSize / totalCapEx : 0,
+    upfrontFee,
+    constructionLoanBalance,
+    constructionInterest,
+    schedule: debtSchedule,
+    years: calendarYears(startDate, months),
+    equityFlows: rollUpToAnnual(monthlyEquityFlows, startDate),
+    expectedEquityFlows: rollUpToAnnual(expectedMonthlyEquityFlows, startDate),
+    equityIRR,
+    portfolioEquityIRR,
+    minDSCR: coverageRatios.length > 0 ? Math.min(...coverageRatios) : 0,
+    avgDSCR:
+      coverageRatios.length > 0
+        ? coverageRatios.reduce((sum, dscr) => sum + dscr, 0) /
+          coverageRatios.length
+        : 0,
+  };
+}
@@ -0,0 +1,1075 @@
+import * as XLSX from "xlsx";
+import { FinancialParameters } from "../types/financial";
+import { FinancialMetricUnit } from "../types/metrics";
+import { PortfolioResult } from "../types/portfolio";
+import { RiskCategory } from "../types/risk";
+import {
+  ModelInputUnit,
+  ModelOutput,
+  TornadoResult,
+} from "../types/sensitivity";
+import { SystemParameters } from "../types/system";
+import {
+  calculateCashFlows,
+  calculateMonthlyPipelineShare,
+  calculateProjectSchedule,
+  calculateSensitivityIRR,
+} from "./cashFlowCalculations";
+import { calculateITCRate, calculatePTCMultiplier } from "./federalIncentives";
+import { opExBasisLabels } from "./opex";
+import { calculateIRR } from "./irr";
+import { calculateProductionSummary, hoursPerYear } from "./production";
+import { calculateBillCreditRate } from "./revenue";
+import { modelOutputs, rankTornadoBars, tornadoSwing } from "./sensitivity";
+import { calculateGateMonth, parseMonth, rollUpToAnnual } from "./timeline";
+
+type ExportCell = XLSX.CellObject | string | number | null;
+
+const currencyFormat = "#,##0";
+const percentFormat = "0.00%";
+const shareFormat = "0.0%";
+const factorFormat = "0.0000";
+
+// Approval risks shown on the Sensitivity sheet
+const sensitivityApprovalRisks = Array.from({ length: 15 }, (_, i) => i + 1);
+
+// A formula with the value the web model calculated for it, so the workbook
+// shows numbers before Excel recalculates
+const formula = (
+  f: string,
+  v: number,
+  z = currencyFormat
+): XLSX.CellObject => ({
+  t: "n",
+  f,
+  v,
+  z,
+});
+
+const number = (v: number, z = currencyFormat): XLSX.CellObject => ({
+  t: "n",
+  v,
+  z,
+});
+
+const col = (index: number) => XLSX.utils.encode_col(index);
+
+const ratio = (value: number, base: number) => (base !== 0 ? value / base : 0);
+
+function toSheet(rows: ExportCell[][], widths: number[]): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  let lastColumn = 0;
+  rows.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      if (cell === null || cell === "") return;
+      sheet[XLSX.utils.encode_cell({ r, c })] =
+        typeof cell === "object"
+          ? cell
+          : typeof cell === "number"
+            ? { t: "n", v: cell }
+            : { t: "s", v: cell };
+      lastColumn = Math.max(lastColumn, c);
+    })
+  );
+  sheet["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: Math.max(0, rows.length - 1), c: lastColumn },
+  });
+  sheet["!cols"] = widths.map((wch) => ({ wch }));
+  return sheet;
+}
+
+// Share of a spend spread evenly over [start, start + duration) that falls
+// in each calendar year
+function evenSpendShares(
+  start: number,
+  duration: number,
+  months: number,
+  startDate: string
+): number[] {
+  const spend = Array<number>(months).fill(0);
+  const length = Math.max(1, duration);
+  for (let m = 0; m < length; m++) {
+    if (start + m < months) spend[start + m] = 1 / length;
+  }
+  return rollUpToAnnual(spend, startDate);
+}
+
+// A workbook that rebuilds the model in Excel. Inputs follows the layout of
+// Financial-model.xlsx, so it can be imported again. Cash Flow cells are
+// formulas on Inputs, with the timing, escalation and degradation of the
+// monthly schedule carried as factors on the Schedule sheet.
+export function buildModelWorkbook(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters
+): XLSX.WorkBook {
+  const result = calculateCashFlows(
+    riskCategories,
+    systemParams,
+    financialParameters
+  );
+  const schedule = calculateProjectSchedule(
+    riskCategories,
+    systemParams,
+    financialParameters
+  );
+  const { ledger, years, milestones, milestoneSurvival } = result;
+  const startDate = systemParams.developmentStartDate;
+  const months = schedule.lineItems.devEx.length;
+  const annual = (values: number[]) => rollUpToAnnual(values, startDate);
+  const lineValues = (id: string) =>
+    ledger.lines.find((line) => line.id === id)?.values ??
+    Array<number>(years.length).fill(0);
+  const incentives = financialParameters.federalIncentives;
+  const elected = result.federalCredits.elected;
+
+  // Inputs: the risk table in A:G with its bounds in O:R, the system
+  // overview in H:K, and everything else below
+  const n = riskCategories.length;
+  const riskRow = (i: number) => i + 2;
+  const inputs: ExportCell[][] = [
+    [
+      "Risk Category",
+      "Financing Risk",
+      "DevEx",
+      "Increase in CapEx",
+      "Approval Risk",
+      "Go/No-Go Probability",
+      "Worst Case Approval Scenario",
+      "System Overview",
+      null,
+      null,
+      null,
+      "Share Reaching Milestone",
+      "Correlation Factor",
+      null,
+      "DevEx Low Bound",
+      "DevEx Upper Bound",
+      "CapEx Low Bound",
+      "CapEx Upper Bound",
+    ],
+  ];
+  // A milestone is reached by passing every gate decided before it starts,
+  // whatever their order in the list. Correlated gates pass together more
+  // or less often than the product of their probabilities.
+  const gatesDecidedBy = (month: number) =>
+    riskCategories.flatMap((cat, gate) =>
+      calculateGateMonth(cat) <= month ? [gate] : []
+    );
+  const decidedGates = riskCategories.map((cat) =>
+    gatesDecidedBy(cat.startOffsetMonths)
+  );
+  const independentShare = (gates: number[]) =>
+    gates.reduce(
+      (share, gate) => share * riskCategories[gate].goNoGoProbability,
+      1
+    );
+  const correlationFactors = decidedGates.map((gates, i) => {
+    const independent = independentShare(gates);
+    return independent > 0 ? milestoneSurvival[i] / independent : 1;
+  });
+  const ntpIndependent = independentShare(
+    riskCategories.map((_, gate) => gate)
+  );
+  const ntpCorrelationFactor =
+    ntpIndependent > 0 ? result.projectsReachingNTP / ntpIndependent : 1;
+  riskCategories.forEach((cat, i) => {
+    const r = riskRow(i);
+    inputs[r - 1] = [
+      cat.name,
+      cat.riskLevel,
+      formula(`IF(B${r}="Low",O${r},P${r})`, cat.devEx),
+      formula(`IF(B${r}="Low",Q${r},R${r})`, cat.capExIncrease),
+      cat.approvalRisk ?? 1,
+      formula(`1-((1-G${r})/14)*(E${r}-1)`, cat.goNoGoProbability, shareFormat),
+      number(cat.worstCaseScenario, shareFormat),
+      null,
+      null,
+      null,
+      null,
+      formula(
+        [...decidedGates[i].map((gate) => `F${riskRow(gate)}`), `M${r}`].join(
+          "*"
+        ),
+        milestoneSurvival[i],
+        shareFormat
+      ),
+      number(correlationFactors[i], factorFormat),
+      null,
+      number(cat.devExLow),
+      number(cat.devExHigh),
+      number(cat.capExIncreaseLow),
+      number(cat.capExIncreaseHigh),
+    ];
+  });
+
+  const { annualGeneration } = calculateProductionSummary(systemParams);
+  const capacityFactor = ratio(
+    annualGeneration,
+    systemParams.systemSize * hoursPerYear
+  );
+  const electricityRate = calculateBillCreditRate(
+    financialParameters.revenue,
+    0
+  );
+  const leaseEscalation =
+    financialParameters.opExLineItems.find(
+      (item) => item.category === "landLease"
+    )?.escalationRate ?? 0;
+  const overview: [string, ExportCell, string, ExportCell][] = [
+    [
+      "Capacity Factor",
+      number(capacityFactor, shareFormat),
+      "Degradation Rate",
+      number(systemParams.degradationRate, percentFormat),
+    ],
+    [
+      "System Size (MW_DC)",
+      number(systemParams.systemSize, "0.00"),
+      "Lease Escalation Rate",
+      number(leaseEscalation, percentFormat),
+    ],
+    [
+      "System Size (MW_AC)",
+      number(systemParams.acSystemSize, "0.00"),
+      "Price Escalation",
+      number(financialParameters.revenue.fixedRateEscalation, percentFormat),
+    ],
+    [
+      "Project Type",
+      "Community Solar",
+      "Base System Cost $/Watt",
+      number(financialParameters.baseCaseCapExPerMW / 1000000, "0.00"),
+    ],
+    ["Electricity Rate", number(electricityRate, "0.00"), "", null],
+  ];
+  overview.forEach(([label, value, secondLabel, secondValue], i) => {
+    const row = (inputs[i + 1] ??= []);
+    row[7] = label;
+    row[8] = value;
+    row[9] = secondLabel;
+    row[10] = secondValue;
+  });
+
+  // Further inputs, as label / value / note rows
+  const totalCapEx = -lineValues("capEx").reduce((sum, v) => sum + v, 0);
+  const itcRate = calculateITCRate(incentives);
+  const salePrice = incentives.transfer.enabled
+    ? incentives.transfer.pricePerDollar
+    : 1;
+  const ptcRate = incentives.ptcRatePerMWh * calculatePTCMultiplier(incentives);
+  const refs: Record<string, string> = {};
+  let row = Math.max(n + 1, 6) + 2;
+  const addInput = (
+    key: string,
+    label: string,
+    value: XLSX.CellObject,
+    note = ""
+  ) => {
+    inputs[row - 1] = [label, value, note];
+    refs[key] = `Inputs!$B$${row}`;
+    return row++;
+  };
+  inputs[row - 1] = ["Additional Inputs"];
+  row++;
+  const siteAcresRow = addInput(
+    "siteAcres",
+    "Site Acres",
+    number(systemParams.siteAcres, "0.0")
+  );
+  addInput(
+    "pipelineSize",
+    "Pipeline Size (projects)",
+    number(systemParams.pipelineSize, "0")
+  );
+  addInput(
+    "totalCapEx",
+    "Total CapEx",
+    formula(
+      n > 0 ? `K5*1000000*I3+SUM(D2:D${n + 1})` : "K5*1000000*I3",
+      totalCapEx
+    ),
+    "Base cost times DC size plus each category's CapEx increase"
+  );
+  addInput(
+    "annualGeneration",
+    "Annual Generation (MWh)",
+    formula(`I2*I3*${hoursPerYear}`, annualGeneration, "#,##0"),
+    "Before degradation, on a DC capacity factor"
+  );
+  const ntpCorrelationRow = addInput(
+    "ntpCorrelationFactor",
+    "Correlation Factor at NTP",
+    number(ntpCorrelationFactor, factorFormat),
+    "Chance of passing every gate over the product of their probabilities"
+  );
+  addInput(
+    "projectsReachingNTP",
+    "Projects Reaching NTP",
+    n > 0
+      ? formula(
+          `PRODUCT(F2:F${n + 1})*B${ntpCorrelationRow}`,
+          result.projectsReachingNTP,
+          shareFormat
+        )
+      : number(1, shareFormat)
+  );
+
+  // Development is split into stages by the months gates are decided. Each
+  // stage's share of projects still active is the product of the gates
+  // decided so far and their correlation factor.
+  const pipelineShare = calculateMonthlyPipelineShare(
+    riskCategories,
+    systemParams.riskCorrelations,
+    months
+  );
+  const stageMonths = [
+    ...new Set(
+      riskCategories
+        .map(calculateGateMonth)
+        .filter((month) => month < milestones.ntpMonth)
+    ),
+  ].sort((a, b) => a - b);
+  const stageRefs = stageMonths.map((month) => {
+    const gates = gatesDecidedBy(month);
+    const independent = independentShare(gates);
+    const factorRow = addInput(
+      `stageFactor${month}`,
+      `Correlation Factor from Month ${month}`,
+      number(
+        independent > 0 ? pipelineShare[month] / independent : 1,
+        factorFormat
+      ),
+      "Chance of passing the gates decided so far over the product of their probabilities"
+    );
+    addInput(
+      `stageShare${month}`,
+      `Projects Active from Month ${month}`,
+      formula(
+        [...gates.map((gate) => `F${riskRow(gate)}`), `B${factorRow}`].join(
+          "*"
+        ),
+        pipelineShare[month],
+        shareFormat
+      )
+    );
+    return { month, ref: refs[`stageShare${month}`] };
+  });
+  // The stage a month falls in, or null before any gate is decided
+  const stageOf = (month: number) =>
+    stageRefs.reduce<number | null>(
+      (stage, { month: from }, i) => (month >= from ? i : stage),
+      null
+    );
+
+  addInput(
+    "itcRate",
+    "Expected ITC Rate",
+    number(itcRate, percentFormat),
+    "Base rate and adders weighted by the chance of qualifying"
+  );
+  addInput(
+    "ptcRate",
+    "Expected PTC Rate ($/MWh)",
+    number(ptcRate, "0.00"),
+    "Year-one rate with adders weighted by the chance of qualifying"
+  );
+  addInput(
+    "salePrice",
+    "Credit Sale Price ($ per $1 of credit)",
+    number(salePrice, "0.00"),
+    incentives.transfer.enabled ? "Credits are sold" : "Credits are used"
+  );
+  addInput(
+    "discountRate",
+    "Discount Rate",
+    number(financialParameters.discountRate, percentFormat)
+  );
+  row++;
+
+  // OpEx line items: annual amount on its basis
+  inputs[row - 1] = ["Operating Costs", "Amount", "Basis", "Quantity"];
+  row++;
+  const opExRefs = financialParameters.opExLineItems.map((item) => {
+    const quantity =
+      item.basis === "perMW"
+        ? formula("I3", systemParams.systemSize, "0.00")
+        : item.basis === "perAcre"
+          ? formula(`B${siteAcresRow}`, systemParams.siteAcres, "0.0")
+          : number(1, "0");
+    inputs[row - 1] = [
+      item.name,
+      number(
+        item.amount,
+        item.basis === "percentOfRevenue" ? percentFormat : currencyFormat
+      ),
+      opExBasisLabels[item.basis],
+      item.basis === "percentOfRevenue" ? null : quantity,
+    ];
+    const ref = { amount: `Inputs!$B$${row}`, quantity: `Inputs!$D$${row}` };
+    row++;
+    return ref;
+  });
+  row++;
+
+  // State incentives: total paid, timed by the Schedule sheet
+  inputs[row - 1] = ["State Incentives", "Total Paid"];
+  row++;
+  const incentiveRefs = financialParameters.incentives.map((incentive) => {
+    const total = lineValues(`incentive:${incentive.id}`).reduce(
+      (sum, v) => sum + v,
+      0
+    );
+    inputs[row - 1] = [incentive.name, number(total)];
+    const ref = `Inputs!$B$${row}`;
+    row++;
+    return { ref, total };
+  });
+  row++;
+  inputs[row - 1] = [
+    "Timing, escalation and degradation from the web model's monthly schedule are carried by the factors on the Schedule sheet.",
+  ];
+
+  // Schedule: per-year factors that turn the inputs into cash flows
+  const yearColumn = (i: number) => col(i + 1);
+  const scheduleRows: ExportCell[][] = [["Factor", ...years.map(String)]];
+  const addScheduleRow = (label: string, values: number[], z: string) => {
+    scheduleRows.push([label, ...values.map((v) => number(v, z))]);
+    return scheduleRows.length;
+  };
+  // Projects remaining at each year end have passed every gate decided by
+  // then, scaled by the correlation factor of those gates
+  const yearEndGates = years.map((year) =>
+    gatesDecidedBy((year - years[0] + 1) * 12 - parseMonth(startDate).month)
+  );
+  const remainingFactorRow = addScheduleRow(
+    "Correlation Factor: Projects Remaining",
+    yearEndGates.map((gates, i) => {
+      const independent = independentShare(gates);
+      return independent > 0 ? ledger.pipelineShare[i] / independent : 1;
+    }),
+    factorFormat
+  );
+  scheduleRows.push([
+    "Projects Remaining",
+    ...yearEndGates.map((gates, i) =>
+      formula(
+        [
+          ...gates.map((gate) => `Inputs!$F$${riskRow(gate)}`),
+          `${yearColumn(i)}${remainingFactorRow}`,
+        ].join("*"),
+        ledger.pipelineShare[i],
+        shareFormat
+      )
+    ),
+  ]);
+  const pipelineShareRow = scheduleRows.length;
+  const devExShareRows = riskCategories.map((cat) =>
+    addScheduleRow(
+      `DevEx Share: ${cat.name}`,
+      evenSpendShares(
+        cat.startOffsetMonths,
+        cat.durationMonths,
+        months,
+        startDate
+      ),
+      shareFormat
+    )
+  );
+  // Each month's DevEx weighted by the share of projects still active in it:
+  // the months of a category's spend in each year and stage, over its
+  // duration, times the stage's share on the Inputs sheet
+  const expectedDevExByCategory = schedule.devExByCategory.map((spend) =>
+    annual(spend.map((value, month) => value * pipelineShare[month]))
+  );
+  const expectedDevExShareRows = riskCategories.map((cat, i) => {
+    const duration = Math.max(1, cat.durationMonths);
+    const spendMonths = (stage: number | null) =>
+      annual(
+        schedule.devExByCategory[i].map((_, month) =>
+          month >= cat.startOffsetMonths &&
+          month < cat.startOffsetMonths + duration &&
+          stageOf(month) === stage
+            ? 1
+            : 0
+        )
+      );
+    const stages = [null, ...stageRefs.map((_, stage) => stage)].map(
+      (stage) => ({
+        ref: stage === null ? null : stageRefs[stage].ref,
+        months: spendMonths(stage),
+      })
+    );
+    scheduleRows.push([
+      `Expected DevEx Share: ${cat.name}`,
+      ...years.map((_, y) => {
+        const terms = stages
+          .filter((stage) => stage.months[y] > 0)
+          .map(({ ref, months }) =>
+            ref === null
+              ? `${months[y]}/${duration}`
+              : `${months[y]}/${duration}*${ref}`
+          );
+        return formula(
+          terms.length > 0 ? terms.join("+") : "0",
+          ratio(-expectedDevExByCategory[i][y], cat.devEx),
+          shareFormat
+        );
+      }),
+    ]);
+    return scheduleRows.length;
+  });
+  const capExShareRow = addScheduleRow(
+    "CapEx Share",
+    evenSpendShares(
+      milestones.ntpMonth,
+      systemParams.constructionMonths,
+      months,
+      startDate
+    ),
+    shareFormat
+  );
+  const generation = annual(schedule.generation);
+  const generationFactorRow = addScheduleRow(
+    "Generation Factor",
+    generation.map((value) => ratio(value, annualGeneration)),
+    factorFormat
+  );
+  const revenue = lineValues("revenue");
+  const rateIndexRow = addScheduleRow(
+    "Realized Rate Index",
+    revenue.map((value, i) =>
+      ratio(ratio(value, generation[i]), electricityRate)
+    ),
+    factorFormat
+  );
+  // Revenue-based OpEx follows revenue directly unless it has a schedule
+  const revenueBased = financialParameters.opExLineItems.map(
+    (item) =>
+      item.basis === "percentOfRevenue" &&
+      !(item.schedule && item.schedule.length > 0)
+  );
+  const opExFactorRows = financialParameters.opExLineItems.map((item, i) =>
+    revenueBased[i]
+      ? null
+      : addScheduleRow(
+          `OpEx Factor: ${item.name}`,
+          lineValues(`opEx:${item.id}`).map((value) =>
+            ratio(
+              -value,
+              item.amount *
+                (item.basis === "perMW"
+                  ? systemParams.systemSize
+                  : item.basis === "perAcre"
+                    ? systemParams.siteAcres
+                    : 1)
+            )
+          ),
+          factorFormat
+        )
+  );
+  const creditValues = lineValues(elected);
+  const creditFactorRow =
+    elected === "itc"
+      ? addScheduleRow(
+          "ITC Timing",
+          creditValues.map((value) =>
+            ratio(value, totalCapEx * itcRate * salePrice)
+          ),
+          shareFormat
+        )
+      : addScheduleRow(
+          "PTC Credited MWh",
+          creditValues.map((value) => ratio(value, ptcRate * salePrice)),
+          "#,##0"
+        );
+  const incentiveShareRows = financialParameters.incentives.map(
+    (incentive, i) =>
+      addScheduleRow(
+        `Incentive Share: ${incentive.name}`,
+        lineValues(`incentive:${incentive.id}`).map((value) =>
+          ratio(value, incentiveRefs[i].total)
+        ),
+        shareFormat
+      )
+  );
+
+  // Cash Flow: every cell is a formula on Inputs and Schedule
+  const cashFlowRows: ExportCell[][] = [["Category", ...years.map(String)]];
+  const addCashFlowRow = (
+    label: string,
+    cellFormula: (column: string) => string,
+    values: number[],
+    z = currencyFormat
+  ) => {
+    cashFlowRows.push([
+      label,
+      ...years.map((_, i) => formula(cellFormula(yearColumn(i)), values[i], z)),
+    ]);
+    return cashFlowRows.length;
+  };
+  const generationRow = addCashFlowRow(
+    "Generation (MWh)",
+    (c) => `${refs.annualGeneration}*Schedule!${c}${generationFactorRow}`,
+    generation,
+    "#,##0"
+  );
+  const categoryDevEx = schedule.devExByCategory.map(annual);
+  const devExRows = riskCategories.map((cat, i) =>
+    addCashFlowRow(
+      `DevEx: ${cat.name}`,
+      (c) => `-Inputs!$C$${riskRow(i)}*Schedule!${c}${devExShareRows[i]}`,
+      categoryDevEx[i]
+    )
+  );
+  const capExRow = addCashFlowRow(
+    "CapEx",
+    (c) => `-${refs.totalCapEx}*Schedule!${c}${capExShareRow}`,
+    lineValues("capEx")
+  );
+  const revenueRow = addCashFlowRow(
+    "Revenue",
+    (c) => `${c}${generationRow}*Inputs!$I$6*Schedule!${c}${rateIndexRow}`,
+    revenue
+  );
+  const opExRows = financialParameters.opExLineItems.map((item, i) =>
+    addCashFlowRow(
+      item.name,
+      (c) =>
+        revenueBased[i]
+          ? `-${opExRefs[i].amount}*${c}${revenueRow}`
+          : `-${opExRefs[i].amount}*${
+              item.basis === "percentOfRevenue" ? "1" : opExRefs[i].quantity
+            }*Schedule!${c}${opExFactorRows[i]}`,
+      lineValues(`opEx:${item.id}`)
+    )
+  );
+  const creditRow = addCashFlowRow(
+    elected === "itc" ? "ITC" : "PTC",
+    (c) =>
+      elected === "itc"
+        ? `${refs.totalCapEx}*${refs.itcRate}*${refs.salePrice}*Schedule!${c}${creditFactorRow}`
+        : `${refs.ptcRate}*${refs.salePrice}*Schedule!${c}${creditFactorRow}`,
+    creditValues
+  );
+  const incentiveRows = financialParameters.incentives.map((incentive, i) =>
+    addCashFlowRow(
+      incentive.name,
+      (c) => `${incentiveRefs[i].ref}*Schedule!${c}${incentiveShareRows[i]}`,
+      lineValues(`incentive:${incentive.id}`)
+    )
+  );
+  const flowRows = [
+    ...devExRows,
+    capExRow,
+    revenueRow,
+    ...opExRows,
+    creditRow,
+    ...incentiveRows,
+  ];
+  cashFlowRows.push([]);
+  const netRow = addCashFlowRow(
+    "Net Cash Flow",
+    (c) => flowRows.map((r) => `${c}${r}`).join("+"),
+    ledger.totals
+  );
+  addCashFlowRow(
+    "Projects Remaining",
+    (c) => `Schedule!${c}${pipelineShareRow}`,
+    ledger.pipelineShare,
+    shareFormat
+  );
+  const expectedDevExRow = addCashFlowRow(
+    "Expected DevEx",
+    (c) =>
+      expectedDevExShareRows.length > 0
+        ? expectedDevExShareRows
+            .map((r, i) => `-Inputs!$C$${riskRow(i)}*Schedule!${c}${r}`)
+            .join("")
+        : "0",
+    years.map((_, y) =>
+      expectedDevExByCategory.reduce((sum, values) => sum + values[y], 0)
+    )
+  );
+  const expectedRow = addCashFlowRow(
+    "Expected Cash Flow",
+    (c) =>
+      `${c}${expectedDevExRow}+(${c}${netRow}${devExRows
+        .map((r) => `-${c}${r}`)
+        .join("")})*${refs.projectsReachingNTP}`,
+    ledger.expectedTotals
+  );
+
+  // Excel's IRR and NPV on the annual flows; the web model solves on the
+  // monthly or quarterly flows, so they differ slightly
+  const lastColumn = yearColumn(years.length - 1);
+  const range = (r: number) => `B${r}:${lastColumn}${r}`;
+  const npvFormula = (r: number) =>
+    years.length > 1
+      ? `B${r}+NPV(${refs.discountRate},C${r}:${lastColumn}${r})`
+      : `B${r}`;
+  const discounted = (values: number[]) =>
+    values.reduce(
+      (sum, value, i) =>
+        sum + value / Math.pow(1 + financialParameters.discountRate, i),
+      0
+    );
+  cashFlowRows.push([]);
+  cashFlowRows.push([
+    "Project IRR (annual)",
+    formula(
+      `IRR(${range(netRow)})`,
+      calculateIRR(ledger.totals).irr ?? 0,
+      percentFormat
+    ),
+  ]);
+  cashFlowRows.push([
+    "Portfolio IRR (annual)",
+    formula(
+      `IRR(${range(expectedRow)})`,
+      calculateIRR(ledger.expectedTotals).irr ?? 0,
+      percentFormat
+    ),
+  ]);
+  cashFlowRows.push([
+    "Project NPV (annual)",
+    formula(npvFormula(netRow), discounted(ledger.totals)),
+  ]);
+  cashFlowRows.push([
+    "Portfolio NPV (annual)",
+    formula(npvFormula(expectedRow), discounted(ledger.expectedTotals)),
+  ]);
+
+  // Portfolio: the whole pipeline by year
+  const portfolioRows: ExportCell[][] = [
+    [
+      "Year",
+      "Projects Remaining",
+      "Expected Cash Flow per Project",
+      "Portfolio Cash Flow",
+      "Cumulative Cash Flow",
+    ],
+  ];
+  let cumulative = 0;
+  years.forEach((year, i) => {
+    const r = i + 2;
+    const c = yearColumn(i);
+    const portfolioFlow = ledger.expectedTotals[i] * systemParams.pipelineSize;
+    cumulative += portfolioFlow;
+    portfolioRows.push([
+      year,
+      formula(
+        `Schedule!${c}${pipelineShareRow}*${refs.pipelineSize}`,
+        ledger.pipelineShare[i] * systemParams.pipelineSize,
+        "0.00"
+      ),
+      formula(`'Cash Flow'!${c}${expectedRow}`, ledger.expectedTotals[i]),
+      formula(`C${r}*${refs.pipelineSize}`, portfolioFlow),
+      formula(i === 0 ? `D${r}` : `E${r - 1}+D${r}`, cumulative),
+    ]);
+  });
+  const lastPortfolioRow = years.length + 1;
+  portfolioRows.push([]);
+  portfolioRows.push([
+    "Projects Reaching NTP",
+    formula(
+      `${refs.projectsReachingNTP}*${refs.pipelineSize}`,
+      result.projectsReachingNTP * systemParams.pipelineSize,
+      "0.00"
+    ),
+  ]);
+  portfolioRows.push([
+    "Expected DevEx per Project",
+    formula(
+      `-SUM('Cash Flow'!${range(expectedDevExRow)})`,
+      result.expectedDevEx
+    ),
+  ]);
+  portfolioRows.push([
+    "Portfolio IRR (annual)",
+    formula(
+      `IRR(D2:D${lastPortfolioRow})`,
+      calculateIRR(ledger.expectedTotals).irr ?? 0,
+      percentFormat
+    ),
+  ]);
+
+  // Sensitivity: portfolio IRRs from the web model as each category's risk
+  // changes. Excel can't rerun the monthly model, so these are values.
+  const sensitivityRows: ExportCell[][] = [
+    [
+      "Portfolio IRR when one category's financial and approval risk change, as calculated by the web model",
+    ],
+    [],
+  ];
+  riskCategories.forEach((cat) => {
+    sensitivityRows.push([
+      cat.name,
+      ...sensitivityApprovalRisks.map((risk) => `Approval ${risk}`),
+    ]);
+    (["Low", "High"] as const).forEach((riskLevel) => {
+      sensitivityRows.push([
+        `${riskLevel} financial risk`,
+        ...sensitivityApprovalRisks.map((approvalRisk) => {
+          const irr = calculateSensitivityIRR(
+            cat.name,
+            riskLevel,
+            approvalRisk,
+            riskCategories,
+            systemParams,
+            financialParameters
+          );
+          return irr === null ? "No IRR" : number(irr, percentFormat);
+        }),
+      ]);
+    });
+    sensitivityRows.push([]);
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(
+      inputs,
+      [28, 14, 14, 16, 13, 18, 20, 24, 16, 24, 12, 20, 4, 4, 16, 16, 16, 16]
+    ),
+    "Inputs"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(cashFlowRows, [28, ...years.map(() => 14)]),
+    "Cash Flow"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(scheduleRows, [34, ...years.map(() => 10)]),
+    "Schedule"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(portfolioRows, [28, 18, 28, 20, 20]),
+    "Portfolio"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(sensitivityRows, [24, ...sensitivityApprovalRisks.map(() => 12)]),
+    "Sensitivity"
+  );
+  return workbook;
+}
+
+// Excel sheet names are at most 31 characters, without []:*?/\, and unique
+function sheetName(name: string, used: Set<string>): string {
+  const base =
+    name
+      .replace(/[[\]:*?/\\\s]+/g, " ")
+      .trim()
+      .slice(0, 28) || "Sheet";
+  let unique = base;
+  for (let copy = 2; used.has(unique.toLowerCase()); copy++) {
+    unique = `${base} ${copy}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+}
+
+// A workbook of a heterogeneous portfolio: a summary of each archetype's
+// contribution, the portfolio's expected annual cash flows by archetype,
+// and one sheet per archetype with its expected flows by ledger line
+export function buildPortfolioWorkbook(
+  portfolio: PortfolioResult
+): XLSX.WorkBook {
+  const { contributions, years, metrics } = portfolio;
+  const metricCell = (value: number | null, z: string) =>
+    value === null ? "n/a" : number(value, z);
+  const lastRow = contributions.length + 1;
+  const sumColumn = (c: number, value: number, z = currencyFormat) =>
+    formula(`SUM(${col(c)}2:${col(c)}${lastRow})`, value, z);
+
+  const summaryRows: ExportCell[][] = [
+    [
+      "Archetype",
+      "Projects",
+      "MWdc",
+      "Projects Reaching NTP",
+      "MW Reaching NTP",
+      "Expected DevEx",
+      "IRR",
+      "NPV",
+      "NPV Share",
+      "Peak Funding Need",
+    ],
+    ...contributions.map((contribution) => [
+      contribution.name,
+      contribution.count,
+      number(contribution.capacityMW, "0.00"),
+      number(contribution.projectsReachingNTP, "0.00"),
+      number(contribution.mwReachingNTP, "0.00"),
+      number(contribution.expectedDevEx),
+      metricCell(contribution.metrics.irr.irr, percentFormat),
+      number(contribution.metrics.npv),
+      metricCell(contribution.npvShare, shareFormat),
+      number(contribution.metrics.peakFunding),
+    ]),
+    [
+      "Portfolio",
+      sumColumn(1, portfolio.projectCount, "0"),
+      sumColumn(2, portfolio.capacityMW, "0.00"),
+      sumColumn(3, portfolio.projectsReachingNTP, "0.00"),
+      sumColumn(4, portfolio.mwReachingNTP, "0.00"),
+      sumColumn(
+        5,
+        contributions.reduce((sum, c) => sum + c.expectedDevEx, 0)
+      ),
+      metricCell(metrics.irr.irr, percentFormat),
+      sumColumn(7, metrics.npv),
+      null,
+      number(metrics.peakFunding),
+    ],
+    [],
+    [`Discounted to ${portfolio.startDate}, the earliest start of development`],
+  ];
+
+  const totalColumn = contributions.length + 1;
+  const flowRows: ExportCell[][] = [
+    ["Year", ...contributions.map((c) => c.name), "Portfolio"],
+    ...years.map((year, i) => [
+      year,
+      ...contributions.map((c) => number(c.annualFlows[i])),
+      formula(
+        `SUM(B${i + 2}:${col(totalColumn - 1)}${i + 2})`,
+        portfolio.annualFlows[i]
+      ),
+    ]),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(summaryRows, [28, 10, 10, 20, 16, 16, 10, 16, 10, 18]),
+    "Portfolio"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(flowRows, [10, ...contributions.map(() => 18), 18]),
+    "Portfolio Cash Flow"
+  );
+
+  const used = new Set(["portfolio", "portfolio cash flow"]);
+  contributions.forEach((contribution) => {
+    const { ledger, count } = contribution;
+    const netRow = ledger.lines.length + 4;
+    const rows: ExportCell[][] = [
+      [`${contribution.name}: expected flows of ${count} projects`],
+      [],
+      ["Category", ...contribution.years],
+      ...ledger.lines.map((line) => [
+        line.label,
+        ...line.expectedValues.map((value) => number(value * count)),
+      ]),
+      [
+        "Net Cash Flow",
+        ...contribution.years.map((_, i) =>
+          formula(
+            `SUM(${col(i + 1)}4:${col(i + 1)}${netRow - 1})`,
+            ledger.expectedTotals[i] * count
+          )
+        ),
+      ],
+    ];
+    XLSX.utils.book_append_sheet(
+      workbook,
+      toSheet(rows, [28, ...contribution.years.map(() => 14)]),
+      sheetName(contribution.name, used)
+    );
+  });
+  return workbook;
+}
+
+const inputFormats: Record<ModelInputUnit, string> = {
+  percent: percentFormat,
+  currency: "#,##0.00##",
+  number: "General",
+};
+
+const outputFormats: Record<FinancialMetricUnit, string> = {
+  percent: percentFormat,
+  currency: currencyFormat,
+  perMWh: "#,##0.00",
+  year: "0",
+  multiple: '0.00"x"',
+};
+
+// A workbook of the tornado: each input's range and every output at its low
+// and high values, ranked by the swing in one output. Swings are formulas.
+export function buildTornadoWorkbook(
+  tornado: TornadoResult,
+  rankBy: ModelOutput
+): XLSX.WorkBook {
+  const outputs = Object.keys(modelOutputs) as ModelOutput[];
+  const firstRow = 5;
+  const outputCell = (value: number | null, output: ModelOutput) =>
+    value === null
+      ? "n/a"
+      : number(value, outputFormats[modelOutputs[output].unit]);
+
+  const rows: ExportCell[][] = [
+    [`Inputs ranked by swing in ${modelOutputs[rankBy].label}`],
+    [
+      "Base Case",
+      ...outputs.flatMap((output) => [
+        modelOutputs[output].label,
+        outputCell(tornado.base[output], output),
+      ]),
+    ],
+    [],
+    [
+      "Input",
+      "Group",
+      "Low",
+      "Base",
+      "High",
+      ...outputs.flatMap((output) => [
+        `${modelOutputs[output].label} at Low`,
+        `${modelOutputs[output].label} at High`,
+        `${modelOutputs[output].label} Swing`,
+      ]),
+    ],
+    ...rankTornadoBars(tornado.bars, rankBy).map((bar, i) => {
+      const r = firstRow + i;
+      const z = inputFormats[bar.unit];
+      return [
+        bar.label,
+        bar.group,
+        number(bar.low, z),
+        number(bar.base, z),
+        number(bar.high, z),
+        ...outputs.flatMap((output, j) => {
+          const lowColumn = col(5 + j * 3);
+          const highColumn = col(6 + j * 3);
+          const swing = tornadoSwing(bar, output);
+          return [
+            outputCell(bar.atLow[output], output),
+            outputCell(bar.atHigh[output], output),
+            swing === null
+              ? "n/a"
+              : formula(
+                  `ABS(${highColumn}${r}-${lowColumn}${r})`,
+                  swing,
+                  outputFormats[modelOutputs[output].unit]
+                ),
+          ];
+        }),
+      ];
+    }),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toSheet(rows, [36, 20, 12, 12, 12, ...outputs.flatMap(() => [18, 18, 18])]),
+    "Tornado"
+  );
+  return workbook;
+}
@@ -0,0 +1,454 @@
+import * as XLSX from "xlsx";
+import {
+  RiskTableColumn,
+  WorkbookCellNote,
+  WorkbookImport,
+  WorkbookInput,
+  WorkbookMapping,
+} from "../types/excelImport";
+import { FinancialParameters } from "../types/financial";
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { calculateGoNoGoProbability } from "./cashFlowCalculations";
+
+// The layout of Financial-model.xlsx: the risk table in A2:G6 with its
+// bounds in O2:R6, and the system overview in H2:K6
+export const financialModelMapping: WorkbookMapping = {
+  sheet: "",
+  riskFirstRow: 2,
+  riskLastRow: 6,
+  riskColumns: {
+    name: "A",
+    riskLevel: "B",
+    approvalRisk: "E",
+    worstCaseScenario: "G",
+    devExLow: "O",
+    devExHigh: "P",
+    capExIncreaseLow: "Q",
+    capExIncreaseHigh: "R",
+  },
+  cells: {
+    capacityFactor: "I2",
+    systemSize: "I3",
+    acSystemSize: "I4",
+    siteAcres: "",
+    projectLength: "",
+    degradationRate: "K2",
+    baseSystemCostPerWatt: "K5",
+    billCreditRate: "I6",
+    billCreditEscalation: "K4",
+    leaseEscalation: "K3",
+  },
+};
+
+export const riskTableColumnLabels: Record<RiskTableColumn, string> = {
+  name: "Category",
+  riskLevel: "Financial Risk",
+  approvalRisk: "Approval Risk",
+  worstCaseScenario: "Worst Case Approval",
+  devExLow: "DevEx Low Bound",
+  devExHigh: "DevEx Upper Bound",
+  capExIncreaseLow: "CapEx Low Bound",
+  capExIncreaseHigh: "CapEx Upper Bound",
+};
+
+interface Inputs {
+  systemParams: SystemParameters;
+  financialParameters: FinancialParameters;
+}
+
+// Each input's label, the range it must fall in, and where it goes.
+// Percentages are read as Excel stores them, as decimals.
+export const workbookInputs: Record<
+  WorkbookInput,
+  {
+    label: string;
+    min: number;
+    max?: number;
+    apply: (inputs: Inputs, value: number) => Inputs;
+  }
+> = {
+  capacityFactor: {
+    label: "Capacity Factor",
+    min: 0,
+    max: 1,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: { ...inputs.systemParams, capacityFactor: value * 100 },
+    }),
+  },
+  systemSize: {
+    label: "System Size (MWdc)",
+    min: 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: { ...inputs.systemParams, systemSize: value },
+    }),
+  },
+  acSystemSize: {
+    label: "System Size (MWac)",
+    min: 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: { ...inputs.systemParams, acSystemSize: value },
+    }),
+  },
+  siteAcres: {
+    label: "Site Acres",
+    min: 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: { ...inputs.systemParams, siteAcres: value },
+    }),
+  },
+  projectLength: {
+    label: "Project Length (years)",
+    min: 1,
+    max: 50,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: {
+        ...inputs.systemParams,
+        projectLength: Math.round(value),
+      },
+    }),
+  },
+  degradationRate: {
+    label: "Degradation Rate",
+    min: 0,
+    max: 1,
+    apply: (inputs, value) => ({
+      ...inputs,
+      systemParams: { ...inputs.systemParams, degradationRate: value },
+    }),
+  },
+  baseSystemCostPerWatt: {
+    label: "Base System Cost ($/W)",
+    min: 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      financialParameters: {
+        ...inputs.financialParameters,
+        baseCaseCapExPerMW: value * 1000000,
+      },
+    }),
+  },
+  // A single electricity rate replaces the value stack with a fixed credit
+  billCreditRate: {
+    label: "Electricity Rate ($/MWh)",
+    min: 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      financialParameters: {
+        ...inputs.financialParameters,
+        revenue: {
+          ...inputs.financialParameters.revenue,
+          billCreditMethod: "fixedRate",
+          fixedRatePerMWh: value,
+        },
+      },
+    }),
+  },
+  billCreditEscalation: {
+    label: "Price Escalation",
+    min: -1,
+    max: 1,
+    apply: (inputs, value) => ({
+      ...inputs,
+      financialParameters: {
+        ...inputs.financialParameters,
+        revenue: {
+          ...inputs.financialParameters.revenue,
+          fixedRateEscalation: value,
+        },
+      },
+    }),
+  },
+  leaseEscalation: {
+    label: "Lease Escalation Rate",
+    min: -1,
+    max: 1,
+    apply: (inputs, value) => ({
+      ...inputs,
+      financialParameters: {
+        ...inputs.financialParameters,
+        opExLineItems: inputs.financialParameters.opExLineItems.map((item) =>
+          item.category === "landLease"
+            ? { ...item, escalationRate: value }
+            : item
+        ),
+      },
+    }),
+  },
+};
+
+const cellPattern = /^[A-Z]{1,3}[1-9][0-9]*$/;
+const columnPattern = /^[A-Z]{1,3}$/;
+
+const displayValue = (cell: XLSX.CellObject | undefined) =>
+  cell ? (cell.w ?? String(cell.v ?? "")) : "";
+
+const isEmpty = (cell: XLSX.CellObject | undefined) =>
+  !cell || cell.v === undefined || cell.v === null || cell.v === "";
+
+// Why a cell's value can't be used
+interface CellProblem {
+  problem: string;
+}
+
+type CellParser<T> = (cell: XLSX.CellObject | undefined) => T | CellProblem;
+
+const isProblem = (value: unknown): value is CellProblem =>
+  typeof value === "object" && value !== null && "problem" in value;
+
+// A numeric cell within [min, max]. Formula cells are read from the value
+// Excel last calculated.
+function readNumber(
+  cell: XLSX.CellObject | undefined,
+  min: number,
+  max?: number
+): number | CellProblem {
+  if (isEmpty(cell)) return { problem: "Cell is empty" };
+  const value =
+    typeof cell!.v === "number" ? cell!.v : Number(String(cell!.v).trim());
+  if (!Number.isFinite(value)) return { problem: "Not a number" };
+  if (value < min) return { problem: `Must be at least ${min}` };
+  if (max !== undefined && value > max) {
+    return { problem: `Must be at most ${max}` };
+  }
+  return value;
+}
+
+// Read a workbook's inputs through a mapping, on top of the current inputs.
+// Throws if the workbook can't be read or the mapped sheet is missing.
+export function readWorkbookInputs(
+  data: ArrayBuffer,
+  mapping: WorkbookMapping,
+  current: {
+    riskCategories: RiskCategory[];
+    systemParams: SystemParameters;
+    financialParameters: FinancialParameters;
+  }
+): WorkbookImport {
+  const workbook = XLSX.read(data, { type: "array" });
+  const sheet = mapping.sheet.trim() || workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheet];
+  if (!worksheet) {
+    throw new Error(
+      `The workbook has no sheet named "${sheet}". Its sheets are ${workbook.SheetNames.join(", ")}.`
+    );
+  }
+
+  const read = new Set<string>();
+  const imported: WorkbookCellNote[] = [];
+  const invalid: WorkbookCellNote[] = [];
+  const cellAt = (ref: string) => {
+    read.add(ref);
+    return worksheet[ref] as XLSX.CellObject | undefined;
+  };
+  // Record a cell's value, returning it, or record why it was skipped
+  const readCell = <T>(
+    ref: string,
+    label: string,
+    parse: CellParser<T>
+  ): T | null => {
+    const cell = cellAt(ref);
+    const value = displayValue(cell);
+    const result = parse(cell);
+    if (isProblem(result)) {
+      invalid.push({ cell: ref, label, value, message: result.problem });
+      return null;
+    }
+    imported.push({ cell: ref, label, value });
+    return result;
+  };
+
+  let inputs: Inputs = {
+    systemParams: current.systemParams,
+    financialParameters: current.financialParameters,
+  };
+  (Object.keys(workbookInputs) as WorkbookInput[]).forEach((key) => {
+    const ref = mapping.cells[key].trim().toUpperCase();
+    if (ref === "") return;
+    const { label, min, max, apply } = workbookInputs[key];
+    if (!cellPattern.test(ref)) {
+      invalid.push({ cell: ref, label, value: "", message: "Not a cell" });
+      return;
+    }
+    const value = readCell(ref, label, (cell) => readNumber(cell, min, max));
+    if (value !== null) inputs = apply(inputs, value);
+  });
+
+  const riskCategories = readRiskTable(mapping, current.riskCategories, {
+    cellAt,
+    readCell,
+    invalid,
+  });
+
+  return {
+    sheet,
+    riskCategories,
+    ...inputs,
+    imported,
+    invalid,
+    unmapped: findUnmappedCells(worksheet, mapping, read),
+  };
+}
+
+function readRiskTable(
+  mapping: WorkbookMapping,
+  currentCategories: RiskCategory[],
+  {
+    cellAt,
+    readCell,
+    invalid,
+  }: {
+    cellAt: (ref: string) => XLSX.CellObject | undefined;
+    readCell: <T>(ref: string, label: string, parse: CellParser<T>) => T | null;
+    invalid: WorkbookCellNote[];
+  }
+): RiskCategory[] | null {
+  const columns = Object.fromEntries(
+    Object.entries(mapping.riskColumns).map(([key, column]) => [
+      key,
+      column.trim().toUpperCase(),
+    ])
+  ) as Record<RiskTableColumn, string>;
+  const badColumns = (Object.keys(columns) as RiskTableColumn[]).filter(
+    (key) => !columnPattern.test(columns[key])
+  );
+  if (badColumns.length > 0) {
+    badColumns.forEach((key) =>
+      invalid.push({
+        cell: columns[key],
+        label: riskTableColumnLabels[key],
+        value: "",
+        message: "Not a column",
+      })
+    );
+    return null;
+  }
+
+  const categories: RiskCategory[] = [];
+  for (let row = mapping.riskFirstRow; row <= mapping.riskLastRow; row++) {
+    const ref = (key: RiskTableColumn) => `${columns[key]}${row}`;
+    // Rows without a name are gaps in the table
+    const nameCell = cellAt(ref("name"));
+    if (isEmpty(nameCell)) continue;
+    const name = displayValue(nameCell).trim();
+    const label = (key: RiskTableColumn) =>
+      `${name}: ${riskTableColumnLabels[key]}`;
+
+    const riskLevel = readCell(ref("riskLevel"), label("riskLevel"), (cell) => {
+      const level = displayValue(cell).trim().toLowerCase();
+      if (level === "low") return "Low" as const;
+      if (level === "high") return "High" as const;
+      return { problem: 'Must be "Low" or "High"' };
+    });
+    const approvalRisk = readCell(
+      ref("approvalRisk"),
+      label("approvalRisk"),
+      (cell) => {
+        const value = readNumber(cell, 1, 15);
+        return typeof value === "number" && !Number.isInteger(value)
+          ? { problem: "Must be a whole number" }
+          : value;
+      }
+    );
+    const number = (key: RiskTableColumn, max?: number) =>
+      readCell(ref(key), label(key), (cell) => readNumber(cell, 0, max));
+    const worstCaseScenario = number("worstCaseScenario", 1);
+    const devExLow = number("devExLow");
+    const devExHigh = number("devExHigh");
+    const capExIncreaseLow = number("capExIncreaseLow");
+    const capExIncreaseHigh = number("capExIncreaseHigh");
+
+    if (
+      riskLevel === null ||
+      approvalRisk === null ||
+      worstCaseScenario === null ||
+      devExLow === null ||
+      devExHigh === null ||
+      capExIncreaseLow === null ||
+      capExIncreaseHigh === null
+    ) {
+      continue;
+    }
+
+    // Timing isn't in the workbook, so keep a matching category's or follow
+    // on from the previous row
+    const previous = categories[categories.length - 1];
+    const existing = currentCategories.find(
+      (category) => category.name.toLowerCase() === name.toLowerCase()
+    );
+    categories.push({
+      name,
+      riskLevel,
+      devEx: riskLevel === "High" ? devExHigh : devExLow,
+      capExIncrease:
+        riskLevel === "High" ? capExIncreaseHigh : capExIncreaseLow,
+      approvalRisk,
+      goNoGoProbability: calculateGoNoGoProbability(
+        approvalRisk,
+        worstCaseScenario
+      ),
+      devExLow,
+      devExHigh,
+      capExIncreaseLow,
+      capExIncreaseHigh,
+      worstCaseScenario,
+      startOffsetMonths:
+        existing?.startOffsetMonths ??
+        (previous ? previous.startOffsetMonths + previous.durationMonths : 0),
+      durationMonths: existing?.durationMonths ?? 6,
+    });
+  }
+  return categories.length > 0 ? categories : null;
+}
+
+// Entered values in the block spanned by the mapping that weren't read.
+// Formulas are derived from other cells, and the header row and the columns
+// just left of mapped inputs hold labels, so none of those are reported.
+function findUnmappedCells(
+  worksheet: XLSX.WorkSheet,
+  mapping: WorkbookMapping,
+  read: Set<string>
+): WorkbookCellNote[] {
+  const refs = [...read].filter((ref) => cellPattern.test(ref));
+  if (refs.length === 0) return [];
+  const positions = refs.map((ref) => XLSX.utils.decode_cell(ref));
+  // Zero-based, as the cell positions are
+  const headerRow = mapping.riskFirstRow - 2;
+  const top = Math.min(...positions.map((p) => p.r));
+  const bottom = Math.max(...positions.map((p) => p.r));
+  const left = Math.min(...positions.map((p) => p.c));
+  const right = Math.max(...positions.map((p) => p.c));
+  const labelColumns = new Set(
+    Object.values(mapping.cells)
+      .map((ref) => ref.trim().toUpperCase())
+      .filter((ref) => cellPattern.test(ref))
+      .map((ref) => XLSX.utils.decode_cell(ref).c - 1)
+  );
+
+  const unmapped: WorkbookCellNote[] = [];
+  for (let r = top; r <= bottom; r++) {
+    if (r === headerRow) continue;
+    for (let c = left; c <= right; c++) {
+      if (labelColumns.has(c)) continue;
+      const ref = XLSX.utils.encode_cell({ r, c });
+      const cell = worksheet[ref] as XLSX.CellObject | undefined;
+      if (read.has(ref) || isEmpty(cell) || cell!.f) continue;
+      const labelCell =
+        c > 0
+          ? (worksheet[XLSX.utils.encode_cell({ r, c: c - 1 })] as
+              XLSX.CellObject | undefined)
+          : undefined;
+      unmapped.push({
+        cell: ref,
+        label: labelCell?.t === "s" ? String(labelCell.v) : "",
+        value: displayValue(cell),
+      });
+    }
+  }
+  return unmapped;
+}
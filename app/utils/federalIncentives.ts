@@ -0,0 +1,84 @@
+import {
+  CreditElection,
+  CreditTransfer,
+  FederalIncentives,
+} from "../types/financial";
+
+// Without prevailing wage and apprenticeship the base credits, and adders
+// that scale with them, are a fifth as large
+const withoutPrevailingWageFactor = 0.2;
+
+export const creditElectionLabels: Record<CreditElection, string> = {
+  itc: "ITC",
+  ptc: "PTC",
+  best: "Best of ITC / PTC",
+};
+
+function prevailingWageFactor(incentives: FederalIncentives): number {
+  return (
+    withoutPrevailingWageFactor +
+    (1 - withoutPrevailingWageFactor) * incentives.prevailingWageProbability
+  );
+}
+
+// Qualification for each requirement is independent, so evaluating the
+// rates at the qualification probabilities gives their expected values
+export function calculateITCRate(incentives: FederalIncentives): number {
+  const wageFactor = prevailingWageFactor(incentives);
+  return incentives.adders.reduce(
+    (rate, adder) =>
+      rate +
+      adder.rate *
+        adder.qualificationProbability *
+        (adder.scalesWithPrevailingWage ? wageFactor : 1),
+    incentives.baseITCRate * wageFactor
+  );
+}
+
+export function calculatePTCMultiplier(incentives: FederalIncentives): number {
+  return (
+    prevailingWageFactor(incentives) *
+    incentives.adders.reduce(
+      (multiplier, adder) =>
+        adder.appliesToPTC
+          ? multiplier + adder.rate * adder.qualificationProbability
+          : multiplier,
+      1
+    )
+  );
+}
+
+// Draw whether a single project qualifies for prevailing wage and each adder
+export function sampleIncentiveQualification(
+  incentives: FederalIncentives,
+  random: () => number
+): FederalIncentives {
+  return {
+    ...incentives,
+    prevailingWageProbability:
+      random() < incentives.prevailingWageProbability ? 1 : 0,
+    adders: incentives.adders.map((adder) => ({
+      ...adder,
+      qualificationProbability:
+        random() < adder.qualificationProbability ? 1 : 0,
+    })),
+  };
+}
+
+// Cash received for monthly credits, either used directly when earned or
+// sold at a discount and received after a delay
+export function monetizeCredits(
+  credits: number[],
+  transfer: CreditTransfer
+): number[] {
+  if (!transfer.enabled) return credits;
+  const cash = Array<number>(credits.length).fill(0);
+  credits.forEach((credit, month) => {
+    const saleMonth = Math.min(
+      credits.length - 1,
+      month + Math.max(0, Math.round(transfer.delayMonths))
+    );
+    cash[saleMonth] += credit * transfer.pricePerDollar;
+  });
+  return cash;
+}
@@ -0,0 +1,282 @@
+import { SystemParameters } from "../types/system";
+import { ProjectMilestones } from "../types/timeline";
+import {
+  CapacityBasis,
+  IncentiveBlock,
+  IncentiveDefinition,
+  IncentiveMilestone,
+  IncentivePayment,
+  IncentiveType,
+  ProductionPaymentFrequency,
+} from "../types/incentives";
+import { CashFlowSeries } from "./cashFlowCalculations";
+
+export interface IncentiveContext {
+  systemParams: SystemParameters;
+  milestones: ProjectMilestones;
+  months: number;
+  // Monthly generation in MWh
+  generation: number[];
+}
+
+// Each incentive type's definition, so a calculator looked up by type takes
+// the matching definition
+type IncentiveOfType = {
+  [T in IncentiveType]: Extract<IncentiveDefinition, { type: T }>;
+};
+
+type IncentiveCalculator<T extends IncentiveType> = (
+  incentive: IncentiveOfType[T],
+  context: IncentiveContext
+) => number[];
+
+export const incentiveTypeLabels: Record<IncentiveType, string> = {
+  upfront: "Upfront $/W",
+  decliningBlock: "Declining Block $/W",
+  production: "Production $/kWh",
+  subscriberAdder: "LMI Subscriber Adder $/W",
+};
+
+export const incentiveMilestoneLabels: Record<IncentiveMilestone, string> = {
+  ntp: "NTP",
+  cod: "COD",
+};
+
+export const capacityBasisLabels: Record<CapacityBasis, string> = {
+  dc: "MWdc",
+  ac: "MWac",
+};
+
+export const paymentFrequencyLabels: Record<
+  ProductionPaymentFrequency,
+  string
+> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annual: "Annual",
+};
+
+const monthsPerPayment: Record<ProductionPaymentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+export const projectCapacityMW = (
+  systemParams: SystemParameters,
+  basis: CapacityBasis
+) => (basis === "ac" ? systemParams.acSystemSize : systemParams.systemSize);
+
+const projectWatts = (systemParams: SystemParameters, basis: CapacityBasis) =>
+  projectCapacityMW(systemParams, basis) * 1000000;
+
+// Pay a lump sum in shares after the milestones it is tied to
+function payLumpSum(
+  amount: number,
+  payments: IncentivePayment[],
+  context: IncentiveContext
+): number[] {
+  const flows = Array<number>(context.months).fill(0);
+  payments.forEach((payment) => {
+    const milestoneMonth =
+      payment.milestone === "ntp"
+        ? context.milestones.ntpMonth
+        : context.milestones.codMonth;
+    const month = Math.min(
+      context.months - 1,
+      milestoneMonth + Math.max(0, Math.round(payment.delayMonths))
+    );
+    flows[month] += amount * payment.share;
+  });
+  return flows;
+}
+
+// $/W for a project taking the next capacity in a declining-block program,
+// blending the rates of every block it spans
+export function calculateBlockRate(
+  blocks: IncentiveBlock[],
+  programCapacityFilledMW: number,
+  projectMW: number
+): number {
+  if (projectMW <= 0) return 0;
+  let blockStart = 0;
+  let value = 0;
+  blocks.forEach((block) => {
+    const blockEnd = blockStart + block.capacityMW;
+    const overlap =
+      Math.min(blockEnd, programCapacityFilledMW + projectMW) -
+      Math.max(blockStart, programCapacityFilledMW);
+    if (overlap > 0) value += overlap * block.ratePerWatt;
+    blockStart = blockEnd;
+  });
+  return value / projectMW;
+}
+
+// One calculator per incentive type. A new type is added by extending the
+// IncentiveDefinition union and registering its calculator here.
+const incentiveCalculators: { [T in IncentiveType]: IncentiveCalculator<T> } = {
+  upfront: (incentive, context) =>
+    payLumpSum(
+      incentive.ratePerWatt *
+        projectWatts(context.systemParams, incentive.capacityBasis),
+      incentive.payments,
+      context
+    ),
+  decliningBlock: (incentive, context) =>
+    payLumpSum(
+      calculateBlockRate(
+        incentive.blocks,
+        incentive.programCapacityFilledMW,
+        projectCapacityMW(context.systemParams, incentive.capacityBasis)
+      ) * projectWatts(context.systemParams, incentive.capacityBasis),
+      incentive.payments,
+      context
+    ),
+  production: (incentive, context) => {
+    const { codMonth, endMonth } = context.milestones;
+    const flows = Array<number>(context.months).fill(0);
+    const step = monthsPerPayment[incentive.paymentFrequency];
+    const termEnd = Math.min(endMonth, codMonth + incentive.termYears * 12);
+    for (let month = codMonth; month < termEnd; month++) {
+      const operatingYear = Math.floor((month - codMonth) / 12);
+      // Paid at the end of each payment period after COD
+      const paymentMonth = Math.min(
+        context.months - 1,
+        codMonth + (Math.floor((month - codMonth) / step) + 1) * step - 1
+      );
+      flows[paymentMonth] +=
+        context.generation[month] *
+        1000 *
+        incentive.ratePerKWh *
+        Math.pow(1 + incentive.escalationRate, operatingYear);
+    }
+    return flows;
+  },
+  subscriberAdder: (incentive, context) =>
+    payLumpSum(
+      incentive.ratePerWatt *
+        incentive.subscriberShare *
+        projectWatts(context.systemParams, incentive.capacityBasis),
+      incentive.payments,
+      context
+    ),
+};
+
+function calculateByType<T extends IncentiveType>(
+  type: T,
+  incentive: IncentiveOfType[T],
+  context: IncentiveContext
+): number[] {
+  return incentiveCalculators[type](incentive, context);
+}
+
+export function calculateIncentiveFlows(
+  incentive: IncentiveDefinition,
+  context: IncentiveContext
+): number[] {
+  return calculateByType(incentive.type, incentive, context);
+}
+
+// Production incentives are operating cash flow, available for debt service
+// and shared by a tax equity partnership. Lump sums go to the sponsor.
+export function isOperatingIncentive(incentive: IncentiveDefinition): boolean {
+  return incentive.type === "production";
+}
+
+export function sumIncentiveSeries(
+  series: CashFlowSeries[],
+  incentives: IncentiveDefinition[],
+  operating: boolean,
+  months: number
+): number[] {
+  const total = Array<number>(months).fill(0);
+  series.forEach((flows) => {
+    const incentive = incentives.find((item) => item.id === flows.id);
+    if (!incentive || isOperatingIncentive(incentive) !== operating) return;
+    flows.values.forEach((value, month) => {
+      total[month] += value;
+    });
+  });
+  return total;
+}
+
+// Starting points for each program. Rates are illustrative and should be
+// checked against the program's current block or tariff.
+export const incentiveTemplates: IncentiveDefinition[] = [
+  {
+    id: "ny-sun",
+    name: "NY-Sun",
+    state: "NY",
+    type: "upfront",
+    ratePerWatt: 0.17,
+    capacityBasis: "dc",
+    payments: [{ milestone: "ntp", share: 1, delayMonths: 0 }],
+  },
+  {
+    id: "ny-sun-blocks",
+    name: "NY-Sun (Declining Block)",
+    state: "NY",
+    type: "decliningBlock",
+    capacityBasis: "dc",
+    blocks: [
+      { capacityMW: 100, ratePerWatt: 0.2 },
+      { capacityMW: 100, ratePerWatt: 0.15 },
+      { capacityMW: 100, ratePerWatt: 0.1 },
+    ],
+    programCapacityFilledMW: 150,
+    payments: [
+      { milestone: "ntp", share: 0.5, delayMonths: 0 },
+      { milestone: "cod", share: 0.5, delayMonths: 3 },
+    ],
+  },
+  {
+    id: "ny-icsa",
+    name: "NY Inclusive Community Solar Adder",
+    state: "NY",
+    type: "subscriberAdder",
+    ratePerWatt: 0.1,
+    capacityBasis: "dc",
+    subscriberShare: 0.2,
+    payments: [{ milestone: "cod", share: 1, delayMonths: 3 }],
+  },
+  {
+    id: "ma-smart",
+    name: "MA SMART",
+    state: "MA",
+    type: "production",
+    ratePerKWh: 0.05,
+    termYears: 20,
+    escalationRate: 0,
+    paymentFrequency: "monthly",
+  },
+  {
+    id: "il-shines",
+    name: "Illinois Shines RECs",
+    state: "IL",
+    type: "production",
+    ratePerKWh: 0.08,
+    termYears: 15,
+    escalationRate: 0,
+    paymentFrequency: "quarterly",
+  },
+  {
+    id: "nj-srec-ii",
+    name: "NJ SREC-II",
+    state: "NJ",
+    type: "production",
+    ratePerKWh: 0.09,
+    termYears: 15,
+    escalationRate: 0,
+    paymentFrequency: "monthly",
+  },
+  {
+    id: "md-srec",
+    name: "MD SRECs",
+    state: "MD",
+    type: "production",
+    ratePerKWh: 0.04,
+    termYears: 15,
+    escalationRate: 0,
+    paymentFrequency: "annual",
+  },
+];
@@ -0,0 +1,230 @@
+import { DatedCashFlow, IRRResult } from "../types/irr";
+
+// Range searched for IRRs, as annual rates
+const minRate = -0.99;
+const maxRate = 10;
+// Brackets are found on a grid evenly spaced in log(1 + rate)
+const gridSteps = 400;
+
+const msPerYear = 365 * 24 * 60 * 60 * 1000;
+
+// NPV at an annual rate of flows spaced 1/periodsPerYear years apart
+export function npv(
+  cashFlows: number[],
+  rate: number,
+  periodsPerYear: number = 1
+): number {
+  // Horner's rule on the per-period discount factor
+  const discount = Math.pow(1 + rate, -1 / periodsPerYear);
+  let value = 0;
+  for (let i = cashFlows.length - 1; i >= 0; i--) {
+    value = value * discount + cashFlows[i];
+  }
+  return value;
+}
+
+function parseDate(date: string): number {
+  const [year, month = 1, day = 1] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+// NPV at an annual rate of dated flows, discounted to the earliest date on
+// an actual/365 basis, as Excel's XNPV does
+export function xnpv(cashFlows: DatedCashFlow[], rate: number): number {
+  if (cashFlows.length === 0) return 0;
+  const times = cashFlows.map((flow) => parseDate(flow.date));
+  const start = Math.min(...times);
+  return cashFlows.reduce(
+    (sum, flow, i) =>
+      sum + flow.amount * Math.pow(1 + rate, -(times[i] - start) / msPerYear),
+    0
+  );
+}
+
+function countSignChanges(cashFlows: number[]): number {
+  let changes = 0;
+  let lastSign = 0;
+  cashFlows.forEach((flow) => {
+    const sign = Math.sign(flow);
+    if (sign === 0) return;
+    if (lastSign !== 0 && sign !== lastSign) changes++;
+    lastSign = sign;
+  });
+  return changes;
+}
+
+// Brent's method on a bracket where f(a) and f(b) have opposite signs
+function brent(
+  f: (x: number) => number,
+  lower: number,
+  upper: number,
+  tolerance = 1e-10,
+  maxIterations = 100
+): number {
+  let a = lower;
+  let b = upper;
+  let fa = f(a);
+  let fb = f(b);
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  for (let i = 0; i < maxIterations; i++) {
+    if ((fb > 0 && fc > 0) || (fb < 0 && fc < 0)) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b;
+      b = c;
+      c = a;
+      fa = fb;
+      fb = fc;
+      fc = fa;
+    }
+    const tol = 2 * Number.EPSILON * Math.abs(b) + 0.5 * tolerance;
+    const m = 0.5 * (c - b);
+    if (Math.abs(m) <= tol || fb === 0) return b;
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation, or secant when only two points
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * m * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * m * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      if (2 * p < Math.min(3 * m * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = m;
+        e = d;
+      }
+    } else {
+      d = m;
+      e = d;
+    }
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol ? d : m > 0 ? tol : -tol;
+    fb = f(b);
+  }
+  return b;
+}
+
+// Every root of an NPV function in the search range. With more than one sign
+// change a grid finds the brackets, and Brent's method refines each one.
+function solveRoots(
+  presentValue: (rate: number) => number,
+  signChanges: number
+): IRRResult {
+  const roots: number[] = [];
+  if (signChanges === 1) {
+    // One sign change means at most one root, so the whole range brackets it
+    const lowerValue = presentValue(minRate);
+    const upperValue = presentValue(maxRate);
+    if (lowerValue === 0) roots.push(minRate);
+    else if (upperValue === 0) roots.push(maxRate);
+    else if (lowerValue > 0 !== upperValue > 0) {
+      roots.push(brent(presentValue, minRate, maxRate));
+    }
+  } else if (signChanges > 1) {
+    const lowerLog = Math.log(1 + minRate);
+    const upperLog = Math.log(1 + maxRate);
+    const rateAt = (step: number) =>
+      Math.exp(lowerLog + ((upperLog - lowerLog) * step) / gridSteps) - 1;
+
+    let previousRate = rateAt(0);
+    let previousValue = presentValue(previousRate);
+    if (previousValue === 0) roots.push(previousRate);
+    for (let step = 1; step <= gridSteps; step++) {
+      const rate = rateAt(step);
+      const value = presentValue(rate);
+      if (value === 0) {
+        roots.push(rate);
+      } else if (previousValue !== 0 && value > 0 !== previousValue > 0) {
+        roots.push(brent(presentValue, previousRate, rate));
+      }
+      previousRate = rate;
+      previousValue = value;
+    }
+  }
+
+  const irr =
+    roots.length > 0
+      ? roots.reduce((nearest, root) =>
+          Math.abs(root) < Math.abs(nearest) ? root : nearest
+        )
+      : null;
+  return {
+    status:
+      roots.length === 0 ? "none" : roots.length === 1 ? "unique" : "multiple",
+    irr,
+    roots,
+    signChanges,
+  };
+}
+
+// IRR of flows spaced 1/periodsPerYear years apart, as an annual rate
+export function calculateIRR(
+  cashFlows: number[],
+  periodsPerYear: number = 1
+): IRRResult {
+  return solveRoots(
+    (rate) => npv(cashFlows, rate, periodsPerYear),
+    countSignChanges(cashFlows)
+  );
+}
+
+// IRR of dated flows on an actual/365 basis, as Excel's XIRR
+export function calculateXIRR(cashFlows: DatedCashFlow[]): IRRResult {
+  const ordered = [...cashFlows].sort(
+    (a, b) => parseDate(a.date) - parseDate(b.date)
+  );
+  return solveRoots(
+    (rate) => xnpv(ordered, rate),
+    countSignChanges(ordered.map((flow) => flow.amount))
+  );
+}
+
+// Modified IRR: outflows are financed at financeRate and inflows reinvested
+// at reinvestmentRate to the last period. Null without both an outflow and
+// an inflow.
+export function calculateMIRR(
+  cashFlows: number[],
+  financeRate: number,
+  reinvestmentRate: number,
+  periodsPerYear: number = 1
+): number | null {
+  const periods = cashFlows.length - 1;
+  const outflows = cashFlows.map((flow) => Math.min(0, flow));
+  const inflows = cashFlows.map((flow) => Math.max(0, flow));
+  const presentOutflows = -npv(outflows, financeRate, periodsPerYear);
+  const futureInflows =
+    npv(inflows, reinvestmentRate, periodsPerYear) *
+    Math.pow(1 + reinvestmentRate, periods / periodsPerYear);
+  if (periods <= 0 || presentOutflows <= 0 || futureInflows <= 0) return null;
+  return (
+    Math.pow(futureInflows / presentOutflows, periodsPerYear / periods) - 1
+  );
+}
+
+// An IRR for display, e.g. "12.34%", "No IRR" or "4.10% / 38.22%"
+export function formatIRR(result: IRRResult, digits = 2): string {
+  if (result.irr === null) return "No IRR";
+  return result.roots
+    .map((root) => `${(root * 100).toFixed(digits)}%`)
+    .join(" / ");
+}
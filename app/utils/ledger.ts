@@ -0,0 +1,137 @@
+import {
+  CashFlowLedger,
+  LedgerCategory,
+  LedgerLine,
+  LedgerWeighting,
+} from "../types/ledger";
+import {
+  CashFlowLineItems,
+  CashFlowSeries,
+  FederalCreditSummary,
+} from "./cashFlowCalculations";
+
+export const ledgerCategoryLabels: Record<LedgerCategory, string> = {
+  development: "Development",
+  construction: "Construction",
+  operatingCost: "Operating Costs",
+  revenue: "Revenue",
+  federalCredit: "Federal Credits",
+  stateIncentive: "State Incentives",
+};
+
+export const ledgerWeightingLabels: Record<LedgerWeighting, string> = {
+  milestoneSurvival: "Share reaching each milestone",
+  reachesNTP: "Share reaching NTP",
+};
+
+type LedgerLineValues = Omit<LedgerLine, "expectedValues">;
+
+// Ledger lines of a schedule in display order. Only the elected federal
+// credit is received, so the other is left out.
+function toLedgerLines(
+  items: CashFlowLineItems,
+  elected: FederalCreditSummary["elected"]
+): LedgerLineValues[] {
+  const reachesNTP = (
+    line: Omit<LedgerLineValues, "weighting">
+  ): LedgerLineValues => ({ ...line, weighting: "reachesNTP" });
+  const seriesLines = (
+    series: CashFlowSeries[],
+    prefix: string,
+    category: LedgerCategory,
+    sign: LedgerLine["sign"]
+  ) =>
+    series.map((item) =>
+      reachesNTP({
+        id: `${prefix}:${item.id}`,
+        label: item.label,
+        category,
+        sign,
+        values: item.values,
+      })
+    );
+
+  return [
+    {
+      id: "devEx",
+      label: "DevEx",
+      category: "development",
+      sign: "outflow",
+      weighting: "milestoneSurvival",
+      values: items.devEx,
+    },
+    reachesNTP({
+      id: "capEx",
+      label: "CapEx",
+      category: "construction",
+      sign: "outflow",
+      values: items.capEx,
+    }),
+    ...seriesLines(items.opEx, "opEx", "operatingCost", "outflow"),
+    reachesNTP({
+      id: "revenue",
+      label: "Revenue",
+      category: "revenue",
+      sign: "inflow",
+      values: items.revenue,
+    }),
+    reachesNTP({
+      id: elected,
+      label: elected === "ptc" ? "PTC" : "ITC",
+      category: "federalCredit",
+      sign: "inflow",
+      values: items[elected],
+    }),
+    ...seriesLines(items.incentives, "incentive", "stateIncentive", "inflow"),
+  ];
+}
+
+const sumLines = (lines: number[][], length: number) =>
+  Array.from({ length }, (_, i) =>
+    lines.reduce((sum, values) => sum + values[i], 0)
+  );
+
+// Aggregate a project's monthly line items, and those of an average pipeline
+// project, into the periods of a ledger
+export function buildLedger(
+  lineItems: CashFlowLineItems,
+  expectedLineItems: CashFlowLineItems,
+  elected: FederalCreditSummary["elected"],
+  periods: string[],
+  pipelineShare: number[],
+  aggregate: (monthlyValues: number[]) => number[]
+): CashFlowLedger {
+  const expectedLines = toLedgerLines(expectedLineItems, elected);
+  const lines = toLedgerLines(lineItems, elected).map((line, i) => ({
+    ...line,
+    values: aggregate(line.values),
+    expectedValues: aggregate(expectedLines[i].values),
+  }));
+  return {
+    periods,
+    lines,
+    totals: sumLines(
+      lines.map((line) => line.values),
+      periods.length
+    ),
+    expectedTotals: sumLines(
+      lines.map((line) => line.expectedValues),
+      periods.length
+    ),
+    pipelineShare,
+  };
+}
+
+// Per-period total of every line in a category
+export function sumLedgerCategory(
+  ledger: CashFlowLedger,
+  category: LedgerCategory,
+  expected = false
+): number[] {
+  return sumLines(
+    ledger.lines
+      .filter((line) => line.category === category)
+      .map((line) => (expected ? line.expectedValues : line.values)),
+    ledger.periods.length
+  );
+}
@@ -0,0 +1,118 @@
+import { FinancialParameters } from "../types/financial";
+import { FinancialMetrics, FinancialMetricUnit } from "../types/metrics";
+import { TimelineResolution } from "../types/system";
+import { calculateIRR, calculateMIRR, npv } from "./irr";
+import {
+  addMonths,
+  aggregateToPeriods,
+  parseMonth,
+  periodsPerYear,
+} from "./timeline";
+
+// Metrics shown beside the IRRs and exported, in display order
+export const financialMetricRows: {
+  key: Exclude<keyof FinancialMetrics, "irr">;
+  label: string;
+  unit: FinancialMetricUnit;
+}[] = [
+  { key: "npv", label: "NPV", unit: "currency" },
+  { key: "mirr", label: "MIRR", unit: "percent" },
+  { key: "lcoe", label: "LCOE (unsubsidized)", unit: "perMWh" },
+  { key: "paybackYear", label: "Payback Year", unit: "year" },
+  {
+    key: "discountedPaybackYear",
+    label: "Discounted Payback Year",
+    unit: "year",
+  },
+  { key: "moic", label: "MOIC", unit: "multiple" },
+  { key: "peakFunding", label: "Peak Funding Need", unit: "currency" },
+];
+
+export function formatMetric(
+  value: number | null,
+  unit: FinancialMetricUnit
+): string {
+  if (value === null || !Number.isFinite(value)) return "n/a";
+  switch (unit) {
+    case "percent":
+      return `${(value * 100).toFixed(2)}%`;
+    case "currency":
+      return `$${Math.round(value).toLocaleString()}`;
+    case "perMWh":
+      return `$${value.toFixed(2)}/MWh`;
+    case "year":
+      return `${value}`;
+    case "multiple":
+      return `${value.toFixed(2)}x`;
+  }
+}
+
+// Calendar year of the month after the last one with negative cumulative
+// cash, or null if cumulative cash ends negative
+function paybackYear(cumulative: number[], startDate: string): number | null {
+  let lastNegative = -1;
+  cumulative.forEach((value, month) => {
+    if (value < 0) lastNegative = month;
+  });
+  if (lastNegative === cumulative.length - 1) return null;
+  return parseMonth(addMonths(startDate, lastNegative + 1)).year;
+}
+
+function cumulativeSum(values: number[]): number[] {
+  let total = 0;
+  return values.map((value) => (total += value));
+}
+
+// Metrics of monthly flows from the start of development. Costs are the
+// positive DevEx, CapEx and OpEx and generation is in MWh.
+export function calculateFinancialMetrics(
+  monthlyFlows: number[],
+  monthlyCosts: number[],
+  monthlyGeneration: number[],
+  startDate: string,
+  resolution: TimelineResolution,
+  financialParameters: FinancialParameters
+): FinancialMetrics {
+  const { discountRate, financeRate, reinvestmentRate } = financialParameters;
+  const perYear = periodsPerYear(resolution);
+  const periodFlows = aggregateToPeriods(monthlyFlows, resolution);
+
+  const discountedGeneration = npv(
+    aggregateToPeriods(monthlyGeneration, resolution),
+    discountRate,
+    perYear
+  );
+  const discountedCosts = npv(
+    aggregateToPeriods(monthlyCosts, resolution),
+    discountRate,
+    perYear
+  );
+
+  const cumulative = cumulativeSum(monthlyFlows);
+  const discountedCumulative = cumulativeSum(
+    monthlyFlows.map(
+      (flow, month) => flow * Math.pow(1 + discountRate, -month / 12)
+    )
+  );
+
+  const inflows = monthlyFlows.reduce(
+    (sum, flow) => sum + Math.max(0, flow),
+    0
+  );
+  const outflows = -monthlyFlows.reduce(
+    (sum, flow) => sum + Math.min(0, flow),
+    0
+  );
+
+  return {
+    irr: calculateIRR(periodFlows, perYear),
+    mirr: calculateMIRR(periodFlows, financeRate, reinvestmentRate, perYear),
+    npv: npv(periodFlows, discountRate, perYear),
+    lcoe:
+      discountedGeneration > 0 ? discountedCosts / discountedGeneration : null,
+    paybackYear: paybackYear(cumulative, startDate),
+    discountedPaybackYear: paybackYear(discountedCumulative, startDate),
+    moic: outflows > 0 ? inflows / outflows : null,
+    peakFunding: Math.max(0, -Math.min(0, ...cumulative)),
+  };
+}
@@ -0,0 +1,512 @@
+import {
+  FederalIncentives,
+  FinancialParameters,
+  ITCAdder,
+  OpExLineItem,
+} from "../types/financial";
+import { IncentiveDefinition } from "../types/incentives";
+import { ArchetypeInputs } from "../types/portfolio";
+import {
+  RevenueParameters,
+  SubscriberClass,
+  ValueStackComponent,
+} from "../types/revenue";
+import { RiskCategory } from "../types/risk";
+import { InputRange, ModelInput, ModelInputUnit } from "../types/sensitivity";
+import { SystemParameters } from "../types/system";
+import { opExBasisLabels } from "./opex";
+import { withDerivedRiskValues } from "./riskCategories";
+
+// Share of the current value taken off and added for a default range
+const defaultSpread = 0.2;
+
+const withSystem = (
+  inputs: ArchetypeInputs,
+  changes: Partial<SystemParameters>
+): ArchetypeInputs => ({
+  ...inputs,
+  systemParams: { ...inputs.systemParams, ...changes },
+});
+
+const withFinancial = (
+  inputs: ArchetypeInputs,
+  changes: Partial<FinancialParameters>
+): ArchetypeInputs => ({
+  ...inputs,
+  financialParameters: { ...inputs.financialParameters, ...changes },
+});
+
+const withRevenue = (
+  inputs: ArchetypeInputs,
+  changes: Partial<RevenueParameters>
+): ArchetypeInputs =>
+  withFinancial(inputs, {
+    revenue: { ...inputs.financialParameters.revenue, ...changes },
+  });
+
+const withFederal = (
+  inputs: ArchetypeInputs,
+  changes: Partial<FederalIncentives>
+): ArchetypeInputs =>
+  withFinancial(inputs, {
+    federalIncentives: {
+      ...inputs.financialParameters.federalIncentives,
+      ...changes,
+    },
+  });
+
+function updateById<T extends { id: string }>(
+  items: T[],
+  id: string,
+  changes: Partial<T>
+): T[] {
+  return items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+}
+
+type CategoryField =
+  | "devExLow"
+  | "devExHigh"
+  | "capExIncreaseLow"
+  | "capExIncreaseHigh"
+  | "approvalRisk"
+  | "worstCaseScenario";
+
+const categoryFields: {
+  field: CategoryField;
+  label: string;
+  unit: ModelInput["unit"];
+  max?: number;
+  integer?: boolean;
+}[] = [
+  { field: "devExLow", label: "DevEx Low ($)", unit: "currency" },
+  { field: "devExHigh", label: "DevEx High ($)", unit: "currency" },
+  {
+    field: "capExIncreaseLow",
+    label: "CapEx Increase Low ($)",
+    unit: "currency",
+  },
+  {
+    field: "capExIncreaseHigh",
+    label: "CapEx Increase High ($)",
+    unit: "currency",
+  },
+  {
+    field: "approvalRisk",
+    label: "Approval Risk",
+    unit: "number",
+    max: 15,
+    integer: true,
+  },
+  {
+    field: "worstCaseScenario",
+    label: "Worst Case Approval",
+    unit: "percent",
+    max: 1,
+  },
+];
+
+// Categories are found by name, so an input follows its category when the
+// milestones are reordered
+function categoryInputs(category: RiskCategory): ModelInput[] {
+  const find = (inputs: ArchetypeInputs) =>
+    inputs.riskCategories.find((cat) => cat.name === category.name);
+  return categoryFields.map(({ field, label, unit, max, integer }) => ({
+    id: `category:${category.name}:${field}`,
+    label: `${category.name} ${label}`,
+    group: category.name,
+    unit,
+    min: field === "approvalRisk" ? 1 : 0,
+    max,
+    integer,
+    value: (inputs) => find(inputs)?.[field] ?? 0,
+    apply: (inputs, value) => ({
+      ...inputs,
+      riskCategories: inputs.riskCategories.map((cat) =>
+        cat.name === category.name
+          ? withDerivedRiskValues({ ...cat, [field]: value })
+          : cat
+      ),
+    }),
+  }));
+}
+
+function systemInputs(systemParams: SystemParameters): ModelInput[] {
+  return [
+    // A production profile replaces the flat capacity factor
+    ...(systemParams.productionProfile
+      ? []
+      : [
+          {
+            id: "system:capacityFactor",
+            label: "Capacity Factor",
+            group: "System",
+            unit: "percent" as const,
+            min: 0,
+            max: 1,
+            value: (inputs: ArchetypeInputs) =>
+              inputs.systemParams.capacityFactor / 100,
+            apply: (inputs: ArchetypeInputs, value: number) =>
+              withSystem(inputs, { capacityFactor: value * 100 }),
+          },
+        ]),
+    {
+      id: "system:degradationRate",
+      label: "Degradation Rate",
+      group: "System",
+      unit: "percent",
+      min: 0,
+      max: 1,
+      value: (inputs) => inputs.systemParams.degradationRate,
+      apply: (inputs, value) => withSystem(inputs, { degradationRate: value }),
+    },
+    {
+      id: "system:constructionMonths",
+      label: "Construction Period (months)",
+      group: "System",
+      unit: "number",
+      min: 0,
+      integer: true,
+      value: (inputs) => inputs.systemParams.constructionMonths,
+      apply: (inputs, value) =>
+        withSystem(inputs, { constructionMonths: value }),
+    },
+  ];
+}
+
+function opExInputs(item: OpExLineItem): ModelInput[] {
+  const find = (inputs: ArchetypeInputs) =>
+    inputs.financialParameters.opExLineItems.find(
+      (other) => other.id === item.id
+    );
+  const update = (inputs: ArchetypeInputs, changes: Partial<OpExLineItem>) =>
+    withFinancial(inputs, {
+      opExLineItems: updateById(
+        inputs.financialParameters.opExLineItems,
+        item.id,
+        changes
+      ),
+    });
+  const percentOfRevenue = item.basis === "percentOfRevenue";
+  return [
+    {
+      id: `opex:${item.id}:amount`,
+      label: percentOfRevenue
+        ? `${item.name} (% of revenue)`
+        : `${item.name} (${opExBasisLabels[item.basis]})`,
+      group: "OpEx",
+      unit: percentOfRevenue ? "percent" : "currency",
+      min: 0,
+      max: percentOfRevenue ? 1 : undefined,
+      value: (inputs) => find(inputs)?.amount ?? 0,
+      apply: (inputs, value) => update(inputs, { amount: value }),
+    },
+    // Revenue-based costs move with revenue instead of escalating
+    ...(percentOfRevenue
+      ? []
+      : [
+          {
+            id: `opex:${item.id}:escalationRate`,
+            label: `${item.name} Escalation`,
+            group: "OpEx",
+            unit: "percent" as const,
+            min: -1,
+            max: 1,
+            value: (inputs: ArchetypeInputs) =>
+              find(inputs)?.escalationRate ?? 0,
+            apply: (inputs: ArchetypeInputs, value: number) =>
+              update(inputs, { escalationRate: value }),
+          },
+        ]),
+  ];
+}
+
+function revenueInputs(revenue: RevenueParameters): ModelInput[] {
+  const rateInputs: ModelInput[] =
+    revenue.billCreditMethod === "fixedRate"
+      ? [
+          {
+            id: "revenue:fixedRatePerMWh",
+            label: "Electricity Rate ($/MWh)",
+            group: "Revenue",
+            unit: "currency",
+            min: 0,
+            value: (inputs) =>
+              inputs.financialParameters.revenue.fixedRatePerMWh,
+            apply: (inputs, value) =>
+              withRevenue(inputs, { fixedRatePerMWh: value }),
+          },
+          {
+            id: "revenue:fixedRateEscalation",
+            label: "Price Escalation",
+            group: "Revenue",
+            unit: "percent",
+            min: -1,
+            max: 1,
+            value: (inputs) =>
+              inputs.financialParameters.revenue.fixedRateEscalation,
+            apply: (inputs, value) =>
+              withRevenue(inputs, { fixedRateEscalation: value }),
+          },
+        ]
+      : revenue.valueStack.flatMap((component) => valueStackInputs(component));
+  return [
+    ...rateInputs,
+    ...revenue.subscribers.map((subscriber) => subscriberInput(subscriber)),
+    {
+      id: "revenue:creditToCashRate",
+      label: "Credit-to-Cash Rate",
+      group: "Revenue",
+      unit: "percent",
+      min: 0,
+      max: 1,
+      value: (inputs) => inputs.financialParameters.revenue.creditToCashRate,
+      apply: (inputs, value) =>
+        withRevenue(inputs, { creditToCashRate: value }),
+    },
+  ];
+}
+
+function valueStackInputs(component: ValueStackComponent): ModelInput[] {
+  const find = (inputs: ArchetypeInputs) =>
+    inputs.financialParameters.revenue.valueStack.find(
+      (other) => other.id === component.id
+    );
+  const update = (
+    inputs: ArchetypeInputs,
+    changes: Partial<ValueStackComponent>
+  ) =>
+    withRevenue(inputs, {
+      valueStack: updateById(
+        inputs.financialParameters.revenue.valueStack,
+        component.id,
+        changes
+      ),
+    });
+  return [
+    {
+      id: `valueStack:${component.id}:ratePerMWh`,
+      label: `${component.name} ($/MWh)`,
+      group: "Revenue",
+      unit: "currency",
+      min: 0,
+      value: (inputs) => find(inputs)?.ratePerMWh ?? 0,
+      apply: (inputs, value) => update(inputs, { ratePerMWh: value }),
+    },
+    {
+      id: `valueStack:${component.id}:escalationRate`,
+      label: `${component.name} Escalation`,
+      group: "Revenue",
+      unit: "percent",
+      min: -1,
+      max: 1,
+      value: (inputs) => find(inputs)?.escalationRate ?? 0,
+      apply: (inputs, value) => update(inputs, { escalationRate: value }),
+    },
+  ];
+}
+
+function subscriberInput(subscriber: SubscriberClass): ModelInput {
+  return {
+    id: `subscriber:${subscriber.id}:discount`,
+    label: `${subscriber.name} Subscriber Discount`,
+    group: "Revenue",
+    unit: "percent",
+    min: 0,
+    max: 1,
+    value: (inputs) =>
+      inputs.financialParameters.revenue.subscribers.find(
+        (other) => other.id === subscriber.id
+      )?.discount ?? 0,
+    apply: (inputs, value) =>
+      withRevenue(inputs, {
+        subscribers: updateById(
+          inputs.financialParameters.revenue.subscribers,
+          subscriber.id,
+          { discount: value }
+        ),
+      }),
+  };
+}
+
+function federalInputs(federalIncentives: FederalIncentives): ModelInput[] {
+  return [
+    {
+      id: "federal:baseITCRate",
+      label: "Base ITC Rate",
+      group: "Federal Incentives",
+      unit: "percent",
+      min: 0,
+      max: 1,
+      value: (inputs) =>
+        inputs.financialParameters.federalIncentives.baseITCRate,
+      apply: (inputs, value) => withFederal(inputs, { baseITCRate: value }),
+    },
+    {
+      id: "federal:ptcRatePerMWh",
+      label: "PTC Rate ($/MWh)",
+      group: "Federal Incentives",
+      unit: "currency",
+      min: 0,
+      value: (inputs) =>
+        inputs.financialParameters.federalIncentives.ptcRatePerMWh,
+      apply: (inputs, value) => withFederal(inputs, { ptcRatePerMWh: value }),
+    },
+    ...federalIncentives.adders.map((adder) => adderInput(adder)),
+    // The sale price only matters when credits are sold
+    ...(federalIncentives.transfer.enabled
+      ? [
+          {
+            id: "federal:transferPrice",
+            label: "Credit Transfer Price ($ per $1)",
+            group: "Federal Incentives",
+            unit: "currency" as const,
+            min: 0,
+            max: 1,
+            value: (inputs: ArchetypeInputs) =>
+              inputs.financialParameters.federalIncentives.transfer
+                .pricePerDollar,
+            apply: (inputs: ArchetypeInputs, value: number) =>
+              withFederal(inputs, {
+                transfer: {
+                  ...inputs.financialParameters.federalIncentives.transfer,
+                  pricePerDollar: value,
+                },
+              }),
+          },
+        ]
+      : []),
+  ];
+}
+
+function adderInput(adder: ITCAdder): ModelInput {
+  return {
+    id: `adder:${adder.id}:qualificationProbability`,
+    label: `${adder.name} Qualification`,
+    group: "Federal Incentives",
+    unit: "percent",
+    min: 0,
+    max: 1,
+    value: (inputs) =>
+      inputs.financialParameters.federalIncentives.adders.find(
+        (other) => other.id === adder.id
+      )?.qualificationProbability ?? 0,
+    apply: (inputs, value) =>
+      withFederal(inputs, {
+        adders: updateById(
+          inputs.financialParameters.federalIncentives.adders,
+          adder.id,
+          { qualificationProbability: value }
+        ),
+      }),
+  };
+}
+
+// The incentive's headline rate. A declining block program's rate depends on
+// how much of it is already allocated, so that is what varies.
+function incentiveInput(incentive: IncentiveDefinition): ModelInput {
+  const [field, label]: [string, string] =
+    incentive.type === "production"
+      ? ["ratePerKWh", `${incentive.name} ($/kWh)`]
+      : incentive.type === "decliningBlock"
+        ? ["programCapacityFilledMW", `${incentive.name} Capacity Filled (MW)`]
+        : ["ratePerWatt", `${incentive.name} ($/W)`];
+  const find = (inputs: ArchetypeInputs) =>
+    inputs.financialParameters.incentives.find(
+      (other) => other.id === incentive.id
+    );
+  return {
+    id: `incentive:${incentive.id}:${field}`,
+    label,
+    group: "State Incentives",
+    unit: incentive.type === "decliningBlock" ? "number" : "currency",
+    min: 0,
+    value: (inputs) => {
+      const found = find(inputs);
+      return found && field in found
+        ? Number(found[field as keyof typeof found])
+        : 0;
+    },
+    apply: (inputs, value) =>
+      withFinancial(inputs, {
+        incentives: inputs.financialParameters.incentives.map((other) =>
+          other.id === incentive.id ? { ...other, [field]: value } : other
+        ),
+      }),
+  };
+}
+
+// Every scalar input of the model that the sensitivity tools can vary,
+// grouped by where it is edited on the page
+export function listModelInputs(inputs: ArchetypeInputs): ModelInput[] {
+  const { riskCategories, systemParams, financialParameters } = inputs;
+  return [
+    ...riskCategories.flatMap((category) => categoryInputs(category)),
+    ...systemInputs(systemParams),
+    {
+      id: "capex:baseCaseCapExPerMW",
+      label: "Base System Cost ($/W)",
+      group: "CapEx",
+      unit: "currency",
+      min: 0,
+      value: (inputs) =>
+        inputs.financialParameters.baseCaseCapExPerMW / 1000000,
+      apply: (inputs, value) =>
+        withFinancial(inputs, { baseCaseCapExPerMW: value * 1000000 }),
+    },
+    ...financialParameters.opExLineItems.flatMap((item) => opExInputs(item)),
+    ...revenueInputs(financialParameters.revenue),
+    ...federalInputs(financialParameters.federalIncentives),
+    ...financialParameters.incentives.map((incentive) =>
+      incentiveInput(incentive)
+    ),
+  ];
+}
+
+// A value kept within the input's bounds, and whole where it must be
+export function clampInputValue(input: ModelInput, value: number): number {
+  const bounded = Math.max(
+    input.min,
+    input.max === undefined ? value : Math.min(input.max, value)
+  );
+  return input.integer ? Math.round(bounded) : bounded;
+}
+
+// The current value less and plus a fifth. Whole-number inputs move by at
+// least one.
+export function defaultInputRange(
+  input: ModelInput,
+  inputs: ArchetypeInputs
+): InputRange {
+  const base = input.value(inputs);
+  const spread = Math.abs(base) * defaultSpread;
+  const step = input.integer ? Math.max(1, Math.round(spread)) : spread;
+  return {
+    low: clampInputValue(input, base - step),
+    high: clampInputValue(input, base + step),
+  };
+}
+
+// The value as the page shows it. Units other than percentages are in the
+// input's label.
+export function formatInputValue(
+  input: { unit: ModelInputUnit },
+  value: number
+): string {
+  return input.unit === "percent"
+    ? `${Number((value * 100).toFixed(2))}%`
+    : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+}
+
+// A wide range to search for a breakeven: the input's whole range when it
+// has one, otherwise from its minimum to three times its current value
+export function defaultSearchRange(
+  input: ModelInput,
+  inputs: ArchetypeInputs
+): InputRange {
+  const base = input.value(inputs);
+  return {
+    low: input.min,
+    high:
+      input.max ?? clampInputValue(input, base > 0 ? base * 3 : input.min + 1),
+  };
+}
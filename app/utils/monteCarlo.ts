@@ -0,0 +1,304 @@
+import { RiskCategory, RiskOutcome } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import {
+  CostDistribution,
+  DistributionSummary,
+  HistogramBin,
+  MonteCarloOptions,
+  MonteCarloResult,
+} from "../types/monteCarlo";
+import { calculateProjectSchedule, sumLineItems } from "./cashFlowCalculations";
+import { calculateIRR, npv } from "./irr";
+import { sampleIncentiveQualification } from "./federalIncentives";
+import { correlationFactor, createCopulaSampler } from "./correlation";
+import {
+  aggregateToPeriods,
+  calculateGateMonth,
+  calculateProjectMilestones,
+  periodsPerYear,
+} from "./timeline";
+
+// Seeded pseudo-random number generator (mulberry32), returns values in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Draw a value between low and high. The triangular distribution peaks at
+// the bound matching the category's selected financial risk level.
+export function sampleBetween(
+  low: number,
+  high: number,
+  riskLevel: "Low" | "High",
+  distribution: CostDistribution,
+  random: () => number
+): number {
+  const min = Math.min(low, high);
+  const max = Math.max(low, high);
+  if (max === min) return min;
+
+  const u = random();
+  if (distribution === "uniform") {
+    return min + u * (max - min);
+  }
+
+  const mode = riskLevel === "Low" ? min : max;
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const index = (sortedValues.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  const weight = index - lower;
+  return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight;
+}
+
+// Runs are capped so a typo can't tie up the page for minutes
+export const maxMonteCarloIterations = 10000;
+
+// Iterations simulated between yields to the browser, so the page stays
+// responsive while a run is in progress
+const iterationsPerChunk = 25;
+
+// Values that aren't finite numbers are left out of the bins
+export function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  let min = Infinity;
+  let max = -Infinity;
+  let count = 0;
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+    count++;
+  }
+  if (count === 0) return [];
+  if (max === min) {
+    return [{ from: min, to: max, count }];
+  }
+
+  const width = (max - min) / bins;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    if (!Number.isFinite(value)) return;
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  });
+  return histogram;
+}
+
+export function summarizeDistribution(
+  values: number[],
+  bins: number
+): DistributionSummary {
+  const sorted = values
+    .filter((value) => Number.isFinite(value))
+    .sort((a, b) => a - b);
+  const mean =
+    sorted.length > 0
+      ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+      : 0;
+
+  return {
+    mean,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    histogram: buildHistogram(sorted, bins),
+  };
+}
+
+// Simulates the pipeline in chunks, yielding to the browser between them and
+// reporting the iterations completed so far. Null when the run is aborted.
+export async function runMonteCarlo(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters,
+  options: MonteCarloOptions,
+  onProgress?: (completed: number) => void,
+  signal?: AbortSignal
+): Promise<MonteCarloResult | null> {
+  const iterations = Math.min(
+    maxMonteCarloIterations,
+    Math.max(0, Math.floor(options.iterations))
+  );
+  const random = createRandom(options.seed);
+  const pipelineSize = systemParams.pipelineSize;
+  const baseCapEx =
+    financialParameters.baseCaseCapExPerMW * systemParams.systemSize;
+  const resolution = systemParams.timelineResolution;
+  const { codMonth, endMonth } = calculateProjectMilestones(
+    riskCategories,
+    systemParams
+  );
+  const months = Math.max(endMonth, codMonth + 1);
+
+  // Correlated categories draw their outcomes through a Gaussian copula;
+  // independent ones draw straight from the generator as before. DevEx and
+  // CapEx draws each follow the cost correlations.
+  const copula = (outcome: RiskOutcome) => {
+    const { factor } = correlationFactor(
+      riskCategories,
+      systemParams.riskCorrelations,
+      outcome
+    );
+    return factor && createCopulaSampler(factor, random);
+  };
+  const approvalDraws = copula("approval");
+  const costDraws = copula("cost");
+  const drawFrom = (draws: number[] | undefined, i: number) =>
+    draws ? () => draws[i] : random;
+  const gateOrder = riskCategories
+    .map((_, gate) => gate)
+    .sort(
+      (a, b) =>
+        calculateGateMonth(riskCategories[a]) -
+        calculateGateMonth(riskCategories[b])
+    );
+
+  const portfolioIRRs: number[] = [];
+  let noIRRCount = 0;
+  const portfolioNPVs: number[] = [];
+  const capitalDeployed: number[] = [];
+  const shareReachingNTP: number[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (iteration > 0 && iteration % iterationsPerChunk === 0) {
+      onProgress?.(iteration);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    if (signal?.aborted) return null;
+
+    const monthlyFlows: number[] = Array(months).fill(0);
+    let deployed = 0;
+    let projectsReachingNTP = 0;
+
+    for (let project = 0; project < pipelineSize; project++) {
+      // Sample costs for every category, then draw the approval outcomes
+      const devExDraws = costDraws?.();
+      const capExDraws = costDraws?.();
+      const sampledCategories = riskCategories.map((cat, i) => ({
+        ...cat,
+        devEx: sampleBetween(
+          cat.devExLow,
+          cat.devExHigh,
+          cat.riskLevel,
+          options.distribution,
+          drawFrom(devExDraws, i)
+        ),
+        capExIncrease: sampleBetween(
+          cat.capExIncreaseLow,
+          cat.capExIncreaseHigh,
+          cat.riskLevel,
+          options.distribution,
+          drawFrom(capExDraws, i)
+        ),
+      }));
+
+      // Each project qualifies for the federal credit adders independently
+      const schedule = calculateProjectSchedule(
+        sampledCategories,
+        systemParams,
+        {
+          ...financialParameters,
+          federalIncentives: sampleIncentiveQualification(
+            financialParameters.federalIncentives,
+            random
+          ),
+        }
+      );
+
+      // Gates are decided when their milestone ends, in order of those
+      // months; a project stops spending DevEx once a gate fails, having
+      // spent everything scheduled before that month
+      const passDraws = approvalDraws?.();
+      let failedMonth = -1;
+      for (const i of gateOrder) {
+        if (
+          drawFrom(passDraws, i)() >= sampledCategories[i].goNoGoProbability
+        ) {
+          failedMonth = calculateGateMonth(sampledCategories[i]);
+          break;
+        }
+      }
+
+      if (failedMonth >= 0) {
+        schedule.lineItems.devEx
+          .slice(0, failedMonth)
+          .forEach((flow, month) => {
+            monthlyFlows[month] += flow;
+            deployed -= flow;
+          });
+        continue;
+      }
+
+      projectsReachingNTP++;
+      deployed +=
+        sampledCategories.reduce(
+          (sum, cat) => sum + cat.devEx + cat.capExIncrease,
+          0
+        ) + baseCapEx;
+      sumLineItems(schedule.lineItems).forEach((flow, month) => {
+        monthlyFlows[month] += flow;
+      });
+    }
+
+    const portfolioFlows = aggregateToPeriods(monthlyFlows, resolution);
+    // Flows that never turn positive, such as a pipeline where every project
+    // fails, have no IRR and are counted apart from the IRR distribution
+    const { irr } = calculateIRR(portfolioFlows, periodsPerYear(resolution));
+    if (irr === null) {
+      noIRRCount++;
+    } else {
+      portfolioIRRs.push(irr);
+    }
+    portfolioNPVs.push(
+      npv(
+        portfolioFlows,
+        financialParameters.discountRate,
+        periodsPerYear(resolution)
+      )
+    );
+    capitalDeployed.push(deployed);
+    shareReachingNTP.push(
+      pipelineSize > 0 ? projectsReachingNTP / pipelineSize : 0
+    );
+  }
+
+  const lossCount = portfolioNPVs.filter((value) => value < 0).length;
+
+  onProgress?.(iterations);
+
+  return {
+    iterations,
+    portfolioIRR: summarizeDistribution(portfolioIRRs, options.histogramBins),
+    noIRRCount,
+    portfolioNPV: summarizeDistribution(portfolioNPVs, options.histogramBins),
+    capitalDeployed: summarizeDistribution(
+      capitalDeployed,
+      options.histogramBins
+    ),
+    projectsReachingNTP: summarizeDistribution(
+      shareReachingNTP,
+      options.histogramBins
+    ),
+    probabilityOfLoss: iterations > 0 ? lossCount / iterations : 0,
+  };
+}
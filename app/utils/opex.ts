@@ -0,0 +1,53 @@
+import { OpExBasis, OpExCategory, OpExLineItem } from "../types/financial";
+import { SystemParameters } from "../types/system";
+
+export const opExCategoryLabels: Record<OpExCategory, string> = {
+  landLease: "Land Lease",
+  subscriberManagement: "Subscriber Management",
+  operationsAndMaintenance: "O&M",
+  insurance: "Insurance",
+  propertyTax: "Property Tax / PILOT",
+  assetManagement: "Asset Management",
+};
+
+export const opExBasisLabels: Record<OpExBasis, string> = {
+  perMW: "$/MW/yr",
+  perAcre: "$/acre/yr",
+  percentOfRevenue: "% of revenue",
+  fixed: "$/yr",
+};
+
+// Annual amount for an operating year before it is applied to its basis
+export function opExRateForYear(
+  item: OpExLineItem,
+  operatingYear: number
+): number {
+  if (item.schedule && item.schedule.length > 0) {
+    return item.schedule[Math.min(operatingYear, item.schedule.length - 1)];
+  }
+  // Revenue-based costs already move with the revenue they are charged on
+  if (item.basis === "percentOfRevenue") {
+    return item.amount;
+  }
+  return item.amount * Math.pow(1 + item.escalationRate, operatingYear);
+}
+
+// Cost of a line item in one operating month, as a positive amount
+export function calculateMonthlyOpEx(
+  item: OpExLineItem,
+  systemParams: SystemParameters,
+  operatingYear: number,
+  monthlyRevenue: number
+): number {
+  const rate = opExRateForYear(item, operatingYear);
+  switch (item.basis) {
+    case "perMW":
+      return (rate * systemParams.systemSize) / 12;
+    case "perAcre":
+      return (rate * systemParams.siteAcres) / 12;
+    case "percentOfRevenue":
+      return rate * monthlyRevenue;
+    case "fixed":
+      return rate / 12;
+  }
+}
@@ -0,0 +1,249 @@
+import { IncentiveType } from "../types/incentives";
+import { ResultsView, SharedModelState } from "../types/permalink";
+import { OriginationCohort, ProjectArchetype } from "../types/portfolio";
+import { TimeOfUsePeriod } from "../types/revenue";
+import { RiskCorrelation } from "../types/risk";
+import { incentiveTemplates, incentiveTypeLabels } from "./incentives";
+
+// Links carry "#model=v<version>.<deflated JSON in base64url>". Bump the
+// version whenever the model state changes shape.
+export const permalinkVersion = 4;
+
+const hashKey = "model";
+
+const resultsViews: ResultsView[] = ["individual", "portfolio"];
+
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so large states don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIncentiveType = (type: unknown): type is IncentiveType =>
+  typeof type === "string" && type in incentiveTypeLabels;
+
+// Items of each kind of list, by the list's key, for lists that can be empty
+// in the reference state or hold several kinds of item. Other lists are
+// checked against the reference's first item. Incentives are checked
+// against the template of their own type.
+function listItemTemplates(
+  reference: SharedModelState
+): Record<string, (item: unknown) => unknown> {
+  const archetype: ProjectArchetype = {
+    id: "",
+    name: "",
+    count: 0,
+    riskCategories: reference.riskCategories,
+    systemParams: reference.systemParams,
+    financialParameters: reference.financialParameters,
+  };
+  const cohort: OriginationCohort = {
+    id: "",
+    archetypeId: null,
+    firstStartDate: "",
+    frequency: "monthly",
+    periods: 0,
+    projectsPerPeriod: 0,
+  };
+  const correlation: RiskCorrelation = {
+    first: "",
+    second: "",
+    approval: 0,
+    cost: 0,
+  };
+  const timeOfUsePeriod: TimeOfUsePeriod = {
+    id: "",
+    name: "",
+    startMonth: 0,
+    endMonth: 0,
+    startHour: 0,
+    endHour: 0,
+    rateMultiplier: 0,
+  };
+  return {
+    archetypes: () => archetype,
+    cohorts: () => cohort,
+    riskCorrelations: () => correlation,
+    timeOfUsePeriods: () => timeOfUsePeriod,
+    incentives: (item) =>
+      isObject(item) && isIncentiveType(item.type)
+        ? incentiveTemplates.find((template) => template.type === item.type)
+        : undefined,
+  };
+}
+
+// Paths of inputs in the reference state that are missing from the candidate
+// or of a different type. Nullable inputs may be null on either side. Lists
+// can be any length, so each item is checked against a template item; items
+// without one, such as an incentive of an unknown type, are left to the
+// caller.
+function findInvalidInputs(
+  reference: unknown,
+  candidate: unknown,
+  path: string,
+  templates: Record<string, (item: unknown) => unknown>
+): string[] {
+  if (reference === null || candidate === null) return [];
+  if (Array.isArray(reference)) {
+    if (!Array.isArray(candidate)) return [path];
+    const key = path.slice(path.lastIndexOf(".") + 1);
+    return candidate.flatMap((item, i) => {
+      const template = templates[key] ? templates[key](item) : reference[0];
+      return template === undefined
+        ? []
+        : findInvalidInputs(template, item, `${path}[${i}]`, templates);
+    });
+  }
+  if (isObject(reference)) {
+    if (!isObject(candidate)) return [path];
+    return Object.keys(reference).flatMap((key) =>
+      findInvalidInputs(
+        reference[key],
+        candidate[key],
+        `${path}.${key}`,
+        templates
+      )
+    );
+  }
+  return typeof reference === typeof candidate ? [] : [path];
+}
+
+export async function encodePermalink(
+  state: SharedModelState
+): Promise<string> {
+  // Profiles are read from whole W or kW, so rounding to the watt only drops
+  // float noise, which doesn't compress
+  const profile = state.systemParams.productionProfile;
+  const compact: SharedModelState = profile
+    ? {
+        ...state,
+        systemParams: {
+          ...state.systemParams,
+          productionProfile: {
+            ...profile,
+            hourlyMW: profile.hourlyMW.map(
+              (value) => Math.round(value * 1e6) / 1e6
+            ),
+          },
+        },
+      }
+    : state;
+  // An unrated approval risk is undefined and would otherwise be dropped from
+  // the link and read back as missing. Other blank inputs are optional and
+  // are left out.
+  const json = new TextEncoder().encode(
+    JSON.stringify(compact, (key, value) =>
+      key === "approvalRisk" && value === undefined ? null : value
+    )
+  );
+  const deflated = await transform(json, new CompressionStream("deflate-raw"));
+  return `${hashKey}=v${permalinkVersion}.${toBase64Url(deflated)}`;
+}
+
+// The state in a location hash, or null if it has none. Throws if the link
+// is damaged, from another version, or missing inputs the current state has.
+export async function decodePermalink(
+  hash: string,
+  reference: SharedModelState
+): Promise<SharedModelState | null> {
+  const value = new URLSearchParams(hash.replace(/^#/, "")).get(hashKey);
+  if (value === null) return null;
+
+  const match = value.match(/^v(\d+)\.([A-Za-z0-9_-]+)$/);
+  if (!match) {
+    throw new Error("This link is incomplete or damaged.");
+  }
+  const version = Number(match[1]);
+  if (version !== permalinkVersion) {
+    throw new Error(
+      `This link was made with model version ${version}, but this page reads version ${permalinkVersion}. Ask for a new link.`
+    );
+  }
+
+  let state: unknown;
+  try {
+    const json = await transform(
+      fromBase64Url(match[2]),
+      new DecompressionStream("deflate-raw")
+    );
+    state = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error("This link is incomplete or damaged.");
+  }
+
+  const invalid = findInvalidInputs(
+    reference,
+    state,
+    "model",
+    listItemTemplates(reference)
+  );
+  if (invalid.length > 0) {
+    throw new Error(
+      `This link is missing or has invalid inputs: ${invalid
+        .slice(0, 3)
+        .join(
+          ", "
+        )}${invalid.length > 3 ? ` and ${invalid.length - 3} more` : ""}.`
+    );
+  }
+  const shared = state as SharedModelState;
+  if (!resultsViews.includes(shared.view)) {
+    throw new Error(`This link has an unknown view "${shared.view}".`);
+  }
+  const unknownIncentive = [
+    shared.financialParameters,
+    ...shared.archetypes.map((archetype) => archetype.financialParameters),
+  ]
+    .flatMap((parameters) => parameters.incentives)
+    .find((incentive) => !isIncentiveType(incentive.type));
+  if (unknownIncentive) {
+    throw new Error(
+      `This link has an incentive of unknown type "${String(unknownIncentive.type)}".`
+    );
+  }
+  // Read back as unrated, as it was before the link was made
+  const withApprovalRisk = (categories: SharedModelState["riskCategories"]) =>
+    categories.map((category) => ({
+      ...category,
+      approvalRisk: category.approvalRisk ?? undefined,
+    }));
+  return {
+    ...shared,
+    riskCategories: withApprovalRisk(shared.riskCategories),
+    archetypes: shared.archetypes.map((archetype) => ({
+      ...archetype,
+      riskCategories: withApprovalRisk(archetype.riskCategories),
+    })),
+  };
+}
+
+// The current page address with the state in its hash
+export async function createPermalink(
+  state: SharedModelState
+): Promise<string> {
+  const url = new URL(window.location.href);
+  url.hash = await encodePermalink(state);
+  return url.toString();
+}
@@ -0,0 +1,370 @@
+import { FinancialParameters } from "../types/financial";
+import {
+  ArchetypeContribution,
+  ArchetypeInputs,
+  OriginationCohort,
+  OriginationFrequency,
+  OriginationResult,
+  PortfolioResult,
+  ProjectArchetype,
+} from "../types/portfolio";
+import { TimelineResolution } from "../types/system";
+import {
+  calculateCashFlows,
+  calculateExpectedDevExSchedule,
+  calculateExpectedStructureFlows,
+  calculateMonthlyPipelineShare,
+  calculateProjectSchedule,
+  sumLineItems,
+} from "./cashFlowCalculations";
+import { calculateIRR } from "./irr";
+import { calculateFinancialMetrics } from "./metrics";
+import {
+  addMonths,
+  aggregateToPeriods,
+  calendarYears,
+  parseMonth,
+  periodsPerYear,
+  rollUpToAnnual,
+} from "./timeline";
+
+export function createArchetype(
+  name: string,
+  count: number,
+  inputs: ArchetypeInputs
+): ProjectArchetype {
+  return {
+    id: `archetype-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    count,
+    riskCategories: structuredClone(inputs.riskCategories),
+    systemParams: structuredClone(inputs.systemParams),
+    financialParameters: structuredClone(inputs.financialParameters),
+  };
+}
+
+// Months from one "YYYY-MM" date to another
+function monthsBetween(from: string, to: string): number {
+  const start = parseMonth(from);
+  const end = parseMonth(to);
+  return (end.year - start.year) * 12 + end.month - start.month;
+}
+
+function earliestDate(dates: string[]): string {
+  return dates.reduce((earliest, date) =>
+    monthsBetween(earliest, date) < 0 ? date : earliest
+  );
+}
+
+// Monthly flows, costs and generation of an average pipeline project of an
+// archetype, weighted by attrition as in the portfolio view
+function expectedMonthlySeries(archetype: ArchetypeInputs) {
+  const schedule = calculateProjectSchedule(
+    archetype.riskCategories,
+    archetype.systemParams,
+    archetype.financialParameters
+  );
+  const pipelineShare = calculateMonthlyPipelineShare(
+    archetype.riskCategories,
+    archetype.systemParams.riskCorrelations,
+    schedule.lineItems.devEx.length
+  );
+  const reachingNTP = pipelineShare[pipelineShare.length - 1];
+  const { capEx, opEx } = schedule.lineItems;
+  const devEx = calculateExpectedDevExSchedule(schedule, pipelineShare);
+  return {
+    milestones: schedule.milestones,
+    reachingNTP,
+    flows: calculateExpectedStructureFlows(
+      schedule,
+      pipelineShare,
+      sumLineItems(schedule.lineItems)
+    ),
+    devEx,
+    capEx: capEx.map((value) => value * reachingNTP),
+    costs: devEx.map(
+      (spend, month) =>
+        -(
+          spend +
+          (capEx[month] +
+            opEx.reduce((sum, series) => sum + series.values[month], 0)) *
+            reachingNTP
+        )
+    ),
+    generation: schedule.generation.map((value) => value * reachingNTP),
+  };
+}
+
+// Expected flows of every archetype's projects on one timeline starting at
+// the earliest development start. Metrics use the given rates and
+// resolution so archetypes are compared on the same basis. Null without any
+// archetypes.
+export function calculatePortfolio(
+  archetypes: ProjectArchetype[],
+  financialParameters: FinancialParameters,
+  resolution: TimelineResolution
+): PortfolioResult | null {
+  if (archetypes.length === 0) return null;
+
+  const startDate = earliestDate(
+    archetypes.map((archetype) => archetype.systemParams.developmentStartDate)
+  );
+  const series = archetypes.map((archetype) => ({
+    offset: monthsBetween(
+      startDate,
+      archetype.systemParams.developmentStartDate
+    ),
+    ...expectedMonthlySeries(archetype),
+  }));
+  const totalMonths = Math.max(
+    ...series.map(({ offset, flows }) => offset + flows.length)
+  );
+
+  // Shifted onto the portfolio timeline and scaled to the archetype's count
+  const align = (values: number[], offset: number, count: number) => {
+    const aligned = Array<number>(totalMonths).fill(0);
+    values.forEach((value, month) => {
+      aligned[offset + month] = value * count;
+    });
+    return aligned;
+  };
+  const aligned = archetypes.map((archetype, i) => {
+    const { offset, flows, costs, generation } = series[i];
+    return {
+      flows: align(flows, offset, archetype.count),
+      costs: align(costs, offset, archetype.count),
+      generation: align(generation, offset, archetype.count),
+    };
+  });
+  const total = (pick: (values: (typeof aligned)[number]) => number[]) =>
+    Array.from({ length: totalMonths }, (_, month) =>
+      aligned.reduce((sum, values) => sum + pick(values)[month], 0)
+    );
+  const metricsOf = (flows: number[], costs: number[], generation: number[]) =>
+    calculateFinancialMetrics(
+      flows,
+      costs,
+      generation,
+      startDate,
+      resolution,
+      financialParameters
+    );
+
+  const flows = total((values) => values.flows);
+  const metrics = metricsOf(
+    flows,
+    total((values) => values.costs),
+    total((values) => values.generation)
+  );
+
+  const contributions: ArchetypeContribution[] = archetypes.map(
+    (archetype, i) => {
+      const result = calculateCashFlows(
+        archetype.riskCategories,
+        archetype.systemParams,
+        archetype.financialParameters
+      );
+      const { count } = archetype;
+      const contributionMetrics = metricsOf(
+        aligned[i].flows,
+        aligned[i].costs,
+        aligned[i].generation
+      );
+      return {
+        id: archetype.id,
+        name: archetype.name,
+        count,
+        capacityMW: archetype.systemParams.systemSize * count,
+        projectsReachingNTP: result.projectsReachingNTP * count,
+        mwReachingNTP:
+          result.projectsReachingNTP *
+          count *
+          archetype.systemParams.systemSize,
+        expectedDevEx: result.expectedDevEx * count,
+        metrics: contributionMetrics,
+        annualFlows: rollUpToAnnual(aligned[i].flows, startDate),
+        npvShare:
+          metrics.npv !== 0 ? contributionMetrics.npv / metrics.npv : null,
+        years: result.years,
+        ledger: result.ledger,
+      };
+    }
+  );
+
+  const sumOf = (pick: (contribution: ArchetypeContribution) => number) =>
+    contributions.reduce((sum, contribution) => sum + pick(contribution), 0);
+
+  return {
+    startDate,
+    years: calendarYears(startDate, totalMonths),
+    annualFlows: rollUpToAnnual(flows, startDate),
+    metrics,
+    projectCount: sumOf((contribution) => contribution.count),
+    capacityMW: sumOf((contribution) => contribution.capacityMW),
+    projectsReachingNTP: sumOf(
+      (contribution) => contribution.projectsReachingNTP
+    ),
+    mwReachingNTP: sumOf((contribution) => contribution.mwReachingNTP),
+    contributions,
+  };
+}
+
+export const originationFrequencyLabels: Record<OriginationFrequency, string> =
+  {
+    monthly: "Month",
+    quarterly: "Quarter",
+    annual: "Year",
+  };
+
+const originationFrequencyMonths: Record<OriginationFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+export function createCohort(
+  archetypeId: string | null,
+  firstStartDate: string
+): OriginationCohort {
+  return {
+    id: `cohort-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    archetypeId,
+    firstStartDate,
+    frequency: "quarterly",
+    periods: 8,
+    projectsPerPeriod: 15,
+  };
+}
+
+// Expected flows of every project the cohorts originate, each shifted to its
+// own start of development, with annual funding needs and the IRR to date.
+// Cohorts whose archetype was removed are skipped. Null when nothing is
+// originated.
+export function calculateOrigination(
+  cohorts: OriginationCohort[],
+  archetypes: ProjectArchetype[],
+  currentInputs: ArchetypeInputs,
+  financialParameters: FinancialParameters,
+  resolution: TimelineResolution
+): OriginationResult | null {
+  // An archetype's schedule only depends on the calendar month development
+  // starts in, through the seasonality of its generation, so it is
+  // calculated once per archetype and starting month and shifted to every
+  // start in that month
+  type Series = ReturnType<typeof expectedMonthlySeries>;
+  const seriesByArchetype = new Map<ArchetypeInputs, Map<number, Series>>();
+  const seriesStartingIn = (archetype: ArchetypeInputs, date: string) => {
+    const byMonth =
+      seriesByArchetype.get(archetype) ?? new Map<number, Series>();
+    seriesByArchetype.set(archetype, byMonth);
+    const { month } = parseMonth(date);
+    const series =
+      byMonth.get(month) ??
+      expectedMonthlySeries({
+        ...archetype,
+        systemParams: { ...archetype.systemParams, developmentStartDate: date },
+      });
+    byMonth.set(month, series);
+    return series;
+  };
+  const starts = cohorts.flatMap((cohort) => {
+    const archetype =
+      cohort.archetypeId === null
+        ? currentInputs
+        : archetypes.find((candidate) => candidate.id === cohort.archetypeId);
+    if (!archetype || cohort.projectsPerPeriod <= 0 || cohort.periods <= 0) {
+      return [];
+    }
+    return Array.from({ length: cohort.periods }, (_, period) => {
+      const date = addMonths(
+        cohort.firstStartDate,
+        period * originationFrequencyMonths[cohort.frequency]
+      );
+      return {
+        archetype,
+        series: seriesStartingIn(archetype, date),
+        startDate: date,
+        count: cohort.projectsPerPeriod,
+      };
+    });
+  });
+  if (starts.length === 0) return null;
+
+  const startDate = earliestDate(starts.map((start) => start.startDate));
+  const totalMonths = Math.max(
+    ...starts.map(
+      (start) =>
+        monthsBetween(startDate, start.startDate) + start.series.flows.length
+    )
+  );
+
+  const empty = () => Array<number>(totalMonths).fill(0);
+  const flows = empty();
+  const costs = empty();
+  const generation = empty();
+  const devEx = empty();
+  const capEx = empty();
+  const originated = empty();
+  const mwReachingNTP = empty();
+  const mwReachingCOD = empty();
+  starts.forEach(({ archetype, series, startDate: date, count }) => {
+    const offset = monthsBetween(startDate, date);
+    const add = (target: number[], values: number[]) =>
+      values.forEach((value, month) => {
+        target[offset + month] += value * count;
+      });
+    add(flows, series.flows);
+    add(costs, series.costs);
+    add(generation, series.generation);
+    add(devEx, series.devEx);
+    add(capEx, series.capEx);
+    originated[offset] += count;
+    const mw = count * series.reachingNTP * archetype.systemParams.systemSize;
+    mwReachingNTP[offset + series.milestones.ntpMonth] += mw;
+    mwReachingCOD[offset + series.milestones.codMonth] += mw;
+  });
+
+  const annual = (values: number[]) => rollUpToAnnual(values, startDate);
+  const annualFlows = annual(flows);
+  const annualDevEx = annual(devEx);
+  const annualCapEx = annual(capEx);
+  const annualOriginated = annual(originated);
+  const annualNTP = annual(mwReachingNTP);
+  const annualCOD = annual(mwReachingCOD);
+  const firstMonth = parseMonth(startDate).month;
+  let cumulative = 0;
+
+  return {
+    startDate,
+    years: calendarYears(startDate, totalMonths).map((year, i) => {
+      cumulative += annualFlows[i];
+      // Months from the start through December of this year
+      const monthsToDate = Math.min(totalMonths, (i + 1) * 12 - firstMonth + 1);
+      return {
+        year,
+        projectsOriginated: annualOriginated[i],
+        devEx: Math.max(0, -annualDevEx[i]),
+        capEx: Math.max(0, -annualCapEx[i]),
+        netCashFlow: annualFlows[i],
+        capitalCall: Math.max(0, -annualFlows[i]),
+        cumulativeCashFlow: cumulative,
+        mwReachingNTP: annualNTP[i],
+        mwReachingCOD: annualCOD[i],
+        runningIRR: calculateIRR(
+          aggregateToPeriods(flows.slice(0, monthsToDate), resolution),
+          periodsPerYear(resolution)
+        ),
+      };
+    }),
+    metrics: calculateFinancialMetrics(
+      flows,
+      costs,
+      generation,
+      startDate,
+      resolution,
+      financialParameters
+    ),
+    projectsOriginated: originated.reduce((sum, count) => sum + count, 0),
+    mwReachingNTP: mwReachingNTP.reduce((sum, mw) => sum + mw, 0),
+  };
+}
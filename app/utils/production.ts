@@ -0,0 +1,216 @@
+import { ProductionProfile } from "../types/production";
+import { TimeOfUsePeriod } from "../types/revenue";
+import { SystemParameters } from "../types/system";
+
+export const hoursPerYear = 8760;
+
+const daysPerMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Output columns in the order they are preferred. AC output already carries
+// inverter losses; DC output is used when that is all the export has.
+const outputColumnPatterns = [
+  /ac system output/i,
+  /system power generated/i,
+  /e_grid/i,
+  /dc array output/i,
+  /earray/i,
+];
+
+// Exports state their power unit in the column header, e.g. "(W)" or "| (kW)".
+// Headerless files and PVsyst energy columns are read as kW.
+function unitScale(header: string): number {
+  const unit = header.match(/\b(mw|kw|w)h?\b/i)?.[1].toLowerCase();
+  if (unit === "mw") return 1;
+  if (unit === "w") return 1e-6;
+  return 1e-3;
+}
+
+function splitCsvLine(line: string): string[] {
+  return line
+    .split(/[,;\t]/)
+    .map((cell) => cell.trim().replace(/^"|"$/g, "").trim());
+}
+
+function findOutputColumn(
+  rows: string[][]
+): { row: number; column: number } | null {
+  for (const pattern of outputColumnPatterns) {
+    for (let row = 0; row < rows.length; row++) {
+      const column = rows[row].findIndex((cell) => pattern.test(cell));
+      if (column >= 0) return { row, column };
+    }
+  }
+  return null;
+}
+
+// Read an 8760 export into hourly MW. Leap-year exports drop February 29.
+export function parseProductionProfile(
+  text: string,
+  name: string,
+  sourceSystemSizeMW: number
+): ProductionProfile {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map(splitCsvLine);
+  const header = findOutputColumn(rows);
+  const dataRows = header ? rows.slice(header.row + 1) : rows;
+  const scale = header ? unitScale(rows[header.row][header.column]) : 1e-3;
+
+  const values: number[] = [];
+  dataRows.forEach((cells) => {
+    // PVWatts ends with a totals row
+    if (/total/i.test(cells[0])) return;
+    const cell = header ? cells[header.column] : cells[cells.length - 1];
+    if (cell === undefined || cell === "") return;
+    const value = Number(cell);
+    if (Number.isFinite(value)) values.push(Math.max(0, value) * scale);
+  });
+
+  if (values.length === hoursPerYear + 24) {
+    const leapDayStart = (31 + 28) * 24;
+    values.splice(leapDayStart, 24);
+  }
+  if (values.length !== hoursPerYear) {
+    throw new Error(
+      `Expected ${hoursPerYear.toLocaleString()} hourly values${
+        header ? ` in "${rows[header.row][header.column]}"` : ""
+      } but found ${values.length.toLocaleString()}.`
+    );
+  }
+
+  return { name, sourceSystemSizeMW, hourlyMW: values };
+}
+
+// Hourly AC output in MW for the project's DC size, clipped at its AC size
+export function calculateHourlyOutput(
+  profile: ProductionProfile,
+  systemParams: SystemParameters
+): { output: number[]; clipped: number[] } {
+  const dcScale =
+    profile.sourceSystemSizeMW > 0
+      ? systemParams.systemSize / profile.sourceSystemSizeMW
+      : 0;
+  const output: number[] = [];
+  const clipped: number[] = [];
+  profile.hourlyMW.forEach((value) => {
+    const scaled = value * dcScale;
+    const delivered = Math.min(scaled, Math.max(0, systemParams.acSystemSize));
+    output.push(delivered);
+    clipped.push(scaled - delivered);
+  });
+  return { output, clipped };
+}
+
+// First-year generation in MWh for each calendar month, January first
+export function calculateMonthlyGeneration(
+  systemParams: SystemParameters
+): number[] {
+  const profile = systemParams.productionProfile;
+  if (!profile) {
+    const annualGeneration =
+      systemParams.systemSize *
+      (systemParams.capacityFactor / 100) *
+      hoursPerYear;
+    return Array<number>(12).fill(annualGeneration / 12);
+  }
+  return sumByMonth(calculateHourlyOutput(profile, systemParams).output);
+}
+
+function sumByMonth(hourly: number[]): number[] {
+  let hour = 0;
+  return daysPerMonth.map((days) => {
+    const hours = days * 24;
+    const total = hourly
+      .slice(hour, hour + hours)
+      .reduce((sum, value) => sum + value, 0);
+    hour += hours;
+    return total;
+  });
+}
+
+// Whether a value falls in a range that may wrap, e.g. months 11 to 3
+const inWrappingRange = (
+  value: number,
+  start: number,
+  end: number,
+  inclusiveEnd: boolean
+) => {
+  const beforeEnd = inclusiveEnd ? value <= end : value < end;
+  return start <= end
+    ? value >= start && beforeEnd
+    : value >= start || beforeEnd;
+};
+
+function timeOfUseMultiplier(
+  periods: TimeOfUsePeriod[],
+  month: number,
+  hourOfDay: number
+): number {
+  const period = periods.find(
+    (period) =>
+      inWrappingRange(month, period.startMonth, period.endMonth, true) &&
+      (period.startHour === period.endHour ||
+        inWrappingRange(hourOfDay, period.startHour, period.endHour, false))
+  );
+  return period ? period.rateMultiplier : 1;
+}
+
+// Output-weighted bill credit multiplier for each calendar month, January
+// first. Each hour's clipped output is priced at its time-of-use multiplier
+// before summing by month. Flat capacity-factor generation has no hourly
+// shape, so it is paid the plain rate.
+export function calculateMonthlyRateFactors(
+  systemParams: SystemParameters,
+  periods: TimeOfUsePeriod[]
+): number[] {
+  const profile = systemParams.productionProfile;
+  if (!profile || periods.length === 0) return Array<number>(12).fill(1);
+  const { output } = calculateHourlyOutput(profile, systemParams);
+  const monthOfHour = daysPerMonth.flatMap((days, month) =>
+    Array<number>(days * 24).fill(month + 1)
+  );
+  const pricedOutput = output.map(
+    (value, hour) =>
+      value * timeOfUseMultiplier(periods, monthOfHour[hour], hour % 24)
+  );
+  const priced = sumByMonth(pricedOutput);
+  return sumByMonth(output).map((total, month) =>
+    total > 0 ? priced[month] / total : 1
+  );
+}
+
+export interface ProductionSummary {
+  annualGeneration: number;
+  clippingLoss: number;
+  // Net capacity factors on DC and AC capacity, as decimals
+  dcCapacityFactor: number;
+  acCapacityFactor: number;
+}
+
+export function calculateProductionSummary(
+  systemParams: SystemParameters
+): ProductionSummary {
+  const annualGeneration = calculateMonthlyGeneration(systemParams).reduce(
+    (sum, value) => sum + value,
+    0
+  );
+  const clippingLoss = systemParams.productionProfile
+    ? calculateHourlyOutput(
+        systemParams.productionProfile,
+        systemParams
+      ).clipped.reduce((sum, value) => sum + value, 0)
+    : 0;
+  return {
+    annualGeneration,
+    clippingLoss,
+    dcCapacityFactor:
+      systemParams.systemSize > 0
+        ? annualGeneration / (systemParams.systemSize * hoursPerYear)
+        : 0,
+    acCapacityFactor:
+      systemParams.acSystemSize > 0
+        ? annualGeneration / (systemParams.acSystemSize * hoursPerYear)
+        : 0,
+  };
+}
@@ -0,0 +1,58 @@
+import { BillCreditMethod, RevenueParameters } from "../types/revenue";
+
+export const billCreditMethodLabels: Record<BillCreditMethod, string> = {
+  fixedRate: "Fixed Rate",
+  valueStack: "Value Stack",
+};
+
+// Bill credit earned per MWh in an operating year, before discounts
+export function calculateBillCreditRate(
+  revenue: RevenueParameters,
+  operatingYear: number
+): number {
+  if (revenue.billCreditMethod === "fixedRate") {
+    return (
+      revenue.fixedRatePerMWh *
+      Math.pow(1 + revenue.fixedRateEscalation, operatingYear)
+    );
+  }
+  return revenue.valueStack.reduce(
+    (rate, component) =>
+      component.termYears != null && operatingYear >= component.termYears
+        ? rate
+        : rate +
+          component.ratePerMWh *
+            Math.pow(1 + component.escalationRate, operatingYear),
+    0
+  );
+}
+
+// Share of the bill credit paid by subscribers after their discounts.
+// Credits not allocated to a subscriber class earn nothing.
+export function calculateSubscriberPaymentShare(
+  revenue: RevenueParameters,
+  operatingYear: number
+): number {
+  return revenue.subscribers.reduce(
+    (share, subscriber) =>
+      share +
+      subscriber.share *
+        (1 -
+          (operatingYear < subscriber.contractTermYears
+            ? subscriber.discount
+            : subscriber.renewalDiscount)),
+    0
+  );
+}
+
+// Cash collected per MWh generated in an operating year
+export function calculateRealizedRate(
+  revenue: RevenueParameters,
+  operatingYear: number
+): number {
+  return (
+    calculateBillCreditRate(revenue, operatingYear) *
+    calculateSubscriberPaymentShare(revenue, operatingYear) *
+    revenue.creditToCashRate
+  );
+}
@@ -0,0 +1,90 @@
+import { RiskCategory } from "../types/risk";
+import { calculateGoNoGoProbability } from "./cashFlowCalculations";
+
+// Colors of the whitepaper's five categories in their default order, then
+// five more that stand apart from them
+const categoryPalette = [
+  "rgb(255, 99, 132)",
+  "rgb(54, 162, 235)",
+  "rgb(75, 192, 192)",
+  "rgb(255, 159, 64)",
+  "rgb(153, 102, 255)",
+  "rgb(76, 175, 80)",
+  "rgb(205, 170, 30)",
+  "rgb(230, 90, 200)",
+  "rgb(141, 110, 99)",
+  "rgb(96, 125, 139)",
+];
+
+// Chart color of the category at an index in the milestone sequence
+export function categoryColor(index: number): string {
+  if (index < categoryPalette.length) return categoryPalette[index];
+  // Past the palette, golden-angle steps keep neighbouring hues apart
+  const hue = Math.round((index - categoryPalette.length) * 137.5 + 100) % 360;
+  return `hsl(${hue}, 65%, 50%)`;
+}
+
+// The color with an alpha channel, for fills
+export function categoryFill(index: number, alpha: number): string {
+  const color = categoryColor(index);
+  return color.startsWith("hsl")
+    ? color.replace("hsl", "hsla").replace(")", `, ${alpha})`)
+    : color.replace("rgb", "rgba").replace(")", `, ${alpha})`);
+}
+
+// Names identify categories in the charts and sensitivity grids, so they
+// must be unique, ignoring case
+export function isCategoryNameTaken(
+  name: string,
+  categories: RiskCategory[],
+  exceptIndex?: number
+): boolean {
+  return categories.some(
+    (category, index) =>
+      index !== exceptIndex &&
+      category.name.toLowerCase() === name.trim().toLowerCase()
+  );
+}
+
+// A category starting where the last one ends, with a name not yet used
+export function createRiskCategory(existing: RiskCategory[]): RiskCategory {
+  let name = "New Category";
+  for (let n = 2; isCategoryNameTaken(name, existing); n++) {
+    name = `New Category ${n}`;
+  }
+  const previous = existing[existing.length - 1];
+  return {
+    name,
+    riskLevel: "Low",
+    devEx: 10000,
+    capExIncrease: 0,
+    approvalRisk: 1,
+    goNoGoProbability: calculateGoNoGoProbability(1, 0.5),
+    devExLow: 10000,
+    devExHigh: 20000,
+    capExIncreaseLow: 0,
+    capExIncreaseHigh: 0,
+    worstCaseScenario: 0.5,
+    startOffsetMonths: previous
+      ? previous.startOffsetMonths + previous.durationMonths
+      : 0,
+    durationMonths: 6,
+  };
+}
+
+// The category with its DevEx, CapEx increase and go/no-go probability
+// following its risk level, bounds and worst case
+export function withDerivedRiskValues(category: RiskCategory): RiskCategory {
+  const high = category.riskLevel === "High";
+  return {
+    ...category,
+    devEx: high ? category.devExHigh : category.devExLow,
+    capExIncrease: high
+      ? category.capExIncreaseHigh
+      : category.capExIncreaseLow,
+    goNoGoProbability: calculateGoNoGoProbability(
+      category.approvalRisk ?? 1,
+      category.worstCaseScenario
+    ),
+  };
+}
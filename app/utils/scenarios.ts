@@ -0,0 +1,147 @@
+import { ModelState, Scenario, ScenarioFile } from "../types/scenario";
+
+export const scenarioFileVersion = 1;
+
+const storageKey = "derisksolar.scenarios";
+
+// Most scenarios that can be compared side by side
+export const maxComparedScenarios = 4;
+
+// Inputs every saved scenario has; those added since are filled in by
+// mergeModelState
+const modelStateKeys: (keyof ModelState)[] = [
+  "riskCategories",
+  "systemParams",
+  "financialParameters",
+  "debtParameters",
+  "taxEquityParameters",
+];
+
+export function createScenario(name: string, state: ModelState): Scenario {
+  return {
+    id: `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    savedAt: new Date().toISOString(),
+    state: structuredClone(state),
+  };
+}
+
+export function duplicateScenario(
+  scenario: Scenario,
+  scenarios: Scenario[]
+): Scenario {
+  const names = new Set(scenarios.map((existing) => existing.name));
+  let name = `${scenario.name} (copy)`;
+  for (let copy = 2; names.has(name); copy++) {
+    name = `${scenario.name} (copy ${copy})`;
+  }
+  return createScenario(name, scenario.state);
+}
+
+// Fill inputs added since a scenario was saved from the current state, so
+// older scenarios still run
+export function mergeModelState(
+  base: ModelState,
+  saved: ModelState
+): ModelState {
+  return {
+    riskCategories: saved.riskCategories,
+    systemParams: {
+      ...base.systemParams,
+      ...saved.systemParams,
+      // Scenarios from before correlations were modeled assumed independence
+      riskCorrelations: saved.systemParams.riskCorrelations ?? [],
+    },
+    financialParameters: {
+      ...base.financialParameters,
+      ...saved.financialParameters,
+      revenue: {
+        ...base.financialParameters.revenue,
+        ...saved.financialParameters.revenue,
+      },
+      federalIncentives: {
+        ...base.financialParameters.federalIncentives,
+        ...saved.financialParameters.federalIncentives,
+      },
+    },
+    debtParameters: { ...base.debtParameters, ...saved.debtParameters },
+    taxEquityParameters: {
+      ...base.taxEquityParameters,
+      ...saved.taxEquityParameters,
+    },
+    // Scenarios from before archetypes and cohorts were saved had none
+    archetypes: (saved.archetypes ?? []).map((archetype) => ({
+      ...archetype,
+      financialParameters: {
+        ...archetype.financialParameters,
+        revenue: {
+          ...archetype.financialParameters.revenue,
+          // Archetypes saved before time-of-use rates were modeled had none
+          timeOfUsePeriods:
+            archetype.financialParameters.revenue.timeOfUsePeriods ?? [],
+        },
+      },
+    })),
+    cohorts: saved.cohorts ?? [],
+  };
+}
+
+function isScenario(value: unknown): value is Scenario {
+  if (typeof value !== "object" || value === null) return false;
+  const scenario = value as Partial<Scenario>;
+  return (
+    typeof scenario.id === "string" &&
+    typeof scenario.name === "string" &&
+    typeof scenario.state === "object" &&
+    scenario.state !== null &&
+    modelStateKeys.every((key) => key in (scenario.state as ModelState)) &&
+    Array.isArray(scenario.state.riskCategories)
+  );
+}
+
+export function serializeScenarios(scenarios: Scenario[]): string {
+  const file: ScenarioFile = { version: scenarioFileVersion, scenarios };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read an exported scenario file. Throws if it isn't one or was written by a
+// newer version of the model.
+export function parseScenarioFile(text: string): Scenario[] {
+  let file: Partial<ScenarioFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (typeof file?.version !== "number" || !Array.isArray(file.scenarios)) {
+    throw new Error("The file is not a scenario export.");
+  }
+  if (file.version > scenarioFileVersion) {
+    throw new Error(
+      `The file is scenario format version ${file.version}, but this model reads up to version ${scenarioFileVersion}.`
+    );
+  }
+  const invalid = file.scenarios.filter((scenario) => !isScenario(scenario));
+  if (invalid.length > 0) {
+    throw new Error(
+      `${invalid.length} of ${file.scenarios.length} scenarios in the file are missing inputs.`
+    );
+  }
+  return file.scenarios;
+}
+
+// Scenarios saved in this browser. A missing or unreadable entry is treated
+// as none.
+export function loadStoredScenarios(): Scenario[] {
+  const stored = window.localStorage.getItem(storageKey);
+  if (!stored) return [];
+  try {
+    return parseScenarioFile(stored);
+  } catch {
+    return [];
+  }
+}
+
+export function storeScenarios(scenarios: Scenario[]): void {
+  window.localStorage.setItem(storageKey, serializeScenarios(scenarios));
+}
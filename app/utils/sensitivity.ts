@@ -0,0 +1,253 @@
+import { FinancialMetricUnit } from "../types/metrics";
+import { ArchetypeInputs } from "../types/portfolio";
+import {
+  BreakevenFrontierPoint,
+  BreakevenResult,
+  HeatmapAxis,
+  HeatmapResult,
+  InputRange,
+  ModelInput,
+  ModelOutput,
+  ModelOutputValues,
+  TornadoBar,
+  TornadoResult,
+} from "../types/sensitivity";
+import { CashFlowResult, calculateCashFlows } from "./cashFlowCalculations";
+import { clampInputValue } from "./modelInputs";
+
+// What each output is and where it comes from in the model's results.
+// Portfolio results are per average pipeline project.
+export const modelOutputs: Record<
+  ModelOutput,
+  {
+    label: string;
+    unit: FinancialMetricUnit;
+    // Hurdle offered first in the heatmap and goal seek
+    defaultTarget: number;
+    value: (result: CashFlowResult) => number | null;
+  }
+> = {
+  projectIRR: {
+    label: "Project IRR",
+    unit: "percent",
+    defaultTarget: 0.1,
+    value: (result) => result.projectMetrics.irr.irr,
+  },
+  portfolioIRR: {
+    label: "Portfolio IRR",
+    unit: "percent",
+    defaultTarget: 0.1,
+    value: (result) => result.portfolioMetrics.irr.irr,
+  },
+  portfolioNPV: {
+    label: "Portfolio NPV",
+    unit: "currency",
+    defaultTarget: 0,
+    value: (result) => result.portfolioMetrics.npv,
+  },
+  projectsReachingNTP: {
+    label: "Reaching NTP",
+    unit: "percent",
+    defaultTarget: 0.5,
+    value: (result) => result.projectsReachingNTP,
+  },
+};
+
+export function evaluateModelOutputs(
+  inputs: ArchetypeInputs
+): ModelOutputValues {
+  const result = calculateCashFlows(
+    inputs.riskCategories,
+    inputs.systemParams,
+    inputs.financialParameters
+  );
+  return Object.fromEntries(
+    (Object.keys(modelOutputs) as ModelOutput[]).map((output) => [
+      output,
+      modelOutputs[output].value(result),
+    ])
+  ) as ModelOutputValues;
+}
+
+// Every input moved to its low and then its high value with the others held
+// at their current values
+export function calculateTornado(
+  inputs: ArchetypeInputs,
+  modelInputs: ModelInput[],
+  ranges: Record<string, InputRange>
+): TornadoResult {
+  const bars: TornadoBar[] = modelInputs.map((input) => {
+    const { low, high } = ranges[input.id];
+    return {
+      id: input.id,
+      label: input.label,
+      group: input.group,
+      unit: input.unit,
+      base: input.value(inputs),
+      low,
+      high,
+      atLow: evaluateModelOutputs(input.apply(inputs, low)),
+      atHigh: evaluateModelOutputs(input.apply(inputs, high)),
+    };
+  });
+  return { base: evaluateModelOutputs(inputs), bars };
+}
+
+// Distance between an output at the input's low and high values, or null
+// when either has no value (such as an IRR that doesn't exist)
+export function tornadoSwing(
+  bar: TornadoBar,
+  output: ModelOutput
+): number | null {
+  const atLow = bar.atLow[output];
+  const atHigh = bar.atHigh[output];
+  return atLow === null || atHigh === null ? null : Math.abs(atHigh - atLow);
+}
+
+// Bars from the largest swing down. Those without a swing come last.
+export function rankTornadoBars(
+  bars: TornadoBar[],
+  output: ModelOutput
+): TornadoBar[] {
+  return [...bars].sort(
+    (a, b) => (tornadoSwing(b, output) ?? -1) - (tornadoSwing(a, output) ?? -1)
+  );
+}
+
+// Evenly spaced values from the low to the high end of a range. Whole-number
+// inputs skip values that round to one already taken.
+export function axisValues(
+  input: ModelInput,
+  range: InputRange,
+  steps: number
+): number[] {
+  const count = Math.max(2, Math.round(steps));
+  const values = Array.from({ length: count }, (_, i) =>
+    clampInputValue(
+      input,
+      // Rounded so steps like 1.7 aren't shown as 1.7000000000000002
+      Number(
+        (range.low + ((range.high - range.low) * i) / (count - 1)).toPrecision(
+          12
+        )
+      )
+    )
+  );
+  return values.filter((value, i) => values.indexOf(value) === i);
+}
+
+// Every output with the two inputs set to each pair of axis values and the
+// rest held at their current values
+export function calculateHeatmap(
+  inputs: ArchetypeInputs,
+  x: { input: ModelInput; values: number[] },
+  y: { input: ModelInput; values: number[] }
+): HeatmapResult {
+  const axis = (input: ModelInput, values: number[]): HeatmapAxis => ({
+    inputId: input.id,
+    label: input.label,
+    unit: input.unit,
+    values,
+  });
+  return {
+    x: axis(x.input, x.values),
+    y: axis(y.input, y.values),
+    cells: y.values.map((yValue) => {
+      const row = y.input.apply(inputs, yValue);
+      return x.values.map((xValue) =>
+        evaluateModelOutputs(x.input.apply(row, xValue))
+      );
+    }),
+  };
+}
+
+// Points sampled across a range to find where the target is crossed
+const breakevenSamples = 9;
+
+// Halvings of the crossing's bracket, well past any visible precision
+const breakevenIterations = 40;
+
+// The value of one input at which an output reaches a target, with the other
+// inputs held at their current values. The range is sampled for the first
+// change between meeting and missing the target, which is then narrowed by
+// bisection. A missing result, such as an IRR that doesn't exist, misses.
+export function solveBreakeven(
+  inputs: ArchetypeInputs,
+  input: ModelInput,
+  output: ModelOutput,
+  target: number,
+  range: InputRange
+): BreakevenResult {
+  const evaluate = (value: number) =>
+    evaluateModelOutputs(input.apply(inputs, value))[output];
+  const meets = (result: number | null) => result !== null && result >= target;
+
+  const samples = axisValues(input, range, breakevenSamples).map((value) => ({
+    value,
+    result: evaluate(value),
+  }));
+  const crossing = samples.findIndex(
+    (sample, i) =>
+      i > 0 && meets(sample.result) !== meets(samples[i - 1].result)
+  );
+
+  if (crossing < 0) {
+    const closest = samples.reduce((best, sample) =>
+      best.result === null ||
+      (sample.result !== null &&
+        Math.abs(sample.result - target) < Math.abs(best.result - target))
+        ? sample
+        : best
+    );
+    return {
+      status: meets(samples[0].result) ? "alwaysMet" : "infeasible",
+      closestValue: closest.value,
+      closest: closest.result,
+    };
+  }
+
+  let below = samples[crossing - 1];
+  let above = samples[crossing];
+  const meetsAbove = meets(above.result);
+  for (let i = 0; i < breakevenIterations; i++) {
+    const middle = input.integer
+      ? Math.round((below.value + above.value) / 2)
+      : (below.value + above.value) / 2;
+    if (middle === below.value || middle === above.value) break;
+    const sample = { value: middle, result: evaluate(middle) };
+    if (meets(sample.result) === meetsAbove) {
+      above = sample;
+    } else {
+      below = sample;
+    }
+  }
+  const met = meetsAbove ? above : below;
+  return {
+    status: "found",
+    value: met.value,
+    achieved: met.result!,
+    meetsAbove,
+  };
+}
+
+// Breakevens of one input as a second input moves along its axis, tracing
+// the pairs of values at which the output just reaches the target
+export function calculateBreakevenFrontier(
+  inputs: ArchetypeInputs,
+  input: ModelInput,
+  output: ModelOutput,
+  target: number,
+  range: InputRange,
+  frontier: { input: ModelInput; values: number[] }
+): BreakevenFrontierPoint[] {
+  return frontier.values.map((value) => ({
+    value,
+    breakeven: solveBreakeven(
+      frontier.input.apply(inputs, value),
+      input,
+      output,
+      target,
+      range
+    ),
+  }));
+}
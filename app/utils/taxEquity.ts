@@ -0,0 +1,209 @@
+import { RiskCategory } from "../types/risk";
+import { SystemParameters } from "../types/system";
+import { FinancialParameters } from "../types/financial";
+import {
+  TaxEquityParameters,
+  TaxEquityResult,
+  TaxEquityYear,
+} from "../types/taxEquity";
+import {
+  calculateExpectedStructureFlows,
+  calculateMonthlyPipelineShare,
+  calculateOperatingCashFlow,
+  calculateProjectSchedule,
+} from "./cashFlowCalculations";
+import {
+  aggregateToPeriods,
+  calendarYears,
+  periodsPerYear,
+  rollUpToAnnual,
+} from "./timeline";
+import { sumIncentiveSeries } from "./incentives";
+import { calculateIRR, npv } from "./irr";
+
+// 5-year MACRS with the half-year convention
+export const macrsFiveYearRates = [0.2, 0.32, 0.192, 0.1152, 0.1152, 0.0576];
+
+// Depreciation by operating year. Bonus depreciation is taken in the first
+// year and the remaining basis follows the MACRS schedule.
+export function calculateDepreciation(
+  basis: number,
+  bonusDepreciationRate: number,
+  years: number
+): number[] {
+  const bonus = basis * bonusDepreciationRate;
+  return Array.from(
+    { length: years },
+    (_, year) =>
+      (year === 0 ? bonus : 0) +
+      (basis - bonus) * (macrsFiveYearRates[year] ?? 0)
+  );
+}
+
+export function calculateTaxEquity(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters,
+  financialParameters: FinancialParameters,
+  taxEquityParameters: TaxEquityParameters
+): TaxEquityResult {
+  const schedule = calculateProjectSchedule(
+    riskCategories,
+    systemParams,
+    financialParameters
+  );
+  const { lineItems, milestones, federalCredits } = schedule;
+  const { codMonth } = milestones;
+  const months = lineItems.devEx.length;
+  const startDate = systemParams.developmentStartDate;
+  const resolution = systemParams.timelineResolution;
+  const operatingYears = systemParams.projectLength;
+
+  const monthlyCashFlow = calculateOperatingCashFlow(
+    lineItems,
+    financialParameters.incentives
+  );
+  const upfrontIncentives = sumIncentiveSeries(
+    lineItems.incentives,
+    financialParameters.incentives,
+    false,
+    months
+  );
+
+  // The depreciable basis is reduced by half of the ITC, if elected
+  const totalCapEx = -lineItems.capEx.reduce((sum, value) => sum + value, 0);
+  const depreciableBasis =
+    totalCapEx -
+    (federalCredits.elected === "itc" ? federalCredits.itcValue / 2 : 0);
+  const depreciation = calculateDepreciation(
+    depreciableBasis,
+    taxEquityParameters.bonusDepreciationRate,
+    operatingYears
+  );
+  const flipYear = Math.min(
+    Math.max(1, Math.round(taxEquityParameters.targetFlipYear)),
+    operatingYears
+  );
+
+  // Project cash is shared monthly and tax benefits with each year's return,
+  // a negative taxable income is a benefit to the partners
+  const partnershipFlows = Array<number>(months).fill(0);
+  const investorReceipts = Array<number>(months).fill(0);
+  const yearTotals = Array.from({ length: operatingYears }, (_, year) => {
+    const preFlip = year < flipYear;
+    const taxAllocation = preFlip
+      ? taxEquityParameters.preFlipTaxAllocation
+      : taxEquityParameters.postFlipAllocation;
+    const cashAllocation = preFlip
+      ? taxEquityParameters.preFlipCashAllocation
+      : taxEquityParameters.postFlipAllocation;
+    const firstMonth = codMonth + year * 12;
+    const lastMonth = firstMonth + 11;
+
+    let cashDistributions = 0;
+    let taxCredits = 0;
+    for (let month = firstMonth; month <= lastMonth; month++) {
+      cashDistributions += monthlyCashFlow[month];
+      taxCredits += lineItems.itc[month] + lineItems.ptc[month];
+      partnershipFlows[month] += monthlyCashFlow[month];
+      investorReceipts[month] += monthlyCashFlow[month] * cashAllocation;
+    }
+
+    const taxableIncome = cashDistributions - depreciation[year];
+    const taxBenefit = -taxableIncome * taxEquityParameters.taxRate;
+    partnershipFlows[lastMonth] += taxBenefit + taxCredits;
+    investorReceipts[lastMonth] += (taxBenefit + taxCredits) * taxAllocation;
+
+    return {
+      firstMonth,
+      lastMonth,
+      taxableIncome,
+      taxBenefit,
+      taxCredits,
+      cashDistributions,
+      taxAllocation,
+      cashAllocation,
+    };
+  });
+
+  // The investor contributes the present value of its pre-flip receipts at
+  // the target IRR, so that it reaches the target in the flip year
+  const investorContribution = npv(
+    aggregateToPeriods(
+      investorReceipts.slice(codMonth, codMonth + flipYear * 12),
+      resolution
+    ),
+    taxEquityParameters.targetInvestorIRR,
+    periodsPerYear(resolution)
+  );
+
+  // The sponsor funds the project and keeps the lump-sum incentives
+  const investorFlows = [...investorReceipts];
+  investorFlows[codMonth] -= investorContribution;
+  const sponsorFlows = lineItems.devEx.map(
+    (devEx, month) =>
+      devEx +
+      lineItems.capEx[month] +
+      upfrontIncentives[month] +
+      partnershipFlows[month] -
+      investorFlows[month]
+  );
+
+  const sumMonths = (values: number[], first: number, last: number) =>
+    values.slice(first, last + 1).reduce((sum, value) => sum + value, 0);
+  const taxSchedule: TaxEquityYear[] = yearTotals.map((totals, year) => {
+    const investorToDate = investorFlows.slice(codMonth, totals.lastMonth + 1);
+    return {
+      operatingYear: year + 1,
+      depreciation: depreciation[year],
+      taxableIncome: totals.taxableIncome,
+      taxBenefit: totals.taxBenefit,
+      taxCredits: totals.taxCredits,
+      cashDistributions: totals.cashDistributions,
+      investorTaxAllocation: totals.taxAllocation,
+      investorCashAllocation: totals.cashAllocation,
+      investorFlow: sumMonths(
+        investorFlows,
+        totals.firstMonth,
+        totals.lastMonth
+      ),
+      sponsorFlow: sumMonths(sponsorFlows, totals.firstMonth, totals.lastMonth),
+      investorCumulativeIRR: calculateIRR(
+        aggregateToPeriods(investorToDate, resolution),
+        periodsPerYear(resolution)
+      ).irr,
+    };
+  });
+
+  const expectedSponsorFlows = calculateExpectedStructureFlows(
+    schedule,
+    calculateMonthlyPipelineShare(
+      riskCategories,
+      systemParams.riskCorrelations,
+      schedule.lineItems.devEx.length
+    ),
+    sponsorFlows
+  );
+
+  return {
+    depreciableBasis,
+    investorContribution,
+    flipYear,
+    schedule: taxSchedule,
+    years: calendarYears(startDate, months),
+    sponsorFlows: rollUpToAnnual(sponsorFlows, startDate),
+    investorFlows: rollUpToAnnual(investorFlows, startDate),
+    expectedSponsorFlows: rollUpToAnnual(expectedSponsorFlows, startDate),
+    sponsorIRR: calculateIRR(
+      aggregateToPeriods(sponsorFlows, resolution),
+      periodsPerYear(resolution)
+    ),
+    investorIRR: calculateIRR(
+      aggregateToPeriods(investorFlows, resolution),
+      periodsPerYear(resolution)
+    ),
+    portfolioSponsorIRR: calculateIRR(
+      aggregateToPeriods(expectedSponsorFlows, resolution),
+      periodsPerYear(resolution)
+    ),
+  };
+}
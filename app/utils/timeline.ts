@@ -0,0 +1,145 @@
+import { RiskCategory } from "../types/risk";
+import { SystemParameters, TimelineResolution } from "../types/system";
+import { ProjectMilestones, TimelinePeriod } from "../types/timeline";
+
+// Dates are stored as "YYYY-MM" month strings, matching <input type="month">
+export function parseMonth(date: string): { year: number; month: number } {
+  const [year, month] = date.split("-").map(Number);
+  return {
+    year: Number.isFinite(year) ? year : new Date().getFullYear(),
+    month: Number.isFinite(month) && month >= 1 && month <= 12 ? month : 1,
+  };
+}
+
+export function addMonths(date: string, months: number): string {
+  const { year, month } = parseMonth(date);
+  const total = year * 12 + (month - 1) + Math.floor(months);
+  const newYear = Math.floor(total / 12);
+  const newMonth = (total % 12) + 1;
+  return `${newYear}-${String(newMonth).padStart(2, "0")}`;
+}
+
+const monthNames = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export function formatMonth(date: string): string {
+  const { year, month } = parseMonth(date);
+  return `${monthNames[month - 1]} ${year}`;
+}
+
+export function monthsPerPeriod(resolution: TimelineResolution): number {
+  return resolution === "quarterly" ? 3 : 1;
+}
+
+export function periodsPerYear(resolution: TimelineResolution): number {
+  return 12 / monthsPerPeriod(resolution);
+}
+
+// The month (from development start) at which a category's go/no-go decision
+// is made
+export function calculateGateMonth(category: RiskCategory): number {
+  return category.startOffsetMonths + category.durationMonths;
+}
+
+export function calculateProjectMilestones(
+  riskCategories: RiskCategory[],
+  systemParams: SystemParameters
+): ProjectMilestones {
+  // NTP is reached once the last milestone has been cleared
+  const ntpMonth = riskCategories.reduce(
+    (latest, cat) => Math.max(latest, calculateGateMonth(cat)),
+    0
+  );
+  const codMonth = ntpMonth + systemParams.constructionMonths;
+  const endMonth = codMonth + systemParams.projectLength * 12;
+
+  return {
+    startDate: systemParams.developmentStartDate,
+    ntpMonth,
+    ntpDate: addMonths(systemParams.developmentStartDate, ntpMonth),
+    codMonth,
+    codDate: addMonths(systemParams.developmentStartDate, codMonth),
+    endMonth,
+  };
+}
+
+export function buildPeriods(
+  startDate: string,
+  totalMonths: number,
+  resolution: TimelineResolution
+): TimelinePeriod[] {
+  const step = monthsPerPeriod(resolution);
+  const count = Math.ceil(totalMonths / step);
+  return Array.from({ length: count }, (_, index) => {
+    const startMonth = index * step;
+    const date = addMonths(startDate, startMonth);
+    const { year, month } = parseMonth(date);
+    return {
+      index,
+      startMonth,
+      date,
+      label:
+        resolution === "quarterly"
+          ? `${year} Q${Math.floor((month - 1) / 3) + 1}`
+          : formatMonth(date),
+    };
+  });
+}
+
+// Sum monthly values into the periods of the chosen resolution
+export function aggregateToPeriods(
+  monthlyValues: number[],
+  resolution: TimelineResolution
+): number[] {
+  const step = monthsPerPeriod(resolution);
+  const periods: number[] = Array(Math.ceil(monthlyValues.length / step)).fill(
+    0
+  );
+  monthlyValues.forEach((value, month) => {
+    periods[Math.floor(month / step)] += value;
+  });
+  return periods;
+}
+
+// Calendar years covered by a timeline starting at startDate
+export function calendarYears(startDate: string, totalMonths: number): number[] {
+  const { year: firstYear } = parseMonth(startDate);
+  const { year: lastYear } = parseMonth(
+    addMonths(startDate, Math.max(0, totalMonths - 1))
+  );
+  return Array.from(
+    { length: lastYear - firstYear + 1 },
+    (_, i) => firstYear + i
+  );
+}
+
+// Sum monthly values into calendar years for display
+export function rollUpToAnnual(
+  monthlyValues: number[],
+  startDate: string
+): number[] {
+  const years = calendarYears(startDate, monthlyValues.length);
+  const { month } = parseMonth(startDate);
+  const annual: number[] = Array(years.length).fill(0);
+  monthlyValues.forEach((value, i) => {
+    annual[Math.floor((month - 1 + i) / 12)] += value;
+  });
+  return annual;
+}
+
+// Index of the calendar year containing a given month from development start
+export function annualIndexOfMonth(startDate: string, month: number): number {
+  return Math.floor((parseMonth(startDate).month - 1 + month) / 12);
+}